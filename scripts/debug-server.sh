@@ -4,19 +4,12 @@
 # Ensure the script exits on error
 set -e
 
-# Create logs directory if it doesn't exist
-mkdir -p logs
-
-# Set timestamp for log file
-TIMESTAMP=$(date +"%Y-%m-%dT%H-%M-%S")
-LOG_FILE="logs/aitable-mcp-server-$TIMESTAMP.log"
-
 echo "Starting AITable MCP server with debugging enabled..."
-echo "Logs will be saved to: $LOG_FILE"
+echo "Logs will be saved to: logs/aitable-mcp-server.log"
 
 # Set debug environment variables
-export LOG_LEVEL=debug
-export DEBUG=true
+export AITABLE_LOG_LEVEL=debug
+export AITABLE_LOG_DIR=logs
 
 # Build the server
 echo "Building server..."
@@ -24,4 +17,4 @@ npm run build
 
 # Run the server and capture logs
 echo "Running server..."
-node ./dist/index.js | tee "$LOG_FILE" 
\ No newline at end of file
+node ./dist/index.js 
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { describe, test, expect } from 'vitest';
+import { AccessPolicy } from './accessPolicy.js';
+
+describe('AccessPolicy', () => {
+  test('allows everything by default', () => {
+    const policy = new AccessPolicy();
+    expect(policy.isToolAllowed('delete_records')).toBe(true);
+    expect(() => policy.assertAccess('spc1', 'dst1', true)).not.toThrow();
+  });
+
+  test('hides write tools and refuses writes when read-only', () => {
+    const policy = new AccessPolicy({ readOnly: true });
+    expect(policy.isToolAllowed('list_records')).toBe(true);
+    expect(policy.isToolAllowed('delete_records')).toBe(false);
+    expect(() => policy.assertAccess('spc1', 'dst1')).not.toThrow();
+    expect(() => policy.assertAccess('spc1', 'dst1', true)).toThrow('read-only');
+  });
+
+  test('applies allow lists exhaustively and lets deny lists win', () => {
+    const policy = new AccessPolicy({
+      allowedTools: ['list_records', 'get_record'],
+      deniedTools: ['get_record'],
+      allowedSpaces: ['spc1'],
+      deniedDatasheets: ['dstSecret'],
+    });
+
+    expect(policy.isToolAllowed('list_records')).toBe(true);
+    expect(policy.isToolAllowed('get_record')).toBe(false);
+    expect(policy.isToolAllowed('search_records')).toBe(false);
+    expect(() => policy.assertAccess('spc2')).toThrow('Space spc2');
+    expect(() => policy.assertAccess('spc1', 'dstSecret')).toThrow('Datasheet dstSecret');
+    expect(() => policy.assertAccess('spc1', 'dst1')).not.toThrow();
+  });
+});
@@ -0,0 +1,80 @@
+import type { AccessPolicyOptions } from './types.js';
+import { PermissionError } from './errors.js';
+
+/**
+ * Tools that change data in AITable, which are never registered on a
+ * read-only server
+ */
+export const WRITE_TOOLS: ReadonlySet<string> = new Set([
+  'create_record',
+  'create_records',
+  'update_records',
+  'upsert_records',
+  'import_records',
+  'delete_records',
+  'create_table',
+  'apply_schema',
+  'apply_schema_migration',
+  'update_table',
+  'create_field',
+  'update_field',
+]);
+
+const CONFIGURED_OUT = 'The server is configured to keep it out of reach. Work with another space or datasheet.';
+
+/**
+ * Whether a list-based rule lets an ID through: it must be on the allow list,
+ * if there is one, and must not be on the deny list
+ */
+function isListed(id: string, allowed?: string[], denied?: string[]): boolean {
+  if (allowed && allowed.length > 0 && !allowed.includes(id)) {
+    return false;
+  }
+  return !denied?.includes(id);
+}
+
+/**
+ * Decides which tools are exposed and which spaces and datasheets can be
+ * reached. The server consults it when registering tools, and the service
+ * checks it on every call, so resources are covered as well.
+ */
+export class AccessPolicy {
+  constructor(private readonly options: AccessPolicyOptions = {}) {}
+
+  get readOnly(): boolean {
+    return this.options.readOnly === true;
+  }
+
+  isToolAllowed(name: string): boolean {
+    if (this.readOnly && WRITE_TOOLS.has(name)) {
+      return false;
+    }
+    return isListed(name, this.options.allowedTools, this.options.deniedTools);
+  }
+
+  isSpaceAllowed(spaceId: string): boolean {
+    return isListed(spaceId, this.options.allowedSpaces, this.options.deniedSpaces);
+  }
+
+  isDatasheetAllowed(datasheetId: string): boolean {
+    return isListed(datasheetId, this.options.allowedDatasheets, this.options.deniedDatasheets);
+  }
+
+  /**
+   * Throws unless the space, and the datasheet if given, can be reached, and
+   * unless the server accepts writes when the call is a write
+   */
+  assertAccess(spaceId: string, datasheetId?: string, write = false): void {
+    if (write && this.readOnly) {
+      throw new PermissionError('aitable-mcp-server: This server is read-only, so nothing can be written', {
+        remediation: 'Only read from this server. Writes need a server started without --read-only.',
+      });
+    }
+    if (!this.isSpaceAllowed(spaceId)) {
+      throw new PermissionError(`aitable-mcp-server: Space ${spaceId} is not accessible with this server's configuration`, { remediation: CONFIGURED_OUT });
+    }
+    if (datasheetId !== undefined && !this.isDatasheetAllowed(datasheetId)) {
+      throw new PermissionError(`aitable-mcp-server: Datasheet ${datasheetId} is not accessible with this server's configuration`, { remediation: CONFIGURED_OUT });
+    }
+  }
+}
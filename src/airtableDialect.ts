@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import type {
+  AITableRecord,
+  BaseSchemaResponse,
+  Field,
+  FieldChanges,
+  ListBasesResponse,
+  ListRecordsOptions,
+  ListRecordsPage,
+} from './types.js';
+import { BaseSchemaResponseSchema, ListBasesResponseSchema } from './types.js';
+import type { ApiDialect, ApiRequest } from './apiDialect.js';
+
+const AirtableFieldSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  description: z.string().optional(),
+  options: z.record(z.string(), z.any()).optional(),
+});
+
+const AirtableRecordSchema = z.object({
+  id: z.string(),
+  fields: z.record(z.any()),
+  createdTime: z.string().optional(),
+});
+
+/**
+ * The Airtable-compatible API under `/v0`, which pages records by token
+ */
+export class AirtableDialect implements ApiDialect {
+  readonly name = 'airtable';
+
+  constructor(private readonly request: ApiRequest) {}
+
+  listBases(): Promise<ListBasesResponse> {
+    return this.request('/v0/meta/bases', ListBasesResponseSchema);
+  }
+
+  getBaseSchema(baseId: string): Promise<BaseSchemaResponse> {
+    return this.request(`/v0/meta/bases/${baseId}/tables`, BaseSchemaResponseSchema);
+  }
+
+  async listRecordsPage(baseId: string, tableId: string, options: ListRecordsOptions): Promise<ListRecordsPage> {
+    const params = new URLSearchParams();
+    if (options.maxRecords) {
+      params.append('maxRecords', options.maxRecords.toString());
+    }
+    if (options.filterByFormula) {
+      params.append('filterByFormula', options.filterByFormula);
+    }
+    if (options.pageSize) {
+      params.append('pageSize', options.pageSize.toString());
+    }
+    if (options.pageToken) {
+      params.append('offset', options.pageToken);
+    }
+    options.sort?.forEach((sort, index) => {
+      params.append(`sort[${index}][field]`, sort.field);
+      params.append(`sort[${index}][direction]`, sort.direction ?? 'asc');
+    });
+    options.fields?.forEach((field) => params.append('fields[]', field));
+    if (options.viewId) {
+      params.append('view', options.viewId);
+    }
+    if (options.cellFormat) {
+      params.append('cellFormat', options.cellFormat);
+    }
+    if (options.fieldKey === 'id') {
+      params.append('returnFieldsByFieldId', 'true');
+    }
+
+    const queryString = params.toString() ? `?${params.toString()}` : '';
+    const response = await this.request(
+      `/v0/${baseId}/${tableId}/records${queryString}`,
+      z.object({
+        records: z.array(AirtableRecordSchema),
+        offset: z.string().nullable().optional(),
+      }),
+    );
+
+    return {
+      records: response.records,
+      pageToken: response.offset || undefined,
+    };
+  }
+
+  async getRecord(baseId: string, tableId: string, recordId: string): Promise<AITableRecord> {
+    const response = await this.request(`/v0/${baseId}/${tableId}/${recordId}`, AirtableRecordSchema);
+    return { id: response.id, fields: response.fields };
+  }
+
+  async searchRecords(baseId: string, tableId: string, searchTerm: string, fieldIds?: string[], maxRecords?: number): Promise<AITableRecord[]> {
+    const params = new URLSearchParams();
+    params.append('search', searchTerm);
+    if (maxRecords) {
+      params.append('maxRecords', maxRecords.toString());
+    }
+    if (fieldIds && fieldIds.length > 0) {
+      params.append('fields', fieldIds.join(','));
+    }
+
+    const response = await this.request(
+      `/v0/${baseId}/${tableId}/search?${params.toString()}`,
+      z.object({
+        records: z.array(z.object({
+          id: z.string(),
+          fields: z.record(z.string(), z.any()),
+        })),
+        offset: z.string().optional(),
+      }),
+    );
+    return response.records;
+  }
+
+  createField(baseId: string, tableId: string, field: Omit<Field, 'id'>): Promise<Field> {
+    return this.request(`/v0/meta/bases/${baseId}/tables/${tableId}/fields`, AirtableFieldSchema, {
+      method: 'POST',
+      body: JSON.stringify(field),
+    });
+  }
+
+  updateField(baseId: string, tableId: string, fieldId: string, updates: FieldChanges): Promise<Field> {
+    return this.request(`/v0/meta/bases/${baseId}/tables/${tableId}/fields/${fieldId}`, AirtableFieldSchema, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+  }
+}
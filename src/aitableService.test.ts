@@ -1,9 +1,26 @@
 import { describe, it, expect, vi } from 'vitest';
 import { AITableService } from './aitableService.js';
+import { credentialFingerprint } from './credentials.js';
+import { runInCallContext } from './callContext.js';
 
 // Mock fetch
 const mockFetch = vi.fn();
 
+// Builds a minimal node-fetch style response
+const jsonResponse = (body: unknown, status = 200, extraHeaders: Record<string, string> = {}) => {
+  const headers: Record<string, string> = { 'content-type': 'application/json', ...extraHeaders };
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    text: async () => JSON.stringify(body),
+  };
+};
+
+// Services in these tests speak a fixed dialect, so no probe requests are made
+const airtable = { apiDialect: 'airtable' as const };
+const fusion = { apiDialect: 'fusion' as const };
+
 describe('AITableService', () => {
   it('should throw an error when no API key is provided', () => {
     expect(() => new AITableService('')).toThrow('No API key provided');
@@ -20,4 +37,619 @@ describe('AITableService', () => {
     expect(service).toBeInstanceOf(AITableService);
     delete process.env.AITABLE_API_KEY;
   });
-}); 
\ No newline at end of file
+
+  describe('API dialect', () => {
+    const fusionSpaces = jsonResponse({
+      success: true, code: 200, message: 'SUCCESS', data: { spaces: [{ id: 'spc1', name: 'Team', isAdmin: true }] },
+    });
+
+    it('detects the dialect once and then sticks to it, surfacing its errors', async () => {
+      const fetch = vi.fn().mockImplementation(async (url: string) => {
+        if (url.includes('/v0/')) {
+          return jsonResponse({ error: 'NOT_FOUND' }, 404);
+        }
+        return url.endsWith('/spaces')
+          ? fusionSpaces
+          : jsonResponse({ success: false, code: 400, message: 'Invalid formula' }, 400);
+      });
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, { requestsPerSecond: 0 });
+
+      await service.listBases();
+      await service.listBases();
+      await expect(service.listRecordsPage('spc1', 'dst1', { filterByFormula: '{Bad' })).rejects.toThrow('Invalid formula');
+
+      const urls = fetch.mock.calls.map(([url]) => url.replace('https://api.aitable.ai', ''));
+      expect(urls).toEqual(['/v0/meta/bases', '/spaces', '/spaces', '/spaces', '/datasheets/dst1/records?filterByFormula=%7BBad']);
+    });
+
+    it('probes again after a failed probe', async () => {
+      const fetch = vi.fn()
+        .mockResolvedValueOnce(jsonResponse({ error: 'NOT_FOUND' }, 404))
+        .mockResolvedValueOnce(jsonResponse({ message: 'Unauthorized' }, 401))
+        .mockResolvedValueOnce(jsonResponse({ bases: [] }))
+        .mockResolvedValueOnce(jsonResponse({ bases: [] }));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, { requestsPerSecond: 0 });
+
+      await expect(service.listBases()).rejects.toThrow('Could not reach the API as either dialect');
+      await service.listBases();
+
+      expect(fetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('keeps to the Airtable-compatible API after a probe that failed for now', async () => {
+      const fetch = vi.fn()
+        .mockResolvedValueOnce(jsonResponse({ error: 'SERVER_ERROR' }, 503))
+        .mockResolvedValueOnce(jsonResponse({ bases: [] }))
+        .mockResolvedValueOnce(jsonResponse({ bases: [] }));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, { requestsPerSecond: 0, maxRetries: 0 });
+
+      await expect(service.listBases()).rejects.toThrow('(503)');
+      await service.listBases();
+
+      const urls = fetch.mock.calls.map(([url]) => url.replace('https://api.aitable.ai', ''));
+      expect(urls).toEqual(['/v0/meta/bases', '/v0/meta/bases', '/v0/meta/bases']);
+    });
+  });
+
+  describe('listRecordsPage', () => {
+    it('passes the page token as an offset and returns the next one', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({
+        records: [{ id: 'rec1', fields: {} }],
+        offset: 'itr2',
+      }));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, airtable);
+
+      const page = await service.listRecordsPage('spc1', 'dst1', { pageToken: 'itr1', pageSize: 1 });
+
+      expect(fetch.mock.calls[0][0]).toBe('https://api.aitable.ai/v0/spc1/dst1/records?pageSize=1&offset=itr1');
+      expect(page).toEqual({ records: [{ id: 'rec1', fields: {} }], pageToken: 'itr2' });
+    });
+
+    it('passes sort, projection, view and format options to either API', async () => {
+      const fetch = vi.fn().mockImplementation(async (url: string) => (url.includes('/v0/')
+        ? jsonResponse({ records: [] })
+        : jsonResponse({
+          success: true, code: 200, message: 'SUCCESS', data: { records: [], pageNum: 1, pageSize: 100 },
+        })));
+      const options = {
+        sort: [{ field: 'Due', direction: 'desc' as const }, { field: 'Name' }],
+        fields: ['Name', 'Due'],
+        viewId: 'viw1',
+        cellFormat: 'string' as const,
+        fieldKey: 'id' as const,
+      };
+
+      await new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, { requestsPerSecond: 0, ...airtable })
+        .listRecordsPage('spc1', 'dst1', options);
+      await new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, { requestsPerSecond: 0, ...fusion })
+        .listRecordsPage('spc1', 'dst1', options);
+
+      const airtableParams = new URL(fetch.mock.calls[0][0]).searchParams;
+      expect(airtableParams.get('sort[0][field]')).toBe('Due');
+      expect(airtableParams.get('sort[0][direction]')).toBe('desc');
+      expect(airtableParams.get('sort[1][direction]')).toBe('asc');
+      expect(airtableParams.getAll('fields[]')).toEqual(['Name', 'Due']);
+      expect(airtableParams.get('view')).toBe('viw1');
+      expect(airtableParams.get('cellFormat')).toBe('string');
+      expect(airtableParams.get('returnFieldsByFieldId')).toBe('true');
+
+      const fusionParams = new URL(fetch.mock.calls[1][0]).searchParams;
+      expect(fusionParams.get('sort[0][order]')).toBe('desc');
+      expect(fusionParams.getAll('fields[]')).toEqual(['Name', 'Due']);
+      expect(fusionParams.get('viewId')).toBe('viw1');
+      expect(fusionParams.get('cellFormat')).toBe('string');
+      expect(fusionParams.get('fieldKey')).toBe('id');
+    });
+
+    it('walks fusion page numbers when fetching all pages', async () => {
+      const fetch = vi.fn().mockImplementation(async (url: string) => {
+        if (url.includes('/v0/')) {
+          return jsonResponse({ success: false, code: 404, message: 'Not found' }, 404);
+        }
+        const pageNum = Number(new URL(url).searchParams.get('pageNum') ?? '1');
+        return jsonResponse({
+          success: true,
+          code: 200,
+          message: 'SUCCESS',
+          data: {
+            total: 3,
+            pageNum,
+            pageSize: 2,
+            records: (pageNum === 1 ? ['rec1', 'rec2'] : ['rec3']).map((recordId) => ({ recordId, fields: {} })),
+          },
+        });
+      });
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, fusion);
+
+      const page = await service.listRecordsPage('spc1', 'dst1', { fetchAll: true, pageSize: 2 });
+
+      expect(page.records.map((r) => r.id)).toEqual(['rec1', 'rec2', 'rec3']);
+      expect(page.pageToken).toBeUndefined();
+      expect(fetch).toHaveBeenCalledWith(
+        'https://api.aitable.ai/datasheets/dst1/records?pageSize=2&pageNum=2',
+        expect.anything(),
+      );
+    });
+
+    it('stops at maxRecords part way through a page with a token to carry on from', async () => {
+      const fetch = vi.fn()
+        .mockResolvedValueOnce(jsonResponse({ records: [{ id: 'rec1', fields: {} }, { id: 'rec2', fields: {} }], offset: 'itr2' }))
+        .mockResolvedValueOnce(jsonResponse({ records: [{ id: 'rec3', fields: {} }, { id: 'rec4', fields: {} }], offset: 'itr3' }));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, airtable);
+
+      const page = await service.listRecordsPage('spc1', 'dst1', { fetchAll: true, maxRecords: 3, pageSize: 2 });
+
+      expect(page.records.map((r) => r.id)).toEqual(['rec1', 'rec2', 'rec3']);
+      expect(page).toMatchObject({ pageToken: 'resume:2:1:itr2', truncated: true });
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('fits the page size to maxRecords when fetching all pages from the start', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({ records: [{ id: 'rec1', fields: {} }, { id: 'rec2', fields: {} }], offset: 'itr2' }));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, airtable);
+
+      const page = await service.listRecordsPage('spc1', 'dst1', { fetchAll: true, maxRecords: 2 });
+
+      expect(fetch.mock.calls[0][0]).toBe('https://api.aitable.ai/v0/spc1/dst1/records?pageSize=2');
+      expect(page).toEqual({ records: [{ id: 'rec1', fields: {} }, { id: 'rec2', fields: {} }], pageToken: 'resume:2:0:itr2', truncated: true });
+    });
+
+    it('carries on from a fusion walk without skipping or repeating records', async () => {
+      const all = Array.from({ length: 250 }, (_, index) => `rec${index}`);
+      const fetch = vi.fn().mockImplementation(async (url: string) => {
+        const params = new URL(url).searchParams;
+        const pageNum = Number(params.get('pageNum') ?? '1');
+        const pageSize = Number(params.get('pageSize') ?? '100');
+        return jsonResponse({
+          success: true,
+          code: 200,
+          message: 'SUCCESS',
+          data: {
+            total: all.length,
+            pageNum,
+            pageSize,
+            records: all.slice((pageNum - 1) * pageSize, pageNum * pageSize).map((recordId) => ({ recordId, fields: {} })),
+          },
+        });
+      });
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, { ...fusion, requestsPerSecond: 0 });
+
+      const first = await service.listRecordsPage('spc1', 'dst1', { fetchAll: true, maxRecords: 30 });
+      const second = await service.listRecordsPage('spc1', 'dst1', { fetchAll: true, maxRecords: 45, pageToken: first.pageToken });
+      const rest = await service.listRecordsPage('spc1', 'dst1', { fetchAll: true, pageToken: second.pageToken });
+
+      const ids = [first, second, rest].flatMap((page) => page.records.map((r) => r.id));
+      expect(first.records).toHaveLength(30);
+      expect(second.records).toHaveLength(45);
+      expect(ids).toEqual(all);
+      expect(rest.pageToken).toBeUndefined();
+    });
+
+    it('returns a usable token when a resumed walk stops inside its first page', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({
+        records: [{ id: 'rec1', fields: {} }, { id: 'rec2', fields: {} }, { id: 'rec3', fields: {} }], offset: 'itr2',
+      }));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, airtable);
+
+      const page = await service.listRecordsPage('spc1', 'dst1', { fetchAll: true, maxRecords: 1, pageToken: 'itr1' });
+      const next = await service.listRecordsPage('spc1', 'dst1', { pageToken: page.pageToken });
+
+      expect(page).toEqual({ records: [{ id: 'rec1', fields: {} }], pageToken: 'resume:100:1:itr1', truncated: true });
+      expect(fetch.mock.calls[1][0]).toBe('https://api.aitable.ai/v0/spc1/dst1/records?pageSize=100&offset=itr1');
+      expect(next.records.map((r) => r.id)).toEqual(['rec2', 'rec3']);
+      expect(next.pageToken).toBe('resume:100:0:itr2');
+    });
+  });
+
+  describe('exportRecords', () => {
+    it('walks every page and orders columns by the datasheet schema', async () => {
+      const fetch = vi.fn().mockImplementation(async (url: string) => {
+        if (url.endsWith('/fields')) {
+          return jsonResponse({
+            success: true,
+            code: 200,
+            message: 'SUCCESS',
+            data: {
+              fields: [
+                { id: 'fld1', name: 'Due', type: 'DateTime' },
+                { id: 'fld0', name: 'Name', type: 'SingleText', isPrimary: true },
+              ],
+            },
+          });
+        }
+        return url.includes('offset=itr2')
+          ? jsonResponse({ records: [{ id: 'rec2', fields: { Name: 'Grace' } }] })
+          : jsonResponse({ records: [{ id: 'rec1', fields: { Due: 1740787200000, Name: 'Ada' } }], offset: 'itr2' });
+      });
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, { requestsPerSecond: 0, ...airtable });
+
+      const exported = await service.exportRecords('spc1', 'dst1', { filterByFormula: '{Done}=TRUE()' });
+
+      expect(exported).toMatchObject({
+        format: 'csv', mimeType: 'text/csv', columns: ['Name', 'Due'], recordCount: 2,
+      });
+      expect(exported.content).toBe('recordId,Name,Due\r\nrec1,Ada,2025-03-01T00:00:00.000Z\r\nrec2,Grace,\r\n');
+      expect(fetch.mock.calls.map(([url]) => url).filter((url) => url.includes('/records'))
+        .every((url) => url.includes('filterByFormula='))).toBe(true);
+    });
+  });
+
+  describe('schema cache', () => {
+    const fieldsResponse = (names: string[]) => jsonResponse({
+      success: true,
+      code: 200,
+      message: 'SUCCESS',
+      data: { fields: names.map((name, i) => ({ id: `fld${i}`, name, type: 'SingleText' })) },
+    });
+
+    it('caches field lists until a field is created', async () => {
+      const fetch = vi.fn()
+        .mockResolvedValueOnce(fieldsResponse(['Name']))
+        .mockResolvedValueOnce(jsonResponse({ id: 'fld1', name: 'Email', type: 'Email' }))
+        .mockResolvedValueOnce(fieldsResponse(['Name', 'Email']));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, airtable);
+
+      expect((await service.getFields('spc1', 'dst1')).map((f) => f.name)).toEqual(['Name']);
+      expect((await service.getFields('spc1', 'dst1')).map((f) => f.name)).toEqual(['Name']);
+      await service.createField('spc1', 'dst1', { name: 'Email', type: 'Email' });
+      expect((await service.getFields('spc1', 'dst1')).map((f) => f.name)).toEqual(['Name', 'Email']);
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not cache a node tree that could not be read in full', async () => {
+      const node = (data: object) => jsonResponse({
+        success: true, code: 200, message: 'SUCCESS', data,
+      });
+      let folderReads = 0;
+      const fetch = vi.fn().mockImplementation(async (url: string) => {
+        if (url.endsWith('/spaces/spc1/nodes')) {
+          return node({ nodes: [{ id: 'fod1', name: 'Projects', type: 'Folder' }] });
+        }
+        if (url.endsWith('/nodes/fod1')) {
+          folderReads += 1;
+          return folderReads === 1
+            ? jsonResponse({ success: false, code: 403, message: 'No access' }, 403)
+            : node({
+              id: 'fod1', name: 'Projects', type: 'Folder', children: [{ id: 'dst1', name: 'Roadmap', type: 'Datasheet' }],
+            });
+        }
+        return node({ id: 'dst1', name: 'Roadmap', type: 'Datasheet' });
+      });
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, airtable);
+
+      await expect(service.getAllDatasheets('spc1')).rejects.toMatchObject({ errorCode: 'PERMISSION' });
+      expect((await service.getAllDatasheets('spc1')).map((d) => d.path)).toEqual(['Projects > Roadmap']);
+    });
+
+    it('sends the progress and retries of a cached folder walk to the call waiting on it', async () => {
+      const node = (data: object) => jsonResponse({
+        success: true, code: 200, message: 'SUCCESS', data,
+      });
+      let rootReads = 0;
+      const fetch = vi.fn().mockImplementation(async (url: string) => {
+        if (url.endsWith('/spaces/spc1/nodes')) {
+          rootReads += 1;
+          return rootReads === 1
+            ? jsonResponse({ code: 503, message: 'Unavailable' }, 503)
+            : node({ nodes: [{ id: 'fod1', name: 'Projects', type: 'Folder' }, { id: 'fod2', name: 'Archive', type: 'Folder' }] });
+        }
+        return node({ id: url.slice(-4), name: 'Folder', type: 'Folder', children: [] });
+      });
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, {
+        ...airtable, cacheTtlMs: 60000, retryBaseDelayMs: 1, requestsPerSecond: 0,
+      });
+      const progress = vi.fn();
+      const notify = vi.fn();
+
+      await runInCallContext({ requestId: 'req1', progress, notify }, () => service.getAllDatasheets('spc1'));
+
+      expect(progress.mock.calls).toEqual([[1, 2, 'Read 1 of 2 nodes'], [2, 2, 'Read 2 of 2 nodes']]);
+      expect(notify).toHaveBeenCalledWith('warn', expect.objectContaining({ msg: 'Request was refused, retrying', status: 503 }));
+    });
+
+    it('can be disabled with a TTL of 0', async () => {
+      const fetch = vi.fn().mockImplementation(async () => fieldsResponse(['Name']));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, { cacheTtlMs: 0 });
+
+      await service.getFields('spc1', 'dst1');
+      await service.getFields('spc1', 'dst1');
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('request retries', () => {
+    const retryOptions = { retryBaseDelayMs: 1, requestsPerSecond: 0, ...airtable };
+
+    it('retries rate-limited requests, honoring Retry-After', async () => {
+      const fetch = vi.fn()
+        .mockResolvedValueOnce(jsonResponse({ code: 429, message: 'Too many requests' }, 429, { 'retry-after': '0' }))
+        .mockResolvedValueOnce(jsonResponse({ bases: [{ id: 'spc1', name: 'Space', permissionLevel: 'owner' }] }));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, retryOptions);
+
+      const result = await service.listBases();
+
+      expect(result.bases).toHaveLength(1);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('retries network errors on reads', async () => {
+      const fetch = vi.fn()
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce(jsonResponse({ bases: [] }));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, retryOptions);
+
+      await service.listBases();
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry server errors on creates', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({ code: 500, message: 'Internal error' }, 500));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, retryOptions);
+
+      await expect(service.createRecord('spc1', 'dst1', { Name: 'Ada' })).rejects.toThrow('API request failed');
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up after the configured number of retries', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({ code: 503, message: 'Unavailable' }, 503));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, { ...retryOptions, maxRetries: 2 });
+
+      await expect(service.getFields('spc1', 'dst1')).rejects.toThrow('API request failed');
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('raises errors that say what went wrong and whether to retry', async () => {
+      const fetch = vi.fn()
+        .mockResolvedValueOnce(jsonResponse({ error: { type: 'NOT_FOUND', message: 'Could not find table' } }, 404))
+        .mockResolvedValueOnce(jsonResponse({ success: false, code: 400, message: 'Field "Due" does not exist' }))
+        .mockRejectedValueOnce(new Error('ECONNRESET'));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, { ...retryOptions, maxRetries: 0 });
+
+      await expect(service.getFields('spc1', 'dst404')).rejects.toMatchObject({ errorCode: 'NOT_FOUND', status: 404, apiMessage: 'Could not find table' });
+      await expect(service.getFields('spc1', 'dst1')).rejects.toMatchObject({ errorCode: 'VALIDATION', apiCode: 400, retryable: false });
+      await expect(service.getFields('spc1', 'dst1')).rejects.toMatchObject({ errorCode: 'NETWORK', retryable: true });
+    });
+
+    it('aborts requests that exceed the timeout', async () => {
+      const fetch = vi.fn().mockImplementation((_url: string, init: { signal: AbortSignal }) => new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, {
+        ...retryOptions,
+        maxRetries: 0,
+        requestTimeoutMs: 10,
+      });
+
+      await expect(service.getFields('spc1', 'dst1')).rejects.toThrow('timed out after 10ms');
+    });
+
+    it('aborts requests in flight when the call is cancelled, without retrying', async () => {
+      const controller = new AbortController();
+      const fetch = vi.fn().mockImplementation((_url: string, init: { signal: AbortSignal }) => new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+        controller.abort();
+      }));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, retryOptions);
+
+      await expect(runInCallContext({ requestId: 'req1', signal: controller.signal }, () => service.getFields('spc1', 'dst1')))
+        .rejects.toMatchObject({ errorCode: 'CANCELLED' });
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('batched writes', () => {
+    const writeOptions = { requestsPerSecond: 0 };
+
+    it('splits creates into batches of 10 and reports a failed batch per record', async () => {
+      const fetch = vi.fn().mockImplementation(async (_url: string, init: { body: string }) => {
+        const { records } = JSON.parse(init.body) as { records: { fields: { n: number } }[] };
+        if (records[0].fields.n === 10) {
+          return jsonResponse({ success: false, code: 400, message: 'Bad value' }, 400);
+        }
+        return jsonResponse({
+          success: true,
+          code: 200,
+          message: 'SUCCESS',
+          data: { records: records.map((record) => ({ recordId: `rec${record.fields.n}`, fields: record.fields })) },
+        });
+      });
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, writeOptions);
+
+      const records = Array.from({ length: 25 }, (_, n) => ({ fields: { n } }));
+      const result = await service.createRecords('spc1', 'dst1', records);
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(result.succeeded).toHaveLength(15);
+      expect(result.failed.map((failure) => failure.index)).toEqual([10, 11, 12, 13, 14, 15, 16, 17, 18, 19]);
+      expect(result.failed[0].error).toContain('Bad value');
+    });
+
+    it('reports progress after each batch and stops writing once the call is cancelled', async () => {
+      const controller = new AbortController();
+      const progress = vi.fn();
+      const fetch = vi.fn().mockImplementation(async (_url: string, init: { body: string }) => {
+        const { records } = JSON.parse(init.body) as { records: { fields: { n: number } }[] };
+        controller.abort();
+        return jsonResponse({
+          success: true,
+          code: 200,
+          message: 'SUCCESS',
+          data: { records: records.map((record) => ({ recordId: `rec${record.fields.n}`, fields: record.fields })) },
+        });
+      });
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, writeOptions);
+
+      const records = Array.from({ length: 25 }, (_, n) => ({ fields: { n } }));
+      await expect(runInCallContext({ requestId: 'req1', signal: controller.signal, progress }, () => service.createRecords('spc1', 'dst1', records)))
+        .rejects.toMatchObject({ errorCode: 'CANCELLED' });
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(progress).toHaveBeenCalledWith(10, 25, 'Wrote 10 of 25 records');
+    });
+
+    it('reports records the API did not delete', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({
+        success: true,
+        code: 200,
+        message: 'SUCCESS',
+        data: { results: [{ recordId: 'rec1', deleted: true }, { recordId: 'rec2', deleted: false }] },
+      }));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, writeOptions);
+
+      const result = await service.deleteRecords('spc1', 'dst1', ['rec1', 'rec2']);
+
+      expect(result).toEqual({
+        succeeded: [{ id: 'rec1' }],
+        failed: [{ index: 1, id: 'rec2', error: 'Record was not deleted' }],
+      });
+    });
+  });
+
+  describe('upsertRecords', () => {
+    const fieldsResponse = jsonResponse({
+      success: true,
+      code: 200,
+      message: 'SUCCESS',
+      data: { fields: [{ id: 'fldEmail', name: 'Email', type: 'Email' }, { id: 'fldName', name: 'Name', type: 'SingleText' }] },
+    });
+    const writeResponse = (records: { recordId?: string; fields: object }[]) => jsonResponse({
+      success: true,
+      code: 200,
+      message: 'SUCCESS',
+      data: { records: records.map((record, i) => ({ recordId: record.recordId ?? `recNew${i}`, fields: record.fields })) },
+    });
+
+    const stubApi = (existing: { id: string; fields: object }[]) => vi.fn().mockImplementation(async (url: string, init: { method?: string; body?: string }) => {
+      if (url.endsWith('/fields')) {
+        return fieldsResponse;
+      }
+      if (url.includes('/v0/')) {
+        return jsonResponse({ records: existing });
+      }
+      return writeResponse(JSON.parse(init.body ?? '{}').records);
+    });
+
+    it('updates matching records and creates the rest', async () => {
+      const fetch = stubApi([{ id: 'recAda', fields: { Email: 'Ada@example.com', Name: 'Ada' } }]);
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, { requestsPerSecond: 0, ...airtable });
+
+      const result = await service.upsertRecords('spc1', 'dst1', [
+        { fields: { Email: ' ADA@example.com', Name: 'Ada Lovelace' } },
+        { fields: { Email: 'grace@example.com', Name: 'Grace' } },
+        { fields: { Name: 'No email' } },
+      ], ['email']);
+
+      const lookupUrl = new URL(fetch.mock.calls.find(([url]) => url.includes('/v0/'))![0]);
+      expect(lookupUrl.searchParams.get('filterByFormula')).toBe('OR(LOWER(TRIM({Email}))="ada@example.com", LOWER(TRIM({Email}))="grace@example.com")');
+      expect(result.updated).toEqual([{ id: 'recAda', fields: { Email: ' ADA@example.com', Name: 'Ada Lovelace' } }]);
+      expect(result.created).toEqual([{ id: 'recNew0', fields: { Email: 'grace@example.com', Name: 'Grace' } }]);
+      expect(result.failed).toEqual([{ index: 2, error: expect.stringContaining('merge field(s): Email') }]);
+      expect(result.positions).toEqual({ updated: [0], created: [1] });
+    });
+
+    it('refuses to write when a merge key matches more than one record', async () => {
+      const fetch = stubApi([
+        { id: 'rec1', fields: { Email: 'ada@example.com' } },
+        { id: 'rec2', fields: { Email: 'ada@example.com' } },
+      ]);
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, { requestsPerSecond: 0, ...airtable });
+
+      await expect(service.upsertRecords('spc1', 'dst1', [{ fields: { Email: 'ada@example.com' } }], ['Email']))
+        .rejects.toThrow('record 0 matches rec1, rec2');
+      expect(fetch.mock.calls.some(([, init]) => init.method === 'POST' || init.method === 'PATCH')).toBe(false);
+    });
+  });
+
+  describe('access policy', () => {
+    it('refuses denied datasheets and writes on a read-only service without calling the API', async () => {
+      const fetch = vi.fn();
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, {
+        access: { readOnly: true, deniedDatasheets: ['dstSecret'] },
+      });
+
+      await expect(service.listRecordsPage('spc1', 'dstSecret')).rejects.toThrow('Datasheet dstSecret');
+      await expect(service.deleteRecords('spc1', 'dst1', ['rec1'])).rejects.toThrow('read-only');
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('leaves spaces and datasheets that are not allowed out of listings', async () => {
+      const fetch = vi.fn().mockImplementation(async (url: string) => (url.includes('/v0/meta/bases/')
+        ? jsonResponse({ tables: [{ id: 'dst1', name: 'Open', primaryFieldId: 'fld1', fields: [], views: [] }, { id: 'dstSecret', name: 'Secret', primaryFieldId: 'fld1', fields: [], views: [] }] })
+        : jsonResponse({ bases: [{ id: 'spc1', name: 'Team', permissionLevel: 'owner' }, { id: 'spc2', name: 'Other', permissionLevel: 'owner' }] })));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, {
+        access: { allowedSpaces: ['spc1'], deniedDatasheets: ['dstSecret'] },
+      });
+
+      expect((await service.listBases()).bases.map(base => base.id)).toEqual(['spc1']);
+      expect((await service.getBaseSchema('spc1')).tables.map(table => table.id)).toEqual(['dst1']);
+    });
+
+    it('leaves datasheets that are not allowed out of a folder', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({
+        success: true,
+        code: 200,
+        message: 'SUCCESS',
+        data: {
+          id: 'fod1',
+          name: 'Projects',
+          type: 'Folder',
+          children: [
+            { id: 'dst1', name: 'Roadmap', type: 'Datasheet' },
+            { id: 'dstSecret', name: 'Salaries', type: 'Datasheet' },
+            { id: 'fod2', name: 'Archive', type: 'Folder' },
+          ],
+        },
+      }));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, {
+        access: { deniedDatasheets: ['dstSecret'] },
+      });
+
+      const folder = await service.getNode('spc1', 'fod1');
+
+      expect(fetch.mock.calls[0][0]).toBe('https://api.aitable.ai/spaces/spc1/nodes/fod1');
+      expect(folder.children?.map(child => child.id)).toEqual(['dst1', 'fod2']);
+    });
+  });
+
+  describe('audit log', () => {
+    it('attributes each write to the fingerprint of the API key', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({
+        success: true,
+        code: 200,
+        message: 'SUCCESS',
+        data: { results: [{ recordId: 'rec1', deleted: true }, { recordId: 'rec2', deleted: false }] },
+      }));
+      const audit = vi.fn();
+      const service = new AITableService('secret-api-key', 'https://api.aitable.ai', fetch as any, { requestsPerSecond: 0, audit });
+
+      await service.deleteRecords('spc1', 'dst1', ['rec1', 'rec2']);
+
+      expect(audit).toHaveBeenCalledTimes(1);
+      const entry = audit.mock.calls[0][0];
+      expect(entry).toMatchObject({
+        credential: credentialFingerprint('secret-api-key'),
+        action: 'delete_records',
+        spaceId: 'spc1',
+        datasheetId: 'dst1',
+        ids: ['rec1'],
+        failed: 1,
+      });
+      expect(JSON.stringify(entry)).not.toContain('secret-api-key');
+    });
+  });
+
+  describe('getRecords', () => {
+    it('looks records up by ID with a formula', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({ records: [{ id: 'rec1', fields: { Name: 'Ada' } }] }));
+      const service = new AITableService('test-api-key', 'https://api.aitable.ai', fetch as any, { requestsPerSecond: 0, ...airtable });
+
+      const records = await service.getRecords('spc1', 'dst1', ['rec1', 'rec2', 'rec1']);
+
+      expect(new URL(fetch.mock.calls[0][0]).searchParams.get('filterByFormula')).toBe('OR(RECORD_ID()="rec1", RECORD_ID()="rec2")');
+      expect(records).toEqual([{ id: 'rec1', fields: { Name: 'Ada' } }]);
+    });
+  });
+});
@@ -5,20 +5,232 @@ import type {
   ListBasesResponse,
   BaseSchemaResponse,
   ListRecordsOptions,
+  ListRecordsPage,
   Field,
+  FieldChanges,
   Table,
   AITableRecord,
   FieldSet,
-  DatasheetInfo
+  DatasheetInfo,
+  SpaceNode,
+  View,
+  AITableServiceOptions,
+  BatchWriteResult,
+  UpsertPlan,
+  UpsertResult,
+  AuditEntry,
+  Coercion,
+  CoercionMode,
+  ExportRecordsOptions,
+  FilterExpression,
+  RecordExport,
+  ApiDialectName,
 } from './types.js';
+import { ViewSchema } from './types.js';
+import { AccessPolicy } from './accessPolicy.js';
 import {
-  ListBasesResponseSchema,
-  BaseSchemaResponseSchema
-} from './types.js';
+  AITableError,
+  AuthError,
+  CancelledError,
+  NetworkError,
+  TimeoutError,
+  UpstreamError,
+  ValidationError,
+  apiError,
+} from './errors.js';
+import type { ApiDialect, ApiRequest } from './apiDialect.js';
+import { createApiDialect, detectApiDialect } from './apiDialect.js';
+import { TtlCache } from './cache.js';
+import { credentialFingerprint } from './credentials.js';
+import { Logger } from './logger.js';
+import { currentCall, reportProgress, throwIfCancelled } from './callContext.js';
+import { validateFieldSet } from './fieldValues.js';
+import { coerceFieldSet } from './coercion.js';
+import { compileFilter } from './filter.js';
+import { EXPORT_MIME_TYPES, exportColumns, formatRecords } from './recordExport.js';
+import {
+  and,
+  fieldReference,
+  formulaLiteral,
+  or,
+} from './formula.js';
+import {
+  RequestScheduler,
+  backoffDelay,
+  parseRetryAfter,
+  sleep,
+} from './requestScheduler.js';
+import {
+  findDatasheet,
+  findField,
+  findView,
+  isDatasheetId,
+  resolveFieldSet,
+} from './nameResolver.js';
 
 // Define the fetch function type
 type FetchFunction = typeof nodeFetch;
 
+// Hard ceiling on records returned when walking every page of a datasheet
+export const MAX_FETCH_ALL_RECORDS = 10000;
+
+// Records per page when a listing doesn't ask for a page size
+const DEFAULT_PAGE_SIZE = 100;
+
+// Token a fetchAll walk returns: the page size it fetched at, how many records
+// of the page it stopped in were already returned, and that page's own token
+const RESUME_TOKEN_PATTERN = /^resume:(\d+):(\d+):(.*)$/;
+
+function resumeToken(pageSize: number, skip: number, pageToken?: string): string {
+  return `resume:${pageSize}:${skip}:${pageToken ?? ''}`;
+}
+
+function parseResumeToken(token?: string): { pageToken?: string; pageSize?: number; skip: number } {
+  const match = token === undefined ? null : RESUME_TOKEN_PATTERN.exec(token);
+  if (!match) {
+    return { pageToken: token, skip: 0 };
+  }
+  return { pageToken: match[3] || undefined, pageSize: Number(match[1]), skip: Number(match[2]) };
+}
+
+// Most records AITable accepts in a single create, update or delete call
+export const MAX_RECORDS_PER_WRITE = 10;
+
+// How many merge keys or record IDs are looked up in a single filterByFormula
+const MAX_KEYS_PER_LOOKUP = 20;
+
+// How long node trees, field lists and view lists are cached unless configured otherwise
+const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Request scheduling defaults, sized for AITable's per-second API limit
+const DEFAULT_REQUESTS_PER_SECOND = 5;
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 5;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_REQUEST_TIMEOUT_MS = 30 * 1000;
+
+const logger = Logger.getInstance();
+
+// A node of a space's folder tree, with its children if it is a folder
+const NodeResponseSchema = z.object({
+  success: z.boolean(),
+  code: z.number(),
+  data: z.object({
+    id: z.string(),
+    name: z.string(),
+    type: z.string(),
+    icon: z.string().optional(),
+    children: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      type: z.string(),
+    })).optional(),
+  }),
+  message: z.string(),
+});
+
+/**
+ * Reads a numeric environment variable, ignoring unset or malformed values
+ */
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Whether a value can be matched on when upserting
+ */
+function isMergeValue(value: unknown): value is string | number | boolean {
+  return (typeof value === 'string' && value !== '') || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * Normalizes a merge field value so the same key compares equal whether it
+ * came from the request or back from the API
+ */
+function mergeKeyPart(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim().toLowerCase();
+  }
+  return isMergeValue(value) ? String(value) : JSON.stringify(value ?? null);
+}
+
+/**
+ * A formula condition that finds the records whose merge field matches a
+ * value by the same rule as mergeKeyPart, so the lookup and the matching of
+ * its results never disagree
+ */
+function mergeCondition(fieldName: string, value: string | number | boolean): string {
+  if (typeof value === 'string') {
+    return `LOWER(TRIM(${fieldReference(fieldName)}))=${formulaLiteral(mergeKeyPart(value))}`;
+  }
+  return `${fieldReference(fieldName)}=${formulaLiteral(value)}`;
+}
+
+/**
+ * Runs a step for each item in turn, starting the next only once the last has
+ * finished, and collects what the steps return
+ */
+async function inSequence<T, R>(items: T[], step: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  return items.reduce<Promise<R[]>>(async (previous, item, index) => {
+    const results = await previous;
+    return [...results, await step(item, index)];
+  }, Promise.resolve([]));
+}
+
+/**
+ * Splits items into consecutive batches of at most `size`
+ */
+function batchesOf<T>(items: T[], size: number): T[][] {
+  return Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+}
+
+/**
+ * Writes batches in turn. When a batch fails, each of its records is reported
+ * as failed and the remaining batches still go ahead.
+ */
+async function writeInBatches<TIn, TOut>(
+  items: TIn[],
+  idOf: (item: TIn) => string | undefined,
+  writeBatch: (batch: TIn[]) => Promise<TOut[]>,
+): Promise<BatchWriteResult<TOut>> {
+  const result: BatchWriteResult<TOut> = { succeeded: [], failed: [] };
+
+  await inSequence(batchesOf(items, MAX_RECORDS_PER_WRITE), async (batch, batchIndex) => {
+    const start = batchIndex * MAX_RECORDS_PER_WRITE;
+    try {
+      result.succeeded.push(...await writeBatch(batch));
+    } catch (error) {
+      // A cancelled call stops writing, rather than failing every batch left
+      if (error instanceof CancelledError) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      batch.forEach((item, offset) => {
+        result.failed.push({ index: start + offset, id: idOf(item), error: message });
+      });
+    }
+    reportProgress(start + batch.length, items.length, `Wrote ${start + batch.length} of ${items.length} records`);
+  });
+
+  return result;
+}
+
+/**
+ * The parts of an API response needed after the request has completed
+ */
+interface RawResponse {
+  ok: boolean;
+  status: number;
+  contentType: string | null;
+  retryAfter: string | null;
+  text: string;
+}
+
 /**
  * Service for interacting with the AITable API
  */
@@ -27,24 +239,147 @@ export class AITableService implements IAITableService {
   private readonly baseUrl: string;
   private readonly fetch: FetchFunction;
 
+  // Datasheets found by walking each space's node tree, keyed by space ID
+  private readonly nodeTreeCache: TtlCache<DatasheetInfo[]>;
+
+  // Field and view lists, keyed by datasheet ID
+  private readonly fieldsCache: TtlCache<Field[]>;
+
+  private readonly viewsCache: TtlCache<View[]>;
+
+  private readonly scheduler: RequestScheduler;
+
+  private readonly maxRetries: number;
+
+  private readonly retryBaseDelayMs: number;
+
+  private readonly requestTimeoutMs: number;
+
+  private readonly accessPolicy: AccessPolicy;
+
+  private readonly credential: string;
+
+  private readonly auditSink: (entry: AuditEntry) => void;
+
+  private readonly apiDialectName: ApiDialectName | 'auto';
+
+  // Settles once the dialect is known, which for `auto` takes a probe
+  private apiDialect?: Promise<ApiDialect>;
+
   /**
    * Creates a new AITableService instance
    * @param apiKey APITable API key
    * @param baseUrl Base URL for the API
    * @param fetch Fetch implementation to use for requests (node-fetch or browser fetch)
+   * @param options Additional service configuration
    */
   constructor(
     apiKey: string = process.env.AITABLE_API_KEY || '',
     baseUrl: string = 'https://aitable.ai/fusion/v1',
-    fetch: FetchFunction = nodeFetch
+    fetch: FetchFunction = nodeFetch,
+    options: AITableServiceOptions = {},
   ) {
     if (!apiKey) {
-      throw new Error('aitable-mcp-server: No API key provided. Set it in the `AITABLE_API_KEY` environment variable');
+      throw new AuthError('aitable-mcp-server: No API key provided. Set it in the `AITABLE_API_KEY` environment variable');
     }
 
     this.apiKey = apiKey;
     this.baseUrl = baseUrl;
     this.fetch = fetch;
+
+    const envTtlSeconds = envNumber('AITABLE_CACHE_TTL');
+    const cacheTtlMs = options.cacheTtlMs
+      ?? (envTtlSeconds !== undefined ? envTtlSeconds * 1000 : DEFAULT_CACHE_TTL_MS);
+    this.nodeTreeCache = new TtlCache(cacheTtlMs);
+    this.fieldsCache = new TtlCache(cacheTtlMs);
+    this.viewsCache = new TtlCache(cacheTtlMs);
+
+    this.scheduler = new RequestScheduler({
+      concurrency: options.maxConcurrentRequests
+        ?? envNumber('AITABLE_MAX_CONCURRENT_REQUESTS')
+        ?? DEFAULT_MAX_CONCURRENT_REQUESTS,
+      requestsPerSecond: options.requestsPerSecond
+        ?? envNumber('AITABLE_REQUESTS_PER_SECOND')
+        ?? DEFAULT_REQUESTS_PER_SECOND,
+    });
+    this.maxRetries = options.maxRetries ?? envNumber('AITABLE_MAX_RETRIES') ?? DEFAULT_MAX_RETRIES;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+    const envTimeoutSeconds = envNumber('AITABLE_REQUEST_TIMEOUT');
+    this.requestTimeoutMs = options.requestTimeoutMs
+      ?? (envTimeoutSeconds !== undefined ? envTimeoutSeconds * 1000 : DEFAULT_REQUEST_TIMEOUT_MS);
+    this.accessPolicy = new AccessPolicy(options.access);
+    this.credential = credentialFingerprint(apiKey);
+    this.auditSink = options.audit ?? ((entry) => logger.audit({ ...entry }));
+    this.apiDialectName = options.apiDialect ?? 'auto';
+  }
+
+  /**
+   * The API dialect to speak, as configured or detected with a probe on first
+   * use. A probe that fails is tried again on the next call
+   */
+  private dialect(): Promise<ApiDialect> {
+    if (!this.apiDialect) {
+      const request: ApiRequest = (endpoint, schema, init) => this.fetchFromAPI(endpoint, schema, init);
+      const name = this.apiDialectName === 'auto' ? detectApiDialect(request) : Promise.resolve(this.apiDialectName);
+      this.apiDialect = name.then((dialectName) => createApiDialect(dialectName, request, async (spaceId, datasheetId) => {
+        if (!this.accessPolicy.isDatasheetAllowed(datasheetId)) {
+          return undefined;
+        }
+        const [fields, views] = await Promise.all([this.getFields(spaceId, datasheetId), this.getViews(spaceId, datasheetId)]);
+        return { fields, views };
+      }));
+      this.apiDialect.catch(() => {
+        this.apiDialect = undefined;
+      });
+    }
+    return this.apiDialect;
+  }
+
+  /**
+   * Records a write against this service's API key fingerprint
+   */
+  private audit(
+    action: string,
+    spaceId: string,
+    datasheetId: string | undefined,
+    ids: string[],
+    failed = 0,
+  ): void {
+    if (ids.length === 0 && failed === 0) {
+      return;
+    }
+    this.auditSink({
+      time: new Date().toISOString(),
+      credential: this.credential,
+      action,
+      spaceId,
+      datasheetId,
+      ids,
+      ...(failed > 0 ? { failed } : {}),
+    });
+  }
+
+  /**
+   * Drops cached node trees, field lists and view lists. With no arguments the
+   * whole cache is cleared; otherwise only the given space's node tree and/or
+   * the given datasheet's fields and views.
+   */
+  clearSchemaCache(scope: { spaceId?: string; datasheetId?: string } = {}): void {
+    if (!scope.spaceId && !scope.datasheetId) {
+      this.nodeTreeCache.clear();
+      this.fieldsCache.clear();
+      this.viewsCache.clear();
+      return;
+    }
+
+    if (scope.spaceId) {
+      this.nodeTreeCache.delete(scope.spaceId);
+    }
+
+    if (scope.datasheetId) {
+      this.fieldsCache.delete(scope.datasheetId);
+      this.viewsCache.delete(scope.datasheetId);
+    }
   }
 
   /**
@@ -52,325 +387,439 @@ export class AITableService implements IAITableService {
    */
   private async fetchFromAPI<T>(endpoint: string, schema: z.ZodSchema<T>, options: RequestInit = {}): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
+    const method = options.method ?? 'GET';
+    const headers = {
+      Authorization: `Bearer ${this.apiKey}`,
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+      'User-Agent': 'aitable-mcp-server/0.1.0',
+      ...options.headers as Record<string, string>,
+    };
     
     try {
-      const response = await this.fetch(url, {
-        ...options,
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-          'User-Agent': 'aitable-mcp-server/0.1.0',
-          ...options.headers,
-        },
-      });
+      throwIfCancelled();
+      logger.logApiRequest(method, url, headers, options.body);
+      const started = Date.now();
+      const response = await this.fetchWithRetry(url, { ...options, headers });
+      logger.logApiResponse(method, url, response.status, Date.now() - started, response.text);
       
       // Check for HTML response which indicates authentication issues
-      const contentType = response.headers.get('content-type');
+      const { contentType } = response;
       
       if (contentType && contentType.includes('text/html')) {
-        const responseText = await response.text();
-        console.error('Received HTML response instead of JSON');
-        throw new Error(`aitable-mcp-server: Received HTML response instead of JSON. The API key may be invalid or the endpoint requires authentication. Status: ${response.status}`);
+        const message = `aitable-mcp-server: Received HTML response instead of JSON. The API key may be invalid or the endpoint requires authentication. Status: ${response.status}`;
+        throw response.status === 401 || response.status === 403
+          ? new AuthError(message, { status: response.status })
+          : new UpstreamError(message, { status: response.status, retryable: response.status >= 500 });
       }
 
-      const responseText = await response.text();
-      
       let responseJson;
 
       try {
-        responseJson = JSON.parse(responseText);
+        responseJson = JSON.parse(response.text);
       } catch (error) {
-        console.error(`Failed to parse JSON from response`);
-        throw new Error(`aitable-mcp-server: Failed to parse JSON response. Status: ${response.status}, Content-Type: ${contentType}`);
+        throw new UpstreamError(`aitable-mcp-server: Failed to parse JSON response. Status: ${response.status}, Content-Type: ${contentType}`, { status: response.status });
       }
 
-      if (!response.ok) {
-        throw new Error(`aitable-mcp-server: API request failed: ${JSON.stringify(responseJson)}`);
+      // The fusion API can report a failure in the body of a successful response
+      if (!response.ok || responseJson?.success === false) {
+        throw apiError(response.status, responseJson);
       }
 
       try {
         return schema.parse(responseJson);
       } catch (error) {
-        console.error('Response validation failed');
-        throw new Error(`aitable-mcp-server: API response validation failed: ${error instanceof Error ? error.message : String(error)}`);
+        throw new UpstreamError(`aitable-mcp-server: API response validation failed: ${error instanceof Error ? error.message : String(error)}`, {
+          status: response.status,
+          retryable: false,
+          remediation: 'AITable answered in an unexpected shape. Check that AITABLE_API_DIALECT matches the server, or report the response.',
+        });
       }
     } catch (error) {
-      console.error('Error in fetchFromAPI:', error);
+      logger.warn('API request failed', { method, url, error });
       throw error;
     }
   }
 
   /**
-   * List all available AITable spaces
+   * Sends a request through the scheduler, retrying rate-limited responses,
+   * server errors, network errors and timeouts with exponential backoff
    */
-  async listBases(): Promise<ListBasesResponse> {
+  private async fetchWithRetry(url: string, init: RequestInit): Promise<RawResponse> {
+    // A POST that failed server-side or mid-flight may still have been applied,
+    // so only rate-limited POSTs (which are rejected outright) are retried
+    const retryOnFailure = (init.method ?? 'GET').toUpperCase() !== 'POST';
+
+    const send = async (attempt: number): Promise<RawResponse> => {
+      const canRetry = attempt < this.maxRetries;
+      let response: RawResponse;
+
+      try {
+        response = await this.scheduler.schedule(() => this.fetchOnce(url, init));
+      } catch (error) {
+        if (!retryOnFailure || !canRetry || error instanceof CancelledError) {
+          throw error;
+        }
+        logger.notify('warn', 'Request failed, retrying', {
+          url, attempt: attempt + 1, maxRetries: this.maxRetries, error,
+        });
+        await sleep(backoffDelay(attempt, this.retryBaseDelayMs));
+        return send(attempt + 1);
+      }
+
+      const retryable = response.status === 429 || (retryOnFailure && response.status >= 500);
+      if (!retryable || !canRetry) {
+        return response;
+      }
+
+      const delay = parseRetryAfter(response.retryAfter) ?? backoffDelay(attempt, this.retryBaseDelayMs);
+      logger.notify('warn', 'Request was refused, retrying', {
+        url, status: response.status, delayMs: delay, attempt: attempt + 1, maxRetries: this.maxRetries,
+      });
+      await sleep(delay);
+      throwIfCancelled();
+      return send(attempt + 1);
+    };
+
+    return send(0);
+  }
+
+  /**
+   * Makes a single request, aborting it if it takes longer than the request
+   * timeout or the client cancels the call it was made for
+   */
+  private async fetchOnce(url: string, init: RequestInit): Promise<RawResponse> {
+    throwIfCancelled();
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.requestTimeoutMs);
+    const callSignal = currentCall()?.signal;
+    const cancel = () => controller.abort();
+    callSignal?.addEventListener('abort', cancel);
+
     try {
-      // Try AITable API endpoint
-      return await this.fetchFromAPI(
-        '/v0/meta/bases',
-        ListBasesResponseSchema
-      );
-    } catch (error) {
-      // If that fails, try alternative AITable API
-      const response = await this.fetchFromAPI(
-        '/spaces',
-        z.object({
-          success: z.boolean(),
-          code: z.number(),
-          data: z.object({
-            spaces: z.array(z.object({
-              id: z.string(),
-              name: z.string(),
-              isAdmin: z.boolean()
-            }))
-          }),
-          message: z.string()
-        })
-      );
-      
-      // Convert AITable space format to expected format
+      const response = await this.fetch(url, { ...init, signal: controller.signal });
       return {
-        bases: response.data.spaces.map(space => ({
-          id: space.id,
-          name: space.name,
-          permissionLevel: space.isAdmin ? 'owner' : 'read'
-        })),
-        offset: undefined // AITable doesn't provide offset pagination
+        ok: response.ok,
+        status: response.status,
+        contentType: response.headers.get('content-type'),
+        retryAfter: response.headers.get('retry-after'),
+        text: await response.text(),
       };
+    } catch (error) {
+      throwIfCancelled();
+      if (controller.signal.aborted) {
+        throw new TimeoutError(`aitable-mcp-server: Request timed out after ${this.requestTimeoutMs}ms: ${url}`);
+      }
+      throw new NetworkError(`aitable-mcp-server: Request to ${url} failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      clearTimeout(timeout);
+      callSignal?.removeEventListener('abort', cancel);
     }
   }
 
+  /**
+   * List all available AITable spaces
+   */
+  async listBases(): Promise<ListBasesResponse> {
+    const response = await this.fetchBases();
+    return {
+      ...response,
+      bases: response.bases.filter((base) => this.accessPolicy.isSpaceAllowed(base.id)),
+    };
+  }
+
+  private async fetchBases(): Promise<ListBasesResponse> {
+    return (await this.dialect()).listBases();
+  }
+
   /**
    * Get information about datasheets in a space
    */
   async getBaseSchema(baseId: string): Promise<BaseSchemaResponse> {
-    try {
-      // Try AITable API endpoint
-      return await this.fetchFromAPI(
-        `/v0/meta/bases/${baseId}/tables`,
-        BaseSchemaResponseSchema
-      );
-    } catch (error) {
-      // Fall back to AITable-style API
-      // First, get all datasheets in the space using nodes API
-      const nodesResponse = await this.fetchFromAPI(
-        `/spaces/${baseId}/nodes?type=Datasheet`,
-        z.object({
-          success: z.boolean(),
-          code: z.number(),
-          data: z.object({
-            nodes: z.array(z.object({
-              id: z.string(),
-              name: z.string(),
-              type: z.string(),
-              icon: z.string().optional()
-            }))
-          }),
-          message: z.string()
-        })
-      );
-      
-      // Now we need to get fields for each datasheet and transform them to match the expected format
-      const datasheetNodes = nodesResponse.data.nodes.filter(node => node.type === 'Datasheet');
-      const tables: Table[] = [];
-      
-      for (const node of datasheetNodes) {
-        try {
-          // Get fields for this datasheet
-          const fieldsResponse = await this.fetchFromAPI(
-            `/datasheets/${node.id}/fields`,
-            z.object({
-              success: z.boolean(),
-              code: z.number(),
-              data: z.object({
-                fields: z.array(z.object({
-                  id: z.string(),
-                  name: z.string(),
-                  type: z.string(),
-                  property: z.any().optional(),
-                  editable: z.boolean().optional(),
-                  isPrimary: z.boolean().optional(),
-                  desc: z.string().optional()
-                }))
-              }),
-              message: z.string()
-            })
-          );
-          
-          // Get views for this datasheet
-          const viewsResponse = await this.fetchFromAPI(
-            `/datasheets/${node.id}/views`,
-            z.object({
-              success: z.boolean(),
-              code: z.number(),
-              data: z.object({
-                views: z.array(z.object({
-                  id: z.string(),
-                  name: z.string(),
-                  type: z.string()
-                }))
-              }),
-              message: z.string()
-            })
-          );
-          
-          // Find the primary field ID
-          const primaryField = fieldsResponse.data.fields.find(field => field.isPrimary === true);
-          const primaryFieldId = primaryField ? primaryField.id : fieldsResponse.data.fields[0]?.id || '';
-          
-          // Transform fields to match expected format
-          const fields = fieldsResponse.data.fields.map(field => ({
-            id: field.id,
-            name: field.name,
-            type: field.type,
-            description: field.desc,
-            options: field.property || {}
-          }));
-          
-          // Create the table object with transformed data
-          tables.push({
-            id: node.id,
-            name: node.name,
-            primaryFieldId,
-            fields,
-            views: viewsResponse.data.views,
-            description: ''
-          });
-        } catch (error) {
-          console.error(`Error fetching details for datasheet ${node.id}:`, error);
-        }
-      }
-      
-      return {
-        tables,
-        bases: [] // This field isn't used anyway
-      };
+    this.accessPolicy.assertAccess(baseId);
+    const schema = await this.fetchBaseSchema(baseId);
+    return {
+      ...schema,
+      tables: schema.tables.filter((table) => this.accessPolicy.isDatasheetAllowed(table.id)),
+    };
+  }
+
+  private async fetchBaseSchema(baseId: string): Promise<BaseSchemaResponse> {
+    return (await this.dialect()).getBaseSchema(baseId);
+  }
+
+  /**
+   * Get the fields of a datasheet, with the primary field first
+   */
+  async getFields(baseId: string, tableId: string): Promise<Field[]> {
+    this.accessPolicy.assertAccess(baseId, tableId);
+    return this.fieldsCache.getOrLoad(tableId, () => this.fetchFields(tableId));
+  }
+
+  private async fetchFields(tableId: string): Promise<Field[]> {
+    const response = await this.fetchFromAPI(
+      `/datasheets/${tableId}/fields`,
+      z.object({
+        success: z.boolean(),
+        code: z.number(),
+        data: z.object({
+          fields: z.array(z.object({
+            id: z.string(),
+            name: z.string(),
+            type: z.string(),
+            property: z.any().optional(),
+            editable: z.boolean().optional(),
+            isPrimary: z.boolean().optional(),
+            desc: z.string().optional(),
+          })),
+        }),
+        message: z.string(),
+      }),
+    );
+
+    const primary = response.data.fields.filter((field) => field.isPrimary === true);
+    const others = response.data.fields.filter((field) => field.isPrimary !== true);
+
+    // Transform fields to match expected format
+    return [...primary, ...others].map((field) => ({
+      id: field.id,
+      name: field.name,
+      type: field.type,
+      description: field.desc,
+      options: field.property || {},
+    }));
+  }
+
+  /**
+   * Get the views of a datasheet
+   */
+  async getViews(baseId: string, tableId: string): Promise<View[]> {
+    this.accessPolicy.assertAccess(baseId, tableId);
+    return this.viewsCache.getOrLoad(tableId, () => this.fetchViews(tableId));
+  }
+
+  private async fetchViews(tableId: string): Promise<View[]> {
+    const response = await this.fetchFromAPI(
+      `/datasheets/${tableId}/views`,
+      z.object({
+        success: z.boolean(),
+        code: z.number(),
+        data: z.object({
+          views: z.array(ViewSchema),
+        }),
+        message: z.string(),
+      }),
+    );
+
+    return response.data.views;
+  }
+
+  /**
+   * Resolves a datasheet ID, name or folder path to a datasheet ID.
+   * Raw IDs are returned as-is without a lookup.
+   */
+  async resolveDatasheetId(spaceId: string, datasheetRef: string): Promise<string> {
+    if (isDatasheetId(datasheetRef)) {
+      return datasheetRef;
     }
+
+    const datasheets = await this.getAllDatasheets(spaceId);
+    return findDatasheet(datasheets, datasheetRef, spaceId).id;
+  }
+
+  /**
+   * Resolves field IDs or names to field IDs
+   */
+  async resolveFieldIds(spaceId: string, datasheetId: string, fieldRefs: string[]): Promise<string[]> {
+    const fields = await this.getFields(spaceId, datasheetId);
+    return fieldRefs.map((ref) => {
+      const field = findField(fields, ref, datasheetId);
+      return field.id ?? field.name;
+    });
+  }
+
+  /**
+   * Resolves field IDs or names to exact field names
+   */
+  async resolveFieldNames(spaceId: string, datasheetId: string, fieldRefs: string[]): Promise<string[]> {
+    const fields = await this.getFields(spaceId, datasheetId);
+    return fieldRefs.map((ref) => findField(fields, ref, datasheetId).name);
+  }
+
+  /**
+   * Resolves a view ID or name to a view ID
+   */
+  async resolveViewId(spaceId: string, datasheetId: string, viewRef: string): Promise<string> {
+    const views = await this.getViews(spaceId, datasheetId);
+    return findView(views, viewRef, datasheetId).id;
+  }
+
+  /**
+   * Rewrites the keys of a fields payload (field IDs or names) to the exact
+   * field names expected by the records API, and checks each value suits its
+   * field's type
+   */
+  async resolveFieldSet(spaceId: string, datasheetId: string, fields: FieldSet): Promise<FieldSet> {
+    return (await this.prepareFieldSet(spaceId, datasheetId, fields)).fields;
+  }
+
+  /**
+   * Compiles a structured filter to a formula, checked against the datasheet's fields
+   */
+  async compileFilter(spaceId: string, datasheetId: string, filter: FilterExpression): Promise<string> {
+    const tableFields = await this.getFields(spaceId, datasheetId);
+    return compileFilter(filter, tableFields, datasheetId);
+  }
+
+  /**
+   * Like resolveFieldSet, but first coerces loosely written values to suit
+   * their fields, reporting each value it changed
+   */
+  async prepareFieldSet(
+    spaceId: string,
+    datasheetId: string,
+    fields: FieldSet,
+    coerce: CoercionMode = 'off',
+  ): Promise<{ fields: FieldSet; coercions: Coercion[] }> {
+    const tableFields = await this.getFields(spaceId, datasheetId);
+    const coerced = coerceFieldSet(tableFields, resolveFieldSet(tableFields, fields, datasheetId), coerce, datasheetId);
+    validateFieldSet(tableFields, coerced.fields, datasheetId);
+    return coerced;
   }
 
   /**
    * List records from a datasheet
    */
   async listRecords(baseId: string, tableId: string, options: ListRecordsOptions = {}): Promise<AITableRecord[]> {
-    try {
-      // Try Airtable-style API first
-      const params = new URLSearchParams();
-      
-      if (options.maxRecords) {
-        params.append('maxRecords', options.maxRecords.toString());
+    const page = await this.listRecordsPage(baseId, tableId, options);
+    return page.records;
+  }
+
+  /**
+   * List a page of records from a datasheet, along with a token for the next page.
+   * When `options.fetchAll` is set, pages are walked until exhausted or until
+   * maxRecords (at most MAX_FETCH_ALL_RECORDS) is reached, in which case the
+   * page is marked as truncated. The token a walk returns carries its page size
+   * and where in the page it stopped, so carrying on neither skips nor repeats
+   * records.
+   */
+  async listRecordsPage(baseId: string, tableId: string, options: ListRecordsOptions = {}): Promise<ListRecordsPage> {
+    this.accessPolicy.assertAccess(baseId, tableId);
+    const resume = parseResumeToken(options.pageToken);
+    if (!options.fetchAll) {
+      const page = await this.fetchRecordsPage(baseId, tableId, {
+        ...options,
+        pageToken: resume.pageToken,
+        pageSize: resume.pageSize ?? options.pageSize,
+      });
+      if (resume.pageSize === undefined) {
+        return page;
       }
-      
-      if (options.filterByFormula) {
-        params.append('filterByFormula', options.filterByFormula);
+      return {
+        ...page,
+        records: page.records.slice(resume.skip),
+        pageToken: page.pageToken === undefined ? undefined : resumeToken(resume.pageSize, 0, page.pageToken),
+      };
+    }
+
+    const limit = Math.min(options.maxRecords ?? MAX_FETCH_ALL_RECORDS, MAX_FETCH_ALL_RECORDS);
+    const records: AITableRecord[] = [];
+    // A walk from the start fits its pages to the limit; one carried on from a
+    // token keeps the size the token was issued for
+    const requestedPageSize = resume.pageSize ?? options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const resumed = options.pageToken !== undefined || options.pageNum !== undefined;
+    const pageSize = resumed ? requestedPageSize : Math.min(requestedPageSize, limit);
+
+    const walk = async (pageToken: string | undefined, pageNum: number | undefined, skip: number): Promise<ListRecordsPage> => {
+      const page = await this.fetchRecordsPage(baseId, tableId, {
+        ...options,
+        maxRecords: undefined,
+        pageSize,
+        pageToken,
+        pageNum,
+      });
+      const fresh = page.records.slice(skip);
+      const room = limit - records.length;
+      if (fresh.length > room) {
+        records.push(...fresh.slice(0, room));
+        const thisPage = pageToken ?? (pageNum === undefined ? undefined : String(pageNum));
+        return { records, pageToken: resumeToken(pageSize, skip + room, thisPage), truncated: true };
       }
-      
-      const queryString = params.toString() ? `?${params.toString()}` : '';
-      const response = await this.fetchFromAPI(
-        `/v0/${baseId}/${tableId}/records${queryString}`,
-        z.object({
-          records: z.array(z.object({
-            id: z.string(),
-            fields: z.record(z.any()),
-            createdTime: z.string().optional()
-          })),
-          offset: z.string().nullable().optional()
-        })
-      );
-      
-      // Airtable response is already in the right format
-      return response.records;
-    } catch (error) {
-      // Fall back to AITable-style API
-      const params = new URLSearchParams();
-      
-      if (options.maxRecords) {
-        params.append('pageSize', options.maxRecords.toString());
+      records.push(...fresh);
+      reportProgress(records.length, undefined, `Fetched ${records.length} records`);
+
+      if (!page.pageToken || page.records.length === 0) {
+        return { records };
       }
-      
-      if (options.filterByFormula) {
-        params.append('filterByFormula', options.filterByFormula);
+      if (records.length === limit) {
+        return { records, pageToken: resumeToken(pageSize, 0, page.pageToken), truncated: true };
       }
-      
-      const queryString = params.toString() ? `?${params.toString()}` : '';
-      
-      const response = await this.fetchFromAPI(
-        `/datasheets/${tableId}/records${queryString}`,
-        z.object({
-          success: z.boolean(),
-          code: z.number(),
-          data: z.object({
-            records: z.array(z.object({
-              recordId: z.string(),
-              fields: z.record(z.any()),
-              createdAt: z.number().optional(),
-              updatedAt: z.number().optional()
-            })),
-            pageNum: z.number(),
-            pageSize: z.number()
-          }),
-          message: z.string()
-        })
-      );
-      
-      // Transform records to match expected format
-      return response.data.records.map(record => ({
-        id: record.recordId,
-        fields: record.fields
-      }));
-    }
+      return walk(page.pageToken, undefined, 0);
+    };
+
+    return walk(resume.pageToken, options.pageNum, resume.skip);
+  }
+
+  /**
+   * Fetches every record a listing returns, up to MAX_FETCH_ALL_RECORDS, and
+   * formats them as CSV or JSON Lines with columns in the datasheet's field order
+   */
+  async exportRecords(baseId: string, tableId: string, options: ExportRecordsOptions = {}): Promise<RecordExport> {
+    const format = options.format ?? 'csv';
+    const fields = await this.getFields(baseId, tableId);
+    const page = await this.listRecordsPage(baseId, tableId, {
+      maxRecords: options.maxRecords,
+      filterByFormula: options.filterByFormula,
+      sort: options.sort,
+      fields: options.fields,
+      viewId: options.viewId,
+      fetchAll: true,
+    });
+
+    const columns = exportColumns(fields, page.records, options.fields);
+    return {
+      format,
+      mimeType: EXPORT_MIME_TYPES[format],
+      columns,
+      recordCount: page.records.length,
+      truncated: page.truncated,
+      content: formatRecords(format, columns, page.records, fields),
+    };
+  }
+
+  /**
+   * Fetch a single page of records
+   */
+  private async fetchRecordsPage(baseId: string, tableId: string, options: ListRecordsOptions): Promise<ListRecordsPage> {
+    return (await this.dialect()).listRecordsPage(baseId, tableId, options);
   }
 
   /**
    * Get a specific record
    */
   async getRecord(baseId: string, tableId: string, recordId: string): Promise<AITableRecord> {
-    try {
-      // Try Airtable-style API first
-      const response = await this.fetchFromAPI(
-        `/v0/${baseId}/${tableId}/${recordId}`,
-        z.object({
-          id: z.string(),
-          fields: z.record(z.any()),
-          createdTime: z.string().optional()
-        })
-      );
-      
-      // Airtable response is already in the right format
-      return {
-        id: response.id,
-        fields: response.fields
-      };
-    } catch (error) {
-      // Fall back to AITable-style API using filterByFormula on assumed 'RecordID' field
-      // Note: This assumes a field named 'RecordID' contains the record ID.
-      console.warn(`Airtable-style getRecord failed for ${recordId}, falling back to listRecords with filterByFormula on RecordID field.`);
-      try {
-        const filterFormula = `{RecordID}='${recordId}'`;
-        const options = { filterByFormula: filterFormula, maxRecords: 2 }; // Max 2 to detect duplicates
-        const matchingRecords = await this.listRecords(baseId, tableId, options);
-
-        if (matchingRecords.length === 1) {
-          return matchingRecords[0];
-        } else if (matchingRecords.length === 0) {
-          throw new Error(`aitable-mcp-server: Record ${recordId} not found using RecordID filter.`);
-        } else {
-          // This case should ideally not happen if RecordID is unique
-          console.error(`aitable-mcp-server: Found multiple records (${matchingRecords.length}) for RecordID ${recordId}. Returning the first one.`);
-          return matchingRecords[0];
-        }
-      } catch (fallbackError) {
-        console.error(`Error during AITable fallback using listRecords for record ${recordId}:`, fallbackError);
-        // Re-throw the original error or a more specific fallback error
-        throw new Error(`aitable-mcp-server: Failed to get record ${recordId}. Original error: ${error instanceof Error ? error.message : String(error)}. Fallback error: ${fallbackError instanceof Error ? fallbackError.message : String(fallbackError)}`);
-      }
-    }
+    this.accessPolicy.assertAccess(baseId, tableId);
+    return (await this.dialect()).getRecord(baseId, tableId, recordId);
+  }
+
+  /**
+   * Gets several records by ID. Records that do not exist are left out rather
+   * than reported as errors
+   */
+  async getRecords(baseId: string, tableId: string, recordIds: string[]): Promise<AITableRecord[]> {
+    const uniqueIds = [...new Set(recordIds)];
+    const batches = await inSequence(batchesOf(uniqueIds, MAX_KEYS_PER_LOOKUP), (batch) => {
+      const filterByFormula = or(batch.map((id) => `RECORD_ID()=${formulaLiteral(id)}`));
+      return this.listRecords(baseId, tableId, { filterByFormula, fetchAll: true });
+    });
+    return batches.flat();
   }
 
   /**
    * Create a new record
    */
   async createRecord(baseId: string, tableId: string, fields: FieldSet): Promise<AITableRecord> {
+    this.accessPolicy.assertAccess(baseId, tableId, true);
     const response = await this.fetchFromAPI(
       `/datasheets/${tableId}/records`,
       z.object({
@@ -390,92 +839,298 @@ export class AITableService implements IAITableService {
           records: [{ fields }]
         }),
       }
-    );
-    
-    if (!response.data.records.length) {
-      throw new Error('aitable-mcp-server: Failed to create record, no record returned');
-    }
-    
-    // Transform record to match expected format
-    return {
-      id: response.data.records[0].recordId,
-      fields: response.data.records[0].fields
-    };
+    );
+    
+    if (!response.data.records.length) {
+      throw new UpstreamError('aitable-mcp-server: Failed to create record, no record returned', {
+        retryable: false,
+        remediation: 'The record may have been created anyway. Search for it before creating it again.',
+      });
+    }
+    
+    this.audit('create_record', baseId, tableId, [response.data.records[0].recordId]);
+
+    // Transform record to match expected format
+    return {
+      id: response.data.records[0].recordId,
+      fields: response.data.records[0].fields
+    };
+  }
+
+  /**
+   * Create any number of records, in batches of MAX_RECORDS_PER_WRITE
+   */
+  async createRecords(
+    baseId: string,
+    tableId: string,
+    records: { fields: FieldSet }[],
+  ): Promise<BatchWriteResult<AITableRecord>> {
+    this.accessPolicy.assertAccess(baseId, tableId, true);
+    const result = await writeInBatches(records, () => undefined, async (batch) => {
+      const response = await this.fetchFromAPI(
+        `/datasheets/${tableId}/records`,
+        z.object({
+          success: z.boolean(),
+          code: z.number(),
+          data: z.object({
+            records: z.array(z.object({
+              recordId: z.string(),
+              fields: z.record(z.any()),
+            })),
+          }),
+          message: z.string(),
+        }),
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            records: batch.map((record) => ({ fields: record.fields })),
+          }),
+        },
+      );
+
+      // Transform records to match expected format
+      return response.data.records.map((record) => ({
+        id: record.recordId,
+        fields: record.fields,
+      }));
+    });
+
+    this.audit('create_records', baseId, tableId, result.succeeded.map((record) => record.id), result.failed.length);
+    return result;
+  }
+
+  /**
+   * Update any number of records, in batches of MAX_RECORDS_PER_WRITE
+   */
+  async updateRecords(
+    baseId: string,
+    tableId: string,
+    records: { id: string; fields: FieldSet }[],
+  ): Promise<BatchWriteResult<AITableRecord>> {
+    this.accessPolicy.assertAccess(baseId, tableId, true);
+    const result = await writeInBatches(records, (record) => record.id, async (batch) => {
+      // Transform records to match AITable's format
+      const aiTableRecords = batch.map((record) => ({
+        recordId: record.id,
+        fields: record.fields,
+      }));
+
+      const response = await this.fetchFromAPI(
+        `/datasheets/${tableId}/records`,
+        z.object({
+          success: z.boolean(),
+          code: z.number(),
+          data: z.object({
+            records: z.array(z.object({
+              recordId: z.string(),
+              fields: z.record(z.any()),
+            })),
+          }),
+          message: z.string(),
+        }),
+        {
+          method: 'PATCH',
+          body: JSON.stringify({ records: aiTableRecords }),
+        },
+      );
+
+      // Transform records to match expected format
+      return response.data.records.map((record) => ({
+        id: record.recordId,
+        fields: record.fields,
+      }));
+    });
+
+    this.audit('update_records', baseId, tableId, result.succeeded.map((record) => record.id), result.failed.length);
+    return result;
+  }
+
+  /**
+   * Delete any number of records, in batches of MAX_RECORDS_PER_WRITE
+   */
+  async deleteRecords(baseId: string, tableId: string, recordIds: string[]): Promise<BatchWriteResult<{ id: string }>> {
+    this.accessPolicy.assertAccess(baseId, tableId, true);
+    const result = await writeInBatches(recordIds, (id) => id, async (batch) => {
+      const response = await this.fetchFromAPI(
+        `/datasheets/${tableId}/records`,
+        z.object({
+          success: z.boolean(),
+          code: z.number(),
+          // Either per-record results, or a bare `true` when the whole batch was deleted
+          data: z.union([
+            z.boolean(),
+            z.object({
+              results: z.array(z.object({
+                recordId: z.string(),
+                deleted: z.boolean(),
+              })),
+            }),
+          ]),
+          message: z.string(),
+        }),
+        {
+          method: 'DELETE',
+          body: JSON.stringify({ recordIds: batch }),
+        },
+      );
+
+      if (typeof response.data === 'boolean') {
+        return response.data ? batch.map((id) => ({ id })) : [];
+      }
+
+      // Transform records to match expected format
+      return response.data.results
+        .filter((deleteResult) => deleteResult.deleted)
+        .map((deleteResult) => ({ id: deleteResult.recordId }));
+    });
+
+    // Records the API reported as not deleted don't show up as a failed batch
+    const accounted = new Set([
+      ...result.succeeded.map((record) => record.id),
+      ...result.failed.map((failure) => failure.id),
+    ]);
+    recordIds.forEach((id, index) => {
+      if (!accounted.has(id)) {
+        result.failed.push({ index, id, error: 'Record was not deleted' });
+      }
+    });
+    result.failed.sort((a, b) => a.index - b.index);
+
+    this.audit('delete_records', baseId, tableId, result.succeeded.map((record) => record.id), result.failed.length);
+    return result;
   }
 
   /**
-   * Update multiple records
+   * Works out which records an upsert would create and which existing rows it
+   * would update, without writing anything. Fails if a merge key matches more
+   * than one existing row.
    */
-  async updateRecords(
+  async planUpsert(
     baseId: string,
     tableId: string,
-    records: { id: string; fields: FieldSet }[],
-  ): Promise<AITableRecord[]> {
-    // Transform records to match AITable's format
-    const aiTableRecords = records.map(record => ({
-      recordId: record.id,
-      fields: record.fields
-    }));
-    
-    const response = await this.fetchFromAPI(
-      `/datasheets/${tableId}/records`,
-      z.object({
-        success: z.boolean(),
-        code: z.number(),
-        data: z.object({
-          records: z.array(z.object({
-            recordId: z.string(),
-            fields: z.record(z.any())
-          }))
-        }),
-        message: z.string()
-      }),
-      {
-        method: 'PATCH',
-        body: JSON.stringify({ records: aiTableRecords }),
+    records: { fields: FieldSet }[],
+    mergeOnFields: string[],
+  ): Promise<UpsertPlan> {
+    this.accessPolicy.assertAccess(baseId, tableId, true);
+    if (mergeOnFields.length === 0) {
+      throw new ValidationError('aitable-mcp-server: At least one merge field is required to upsert records');
+    }
+
+    const tableFields = await this.getFields(baseId, tableId);
+    const mergeFieldNames = mergeOnFields.map((ref) => findField(tableFields, ref, tableId).name);
+    const keyOf = (fields: FieldSet) => JSON.stringify(mergeFieldNames.map((name) => mergeKeyPart(fields[name])));
+
+    const failed: UpsertPlan['failed'] = [];
+    const candidates: { index: number; fields: FieldSet; key: string }[] = [];
+    const firstIndexByKey = new Map<string, number>();
+
+    records.forEach((record, index) => {
+      const missing = mergeFieldNames.filter((name) => !isMergeValue(record.fields[name]));
+      if (missing.length > 0) {
+        failed.push({ index, error: `Missing a text, number or boolean value for merge field(s): ${missing.join(', ')}` });
+        return;
       }
-    );
-    
-    // Transform records to match expected format
-    return response.data.records.map(record => ({
-      id: record.recordId,
-      fields: record.fields
-    }));
+
+      const key = keyOf(record.fields);
+      const firstIndex = firstIndexByKey.get(key);
+      if (firstIndex !== undefined) {
+        failed.push({ index, error: `Has the same merge key as record ${firstIndex} in this request` });
+        return;
+      }
+
+      firstIndexByKey.set(key, index);
+      candidates.push({ index, fields: record.fields, key });
+    });
+
+    // Look up existing rows for a batch of merge keys at a time
+    const existingByKey = new Map<string, AITableRecord[]>();
+    await inSequence(batchesOf(candidates, MAX_KEYS_PER_LOOKUP), async (batch) => {
+      const filterByFormula = or(batch.map((candidate) => and(mergeFieldNames.map((name) => (
+        mergeCondition(name, candidate.fields[name] as string | number | boolean)
+      )))));
+
+      const matches = await this.listRecords(baseId, tableId, { filterByFormula, fetchAll: true });
+      matches.forEach((match) => {
+        const key = keyOf(match.fields);
+        existingByKey.set(key, [...(existingByKey.get(key) ?? []), match]);
+      });
+    });
+
+    const conflicts = candidates.filter((candidate) => (existingByKey.get(candidate.key)?.length ?? 0) > 1);
+    if (conflicts.length > 0) {
+      const details = conflicts
+        .map((candidate) => `record ${candidate.index} matches ${existingByKey.get(candidate.key)?.map((match) => match.id).join(', ')}`)
+        .join('; ');
+      throw new ValidationError(`aitable-mcp-server: Merge fields (${mergeFieldNames.join(', ')}) match more than one existing record, nothing was written: ${details}`, {
+        remediation: 'Merge on fields whose values are unique, or remove the duplicate records first.',
+      });
+    }
+
+    return {
+      create: candidates
+        .filter((candidate) => !existingByKey.has(candidate.key))
+        .map(({ index, fields }) => ({ index, fields })),
+      update: candidates
+        .filter((candidate) => existingByKey.has(candidate.key))
+        .map(({ index, fields, key }) => {
+          const [existing] = existingByKey.get(key)!;
+          return {
+            index, id: existing.id, fields, current: existing.fields,
+          };
+        }),
+      failed,
+    };
   }
 
   /**
-   * Delete records
+   * Creates or updates records, matching existing rows on the values of the
+   * merge fields. Fails without writing anything if a merge key matches more
+   * than one existing row.
    */
-  async deleteRecords(baseId: string, tableId: string, recordIds: string[]): Promise<{ id: string }[]> {
-    const response = await this.fetchFromAPI(
-      `/datasheets/${tableId}/records`,
-      z.object({
-        success: z.boolean(),
-        code: z.number(),
-        data: z.object({
-          results: z.array(z.object({
-            recordId: z.string(),
-            deleted: z.boolean()
-          }))
-        }),
-        message: z.string()
-      }),
-      {
-        method: 'DELETE',
-        body: JSON.stringify({ recordIds }),
-      }
-    );
-    
-    // Transform records to match expected format
-    return response.data.results
-      .filter(result => result.deleted)
-      .map(result => ({ id: result.recordId }));
+  async upsertRecords(
+    baseId: string,
+    tableId: string,
+    records: { fields: FieldSet }[],
+    mergeOnFields: string[],
+  ): Promise<UpsertResult> {
+    const plan = await this.planUpsert(baseId, tableId, records, mergeOnFields);
+    const toUpdate = plan.update;
+    const toCreate = plan.create;
+
+    const updateResult = await this.updateRecords(baseId, tableId, toUpdate.map((candidate) => ({
+      id: candidate.id,
+      fields: candidate.fields,
+    })));
+    const createResult = await this.createRecords(baseId, tableId, toCreate.map((candidate) => ({
+      fields: candidate.fields,
+    })));
+
+    // Map batch results back to positions in the original request
+    const writtenPositions = (written: { index: number }[], failed: { index: number }[]) => {
+      const failedIndexes = new Set(failed.map((failure) => failure.index));
+      return written.filter((_, i) => !failedIndexes.has(i)).map((candidate) => candidate.index);
+    };
+    const result: UpsertResult = {
+      created: createResult.succeeded,
+      updated: updateResult.succeeded,
+      failed: [...plan.failed],
+      positions: {
+        updated: writtenPositions(toUpdate, updateResult.failed),
+        created: writtenPositions(toCreate, createResult.failed),
+      },
+    };
+    updateResult.failed.forEach((failure) => result.failed.push({ ...failure, index: toUpdate[failure.index].index }));
+    createResult.failed.forEach((failure) => result.failed.push({ ...failure, index: toCreate[failure.index].index }));
+    result.failed.sort((a, b) => a.index - b.index);
+
+    return result;
   }
 
   /**
-   * Create a new datasheet (table)
+   * Create a new datasheet (table), at the root of the space or in a folder
    */
-  async createTable(baseId: string, name: string, fields: Field[], description?: string): Promise<Table> {
+  async createTable(baseId: string, name: string, fields: Field[], description?: string, folderId?: string): Promise<Table> {
+    this.accessPolicy.assertAccess(baseId, undefined, true);
     // Transform fields to match AITable's format
     const aiTableFields = fields.map(field => ({
       name: field.name,
@@ -499,17 +1154,26 @@ export class AITableService implements IAITableService {
         body: JSON.stringify({
           name,
           description: description || '',
+          folderId,
           fields: aiTableFields
         }),
       }
     );
     
+    this.audit('create_table', baseId, response.data.datasheetId, [response.data.datasheetId]);
+
+    // The space's node tree now has a new datasheet in it
+    this.clearSchemaCache({ spaceId: baseId });
+
     // After creating the datasheet, fetch its complete schema
     const tableSchema = await this.getBaseSchema(baseId);
     const createdTable = tableSchema.tables.find(table => table.id === response.data.datasheetId);
     
     if (!createdTable) {
-      throw new Error(`aitable-mcp-server: Created datasheet not found in schema`);
+      throw new UpstreamError('aitable-mcp-server: Created datasheet not found in schema', {
+        retryable: false,
+        remediation: 'The datasheet was created but could not be read back. Check list_tables before creating it again.',
+      });
     }
     
     return createdTable;
@@ -523,6 +1187,7 @@ export class AITableService implements IAITableService {
     tableId: string,
     updates: { name?: string; description?: string },
   ): Promise<Table> {
+    this.accessPolicy.assertAccess(baseId, tableId, true);
     await this.fetchFromAPI(
       `/datasheets/${tableId}`,
       z.object({
@@ -542,132 +1207,58 @@ export class AITableService implements IAITableService {
       }
     );
 
+    this.audit('update_table', baseId, tableId, [tableId]);
+
+    // A renamed datasheet changes the paths in the space's node tree
+    this.clearSchemaCache({ spaceId: baseId });
+
     // After updating, fetch the datasheet schema to get the latest
     const tableSchema = await this.getBaseSchema(baseId);
     const updatedTable = tableSchema.tables.find(table => table.id === tableId);
     
     if (!updatedTable) {
-      throw new Error(`aitable-mcp-server: Updated datasheet not found in schema`);
+      throw new UpstreamError('aitable-mcp-server: Updated datasheet not found in schema', {
+        retryable: false,
+        remediation: 'The datasheet was updated but could not be read back. Check list_tables to see its current state.',
+      });
     }
     
     return updatedTable;
   }
 
+  /**
+   * Create a new field, invalidating the cached fields of its datasheet
+   */
   async createField(baseId: string, tableId: string, field: Omit<Field, 'id'>): Promise<Field> {
-    try {
-      // Try Airtable-style API first
-      return await this.fetchFromAPI(
-        `/v0/meta/bases/${baseId}/tables/${tableId}/fields`,
-        z.object({
-          id: z.string(),
-          name: z.string(),
-          type: z.string(),
-          description: z.string().optional(),
-          options: z.record(z.string(), z.any()).optional(),
-        }),
-        {
-          method: 'POST',
-          body: JSON.stringify(field),
-        }
-      );
-    } catch (error) {
-      // Fall back to AITable-style API
-      const response = await this.fetchFromAPI(
-        `/datasheets/${tableId}/fields`,
-        z.object({
-          success: z.boolean(),
-          code: z.number(),
-          data: z.object({
-            field: z.object({
-              id: z.string(),
-              name: z.string(),
-              type: z.string(),
-              desc: z.string().optional(),
-              property: z.record(z.string(), z.any()).optional(),
-            }),
-          }),
-          message: z.string(),
-        }),
-        {
-          method: 'POST',
-          body: JSON.stringify({
-            name: field.name,
-            type: field.type,
-            desc: field.description,
-            property: field.options,
-          }),
-        }
-      );
-      
-      // Transform response to match expected format
-      return {
-        id: response.data.field.id,
-        name: response.data.field.name,
-        type: response.data.field.type,
-        description: response.data.field.desc,
-        options: response.data.field.property,
-      };
+    this.accessPolicy.assertAccess(baseId, tableId, true);
+    const createdField = await (await this.dialect()).createField(baseId, tableId, field);
+    this.audit('create_field', baseId, tableId, [createdField.id ?? createdField.name]);
+    this.clearSchemaCache({ datasheetId: tableId });
+
+    // Two-way links also add a field to the linked datasheet
+    const options = (field.options ?? {}) as Record<string, unknown>;
+    const linkedTableId = options.foreignDatasheetId ?? options.linkedTableId;
+    if (typeof linkedTableId === 'string') {
+      this.clearSchemaCache({ datasheetId: linkedTableId });
     }
+
+    return createdField;
   }
 
+  /**
+   * Update a field's name, description or options, invalidating the cached fields of its datasheet
+   */
   async updateField(
     baseId: string,
     tableId: string,
     fieldId: string,
-    updates: { name?: string; description?: string }
+    updates: FieldChanges,
   ): Promise<Field> {
-    try {
-      // Try Airtable-style API first
-      return await this.fetchFromAPI(
-        `/v0/meta/bases/${baseId}/tables/${tableId}/fields/${fieldId}`,
-        z.object({
-          id: z.string(),
-          name: z.string(),
-          type: z.string(),
-          description: z.string().optional(),
-          options: z.record(z.string(), z.any()).optional(),
-        }),
-        {
-          method: 'PATCH',
-          body: JSON.stringify(updates),
-        }
-      );
-    } catch (error) {
-      // Fall back to AITable-style API
-      const response = await this.fetchFromAPI(
-        `/datasheets/${tableId}/fields/${fieldId}`,
-        z.object({
-          success: z.boolean(),
-          code: z.number(),
-          data: z.object({
-            field: z.object({
-              id: z.string(),
-              name: z.string(),
-              type: z.string(),
-              desc: z.string().optional(),
-              property: z.record(z.string(), z.any()).optional(),
-            }),
-          }),
-          message: z.string(),
-        }),
-        {
-          method: 'PATCH',
-          body: JSON.stringify({
-            name: updates.name,
-            desc: updates.description,
-          }),
-        }
-      );
-      
-      // Transform response to match expected format
-      return {
-        id: response.data.field.id,
-        name: response.data.field.name,
-        type: response.data.field.type,
-        description: response.data.field.desc,
-        options: response.data.field.property,
-      };
-    }
+    this.accessPolicy.assertAccess(baseId, tableId, true);
+    const updatedField = await (await this.dialect()).updateField(baseId, tableId, fieldId, updates);
+    this.audit('update_field', baseId, tableId, [fieldId]);
+    this.clearSchemaCache({ datasheetId: tableId });
+    return updatedField;
   }
 
   async searchRecords(
@@ -677,70 +1268,8 @@ export class AITableService implements IAITableService {
     fieldIds?: string[],
     maxRecords?: number
   ): Promise<AITableRecord[]> {
-    try {
-      // Try Airtable-style API first
-      const searchParams = new URLSearchParams();
-      searchParams.append('search', searchTerm);
-      if (maxRecords) {
-        searchParams.append('maxRecords', maxRecords.toString());
-      }
-      if (fieldIds && fieldIds.length > 0) {
-        searchParams.append('fields', fieldIds.join(','));
-      }
-      
-      const endpoint = `/v0/${baseId}/${tableId}/search?${searchParams.toString()}`;
-      
-      const response = await this.fetchFromAPI(
-        endpoint,
-        z.object({
-          records: z.array(
-            z.object({
-              id: z.string(),
-              fields: z.record(z.string(), z.any()),
-            })
-          ),
-          offset: z.string().optional(),
-        })
-      );
-      
-      return response.records;
-    } catch (error) {
-      // Fall back to AITable-style API
-      // Construct query parameters
-      const params: Record<string, string> = {
-        keyword: searchTerm,
-      };
-      
-      if (maxRecords) {
-        params.pageSize = maxRecords.toString();
-      }
-      
-      const searchParams = new URLSearchParams(params);
-      const endpoint = `/datasheets/${tableId}/search?${searchParams.toString()}`;
-      
-      const response = await this.fetchFromAPI(
-        endpoint,
-        z.object({
-          success: z.boolean(),
-          code: z.number(),
-          data: z.object({
-            records: z.array(
-              z.object({
-                recordId: z.string(),
-                data: z.record(z.string(), z.any()),
-              })
-            ),
-          }),
-          message: z.string(),
-        })
-      );
-      
-      // Transform records to match expected format
-      return response.data.records.map(record => ({
-        id: record.recordId,
-        fields: record.data,
-      }));
-    }
+    this.accessPolicy.assertAccess(baseId, tableId);
+    return (await this.dialect()).searchRecords(baseId, tableId, searchTerm, fieldIds, maxRecords);
   }
 
   /**
@@ -749,59 +1278,100 @@ export class AITableService implements IAITableService {
    * @returns Array of datasheet information objects containing id, name, and location path
    */
   async getAllDatasheets(spaceId: string): Promise<DatasheetInfo[]> {
-    const allDatasheets: DatasheetInfo[] = [];
-    
-    // Get top-level nodes in the space
+    this.accessPolicy.assertAccess(spaceId);
     try {
-      const nodesResponse = await this.fetchFromAPI(
-        `/spaces/${spaceId}/nodes`,
-        z.object({
-          success: z.boolean(),
-          code: z.number(),
-          data: z.object({
-            nodes: z.array(z.object({
-              id: z.string(),
-              name: z.string(),
-              type: z.string(),
-              icon: z.string().optional()
-            }))
-          }),
-          message: z.string()
-        })
-      );
-      
-      if (!nodesResponse.success || !nodesResponse.data.nodes) {
-        return [];
-      }
-      
-      // First, directly identify datasheets at the root level
-      const rootDatasheets = nodesResponse.data.nodes.filter(node => node.type === 'Datasheet');
-      for (const datasheet of rootDatasheets) {
-        allDatasheets.push({
-          id: datasheet.id,
-          name: datasheet.name,
-          path: datasheet.name,
-          spaceId: spaceId
-        });
-      }
-      
-      // Process all folders to find nested datasheets
-      const folders = nodesResponse.data.nodes.filter(node => node.type === 'Folder');
-      for (const folder of folders) {
-        await this.processNode(spaceId, folder.id, '', allDatasheets);
-      }
-      
-      return allDatasheets;
+      const datasheets = await this.nodeTreeCache.getOrLoad(spaceId, () => this.walkDatasheets(spaceId));
+      return datasheets.filter((datasheet) => this.accessPolicy.isDatasheetAllowed(datasheet.id));
     } catch (error) {
-      console.error(`Error getting datasheets for space ${spaceId}:`, error);
+      // API errors say why the datasheets couldn't be listed, which "not found" would hide
+      if (error instanceof AITableError) {
+        throw error;
+      }
+      logger.notify('warn', 'Failed to list datasheets', { spaceId, error });
+      return [];
+    }
+  }
+
+  /**
+   * Gets a node of a space's folder tree, leaving out children the access
+   * policy hides
+   */
+  async getNode(spaceId: string, nodeId: string): Promise<SpaceNode> {
+    this.accessPolicy.assertAccess(spaceId);
+    const response = await this.fetchFromAPI(`/spaces/${spaceId}/nodes/${nodeId}`, NodeResponseSchema);
+    const {
+      id, name, type, children,
+    } = response.data;
+    if (type === 'Datasheet') {
+      this.accessPolicy.assertAccess(spaceId, id);
+    }
+    return {
+      id,
+      name,
+      type,
+      children: children?.filter((child) => child.type !== 'Datasheet' || this.accessPolicy.isDatasheetAllowed(child.id)),
+    };
+  }
+
+  /**
+   * Walks the node tree of a space, one request per folder
+   * @private
+   */
+  private async walkDatasheets(spaceId: string): Promise<DatasheetInfo[]> {
+    const allDatasheets: DatasheetInfo[] = [];
+
+    // Get top-level nodes in the space
+    const nodesResponse = await this.fetchFromAPI(
+      `/spaces/${spaceId}/nodes`,
+      z.object({
+        success: z.boolean(),
+        code: z.number(),
+        data: z.object({
+          nodes: z.array(z.object({
+            id: z.string(),
+            name: z.string(),
+            type: z.string(),
+            icon: z.string().optional(),
+          })),
+        }),
+        message: z.string(),
+      }),
+    );
+
+    if (!nodesResponse.success || !nodesResponse.data.nodes) {
       return [];
     }
+
+    // First, directly identify datasheets at the root level
+    const rootDatasheets = nodesResponse.data.nodes.filter((node) => node.type === 'Datasheet');
+    rootDatasheets.forEach((datasheet) => {
+      allDatasheets.push({
+        id: datasheet.id,
+        name: datasheet.name,
+        path: datasheet.name,
+        spaceId,
+      });
+    });
+
+    // Process all folders to find nested datasheets. Children are found as the
+    // walk goes, so the total grows with it
+    const folders = nodesResponse.data.nodes.filter((node) => node.type === 'Folder');
+    let read = 0;
+    let total = folders.length;
+    const nodeRead = (childCount: number) => {
+      read += 1;
+      total += childCount;
+      reportProgress(read, total, `Read ${read} of ${total} nodes`);
+    };
+    await inSequence(folders, (folder) => this.processNode(spaceId, folder.id, '', allDatasheets, undefined, nodeRead));
+
+    return allDatasheets;
   }
   
   /**
    * Gets records from a datasheet by its name
    * @param spaceId ID of the space containing the datasheet
-   * @param datasheetName Name of the datasheet to get records from
+   * @param datasheetName Name or folder path of the datasheet to get records from
    * @param options Optional parameters for filtering and limiting records
    * @returns Array of records from the datasheet
    */
@@ -811,81 +1381,58 @@ export class AITableService implements IAITableService {
     options: ListRecordsOptions = {}
   ): Promise<AITableRecord[]> {
     try {
-      // First, get all datasheets to find the one with the matching name
+      // Find the datasheet by name or folder path, failing on ambiguous names
       const datasheets = await this.getAllDatasheets(spaceId);
-      
-      // Find the datasheet with the requested name
-      const datasheet = datasheets.find(ds => ds.name === datasheetName);
-      
-      if (!datasheet) {
-        throw new Error(`Datasheet named "${datasheetName}" not found in space ${spaceId}`);
-      }
+      const datasheet = findDatasheet(datasheets, datasheetName, spaceId);
       
       // Now get the records from this datasheet
       return await this.listRecords(spaceId, datasheet.id, options);
     } catch (error) {
-      console.error(`Error getting records from datasheet "${datasheetName}":`, error);
+      logger.warn('Failed to get records by datasheet name', { spaceId, datasheetName, error });
       throw error;
     }
   }
   
   /**
-   * Recursively processes a folder node to find datasheets
+   * Recursively processes a folder node to find datasheets. A node that can't
+   * be read fails the whole walk, so an incomplete tree is never cached
    * @private
    */
   private async processNode(
     spaceId: string, 
     nodeId: string, 
     nodePath: string, 
-    allDatasheets: DatasheetInfo[]
+    allDatasheets: DatasheetInfo[],
+    parentId: string | undefined,
+    nodeRead: (childCount: number) => void,
   ): Promise<void> {
-    try {
-      // Get node details
-      const nodeDetails = await this.fetchFromAPI(
-        `/spaces/${spaceId}/nodes/${nodeId}`,
-        z.object({
-          success: z.boolean(),
-          code: z.number(),
-          data: z.object({
-            id: z.string(),
-            name: z.string(),
-            type: z.string(),
-            icon: z.string().optional(),
-            children: z.array(z.object({
-              id: z.string(),
-              name: z.string(),
-              type: z.string()
-            })).optional(),
-          }),
-          message: z.string()
-        })
-      );
-      
-      if (!nodeDetails.success || !nodeDetails.data) {
-        return;
-      }
-      
-      const node = nodeDetails.data;
-      const currentPath = nodePath ? `${nodePath} > ${node.name}` : node.name;
-      
-      if (node.type === 'Datasheet') {
-        allDatasheets.push({
-          id: node.id,
-          name: node.name,
-          path: currentPath,
-          spaceId: spaceId
-        });
-        return;
-      }
-      
-      // If it's a folder and has children, process each child
-      if (node.type === 'Folder' && node.children && node.children.length > 0) {
-        for (const childNode of node.children) {
-          await this.processNode(spaceId, childNode.id, currentPath, allDatasheets);
-        }
-      }
-    } catch (error) {
-      console.error(`Error processing node ${nodeId}:`, error);
+    // Get node details
+    const nodeDetails = await this.fetchFromAPI(`/spaces/${spaceId}/nodes/${nodeId}`, NodeResponseSchema);
+
+    if (!nodeDetails.success || !nodeDetails.data) {
+      return;
+    }
+
+    const node = nodeDetails.data;
+    nodeRead(node.type === 'Folder' ? node.children?.length ?? 0 : 0);
+    const currentPath = nodePath ? `${nodePath} > ${node.name}` : node.name;
+
+    if (node.type === 'Datasheet') {
+      allDatasheets.push({
+        id: node.id,
+        name: node.name,
+        path: currentPath,
+        spaceId,
+        parentId,
+      });
+      return;
+    }
+
+    // If it's a folder and has children, process each child
+    if (node.type === 'Folder' && node.children && node.children.length > 0) {
+      await inSequence(node.children, (childNode) => (
+        this.processNode(spaceId, childNode.id, currentPath, allDatasheets, node.id, nodeRead)
+      ));
     }
   }
 }
@@ -0,0 +1,192 @@
+import {
+  describe, it, expect, vi,
+} from 'vitest';
+import { readFileSync } from 'fs';
+import type { ApiRequest } from './apiDialect.js';
+import { createApiDialect, detectApiDialect } from './apiDialect.js';
+import type { ApiDialectName, Field, View } from './types.js';
+import { NotFoundError, TimeoutError } from './errors.js';
+import { runInCallContext } from './callContext.js';
+
+type Fixtures = Record<string, unknown>;
+
+// Responses recorded from each API, keyed by method and path
+const loadFixtures = (dialect: ApiDialectName): Fixtures => JSON.parse(readFileSync(new URL(`./fixtures/${dialect}.json`, import.meta.url), 'utf8'));
+
+/**
+ * Answers requests from fixtures, validating each with the dialect's response
+ * schema, and records the requests made
+ */
+function fixtureApi(fixtures: Fixtures) {
+  const calls: { method: string; path: string; params: URLSearchParams; body?: unknown }[] = [];
+  const request: ApiRequest = async (endpoint, schema, init = {}) => {
+    const method = init.method ?? 'GET';
+    const [path, query] = endpoint.split('?');
+    calls.push({
+      method, path, params: new URLSearchParams(query), body: init.body ? JSON.parse(String(init.body)) : undefined,
+    });
+    const key = `${method} ${path}`;
+    if (!(key in fixtures)) {
+      throw new NotFoundError(`aitable-mcp-server: API request failed (404): no fixture for ${key}`, { status: 404 });
+    }
+    return schema.parse(fixtures[key]);
+  };
+  return { request, calls };
+}
+
+const fields: Field[] = [
+  { id: 'fld1', name: 'Name', type: 'SingleText' },
+  { id: 'fld2', name: 'Status', type: 'SingleSelect', options: { options: [{ id: 'opt1', name: 'Open' }] } },
+];
+const views: View[] = [{ id: 'viw1', name: 'Grid', type: 'Grid' }];
+
+describe.each(['airtable', 'fusion'] as const)('%s dialect', (name) => {
+  const dialectFor = (fixtures: Fixtures = loadFixtures(name)) => {
+    const api = fixtureApi(fixtures);
+    return { ...api, dialect: createApiDialect(name, api.request, async () => ({ fields, views })) };
+  };
+
+  it('maps responses to the same shapes as the other dialect', async () => {
+    const { dialect } = dialectFor();
+
+    expect(dialect.name).toBe(name);
+    expect((await dialect.listBases()).bases).toEqual([{ id: 'spc1', name: 'Team', permissionLevel: 'owner' }]);
+    expect((await dialect.getBaseSchema('spc1')).tables).toEqual([{
+      id: 'dst1', name: 'Projects', description: '', primaryFieldId: 'fld1', fields, views,
+    }]);
+
+    const page = await dialect.listRecordsPage('spc1', 'dst1', {});
+    expect(page.records).toEqual([
+      { id: 'rec1', fields: { Name: 'Ada', Status: 'Open' }, ...(name === 'airtable' ? { createdTime: '2025-03-01T00:00:00.000Z' } : {}) },
+      { id: 'rec2', fields: { Name: 'Grace' }, ...(name === 'airtable' ? { createdTime: '2025-03-02T00:00:00.000Z' } : {}) },
+    ]);
+    expect(page.pageToken).toBe(name === 'airtable' ? 'itr2' : '2');
+
+    expect(await dialect.getRecord('spc1', 'dst1', 'rec1')).toEqual({ id: 'rec1', fields: { Name: 'Ada', Status: 'Open' } });
+    expect(await dialect.searchRecords('spc1', 'dst1', 'Ada')).toEqual([{ id: 'rec1', fields: { Name: 'Ada', Status: 'Open' } }]);
+
+    const expectedField = {
+      id: 'fld3', type: 'Email', description: 'Work email', ...(name === 'fusion' ? { options: {} } : {}),
+    };
+    expect(await dialect.createField('spc1', 'dst1', { name: 'Email', type: 'Email', description: 'Work email' }))
+      .toEqual({ ...expectedField, name: 'Email' });
+    expect(await dialect.updateField('spc1', 'dst1', 'fld3', { name: 'E-mail' })).toEqual({ ...expectedField, name: 'E-mail' });
+  });
+
+  it('surfaces errors instead of trying the other dialect', async () => {
+    const { dialect, calls } = dialectFor({});
+
+    await expect(dialect.listRecordsPage('spc1', 'dst1', { filterByFormula: '{Bad' })).rejects.toThrow('no fixture');
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe('airtable dialect requests', () => {
+  it('pages by offset and writes fields as they are', async () => {
+    const { request, calls } = fixtureApi(loadFixtures('airtable'));
+    const dialect = createApiDialect('airtable', request, async () => undefined);
+
+    await dialect.listRecordsPage('spc1', 'dst1', {
+      pageToken: 'itr1', sort: [{ field: 'Due', direction: 'desc' }], viewId: 'viw1', fieldKey: 'id',
+    });
+    await dialect.createField('spc1', 'dst1', { name: 'Email', type: 'Email', options: { precision: 0 } });
+
+    expect(calls[0].path).toBe('/v0/spc1/dst1/records');
+    expect(Object.fromEntries(calls[0].params)).toEqual({
+      offset: 'itr1', 'sort[0][field]': 'Due', 'sort[0][direction]': 'desc', view: 'viw1', returnFieldsByFieldId: 'true',
+    });
+    expect(calls[1].body).toEqual({ name: 'Email', type: 'Email', options: { precision: 0 } });
+  });
+});
+
+describe('fusion dialect requests', () => {
+  it('pages by number, and calls descriptions desc and options property', async () => {
+    const { request, calls } = fixtureApi(loadFixtures('fusion'));
+    const dialect = createApiDialect('fusion', request, async () => undefined);
+
+    await dialect.listRecordsPage('spc1', 'dst1', {
+      pageToken: '3', maxRecords: 5000, sort: [{ field: 'Due', direction: 'desc' }], viewId: 'viw1', fieldKey: 'id',
+    });
+    await dialect.updateField('spc1', 'dst1', 'fld3', { description: 'Work email', options: { precision: 0 } });
+
+    expect(calls[0].path).toBe('/datasheets/dst1/records');
+    expect(Object.fromEntries(calls[0].params)).toEqual({
+      pageSize: '1000', maxRecords: '5000', pageNum: '3', 'sort[0][field]': 'Due', 'sort[0][order]': 'desc', viewId: 'viw1', fieldKey: 'id',
+    });
+    expect(calls[1].body).toEqual({ desc: 'Work email', property: { precision: 0 } });
+    await expect(dialect.listRecordsPage('spc1', 'dst1', { pageToken: 'itr1' })).rejects.toThrow('Invalid page token');
+  });
+
+  it('looks single records up by ID with a formula', async () => {
+    const fixtures = loadFixtures('fusion');
+    const { request, calls } = fixtureApi(fixtures);
+    const dialect = createApiDialect('fusion', request, async () => undefined);
+
+    await dialect.getRecord('spc1', 'dst1', 'rec1');
+    expect(calls[0].params.get('filterByFormula')).toBe('RECORD_ID()="rec1"');
+
+    const empty = fixtureApi({
+      ...fixtures,
+      'GET /datasheets/dst1/records': {
+        success: true, code: 200, message: 'SUCCESS', data: { records: [], pageNum: 1, pageSize: 1 },
+      },
+    });
+    await expect(createApiDialect('fusion', empty.request, async () => undefined).getRecord('spc1', 'dst1', 'rec9'))
+      .rejects.toThrow('Record rec9 not found in datasheet dst1');
+  });
+
+  it('leaves out datasheets without details', async () => {
+    const { request } = fixtureApi(loadFixtures('fusion'));
+    const dialect = createApiDialect('fusion', request, async () => undefined);
+
+    expect((await dialect.getBaseSchema('spc1')).tables).toEqual([]);
+  });
+});
+
+describe('fusion dialect schema', () => {
+  it('warns the calling client of a datasheet left out of the schema', async () => {
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const notify = vi.fn();
+    const dialect = createApiDialect('fusion', fixtureApi(loadFixtures('fusion')).request, async () => {
+      throw new TimeoutError('aitable-mcp-server: Request timed out');
+    });
+
+    try {
+      const schema = await runInCallContext({ requestId: 'req1', notify }, () => dialect.getBaseSchema('spc1'));
+      expect(schema.tables).toEqual([]);
+    } finally {
+      stderr.mockRestore();
+    }
+
+    expect(notify).toHaveBeenCalledWith('warn', expect.objectContaining({
+      msg: 'Left a datasheet out of the schema, as its details could not be read', datasheetId: 'dst1',
+    }));
+  });
+});
+
+describe('detectApiDialect', () => {
+  it('picks the first API that lists spaces', async () => {
+    expect(await detectApiDialect(fixtureApi(loadFixtures('airtable')).request)).toBe('airtable');
+    expect(await detectApiDialect(fixtureApi(loadFixtures('fusion')).request)).toBe('fusion');
+  });
+
+  it('only falls back to fusion when the Airtable-compatible API is missing', async () => {
+    const api = fixtureApi(loadFixtures('fusion'));
+    const calls: string[] = [];
+    const request: ApiRequest = async (endpoint, schema, init) => {
+      calls.push(endpoint);
+      if (endpoint.startsWith('/v0/')) {
+        throw new TimeoutError('aitable-mcp-server: Request timed out');
+      }
+      return api.request(endpoint, schema, init);
+    };
+
+    await expect(detectApiDialect(request)).rejects.toBeInstanceOf(TimeoutError);
+    expect(calls).toEqual(['/v0/meta/bases']);
+  });
+
+  it('reports both errors when neither answers', async () => {
+    await expect(detectApiDialect(fixtureApi({}).request))
+      .rejects.toThrow(/Airtable-compatible: .*GET \/v0\/meta\/bases.*Fusion: .*GET \/spaces/);
+  });
+});
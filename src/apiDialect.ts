@@ -0,0 +1,89 @@
+import type { RequestInit } from 'node-fetch';
+import type { z } from 'zod';
+import type {
+  AITableRecord,
+  ApiDialectName,
+  BaseSchemaResponse,
+  Field,
+  FieldChanges,
+  ListBasesResponse,
+  ListRecordsOptions,
+  ListRecordsPage,
+  Table,
+} from './types.js';
+import { AirtableDialect } from './airtableDialect.js';
+import { FusionDialect } from './fusionDialect.js';
+import {
+  AITableError, AuthError, NotFoundError, UpstreamError, ValidationError,
+} from './errors.js';
+
+/**
+ * Sends a request to an API endpoint and validates the response
+ */
+export type ApiRequest = <T>(endpoint: string, schema: z.ZodSchema<T>, options?: RequestInit) => Promise<T>;
+
+/**
+ * Fields and views of a datasheet, or undefined to leave it out of a base schema
+ */
+export type DatasheetDetails = (spaceId: string, datasheetId: string) => Promise<Pick<Table, 'fields' | 'views'> | undefined>;
+
+/**
+ * The requests that differ between the Airtable-compatible API and the
+ * AITable fusion API, mapped to and from the shapes the server uses. Requests
+ * both APIs share, such as record writes, stay in the service.
+ */
+export interface ApiDialect {
+  readonly name: ApiDialectName;
+  listBases(): Promise<ListBasesResponse>;
+  getBaseSchema(baseId: string): Promise<BaseSchemaResponse>;
+  listRecordsPage(baseId: string, tableId: string, options: ListRecordsOptions): Promise<ListRecordsPage>;
+  getRecord(baseId: string, tableId: string, recordId: string): Promise<AITableRecord>;
+  searchRecords(baseId: string, tableId: string, searchTerm: string, fieldIds?: string[], maxRecords?: number): Promise<AITableRecord[]>;
+  createField(baseId: string, tableId: string, field: Omit<Field, 'id'>): Promise<Field>;
+  updateField(baseId: string, tableId: string, fieldId: string, updates: FieldChanges): Promise<Field>;
+}
+
+export function createApiDialect(name: ApiDialectName, request: ApiRequest, datasheetDetails: DatasheetDetails): ApiDialect {
+  return name === 'airtable' ? new AirtableDialect(request) : new FusionDialect(request, datasheetDetails);
+}
+
+// Statuses that show a server has no such endpoint, rather than failing for now
+const UNSUPPORTED_STATUSES = [400, 404, 405];
+
+/**
+ * Whether the Airtable-compatible probe failed because the server doesn't
+ * have that API, as opposed to a timeout, rate limit or server error
+ */
+function isUnsupported(error: unknown): boolean {
+  return error instanceof NotFoundError
+    || error instanceof ValidationError
+    || (error instanceof AITableError && UNSUPPORTED_STATUSES.includes(error.status ?? 0));
+}
+
+/**
+ * Works out which API a server speaks by listing spaces through each in
+ * turn. Only tries fusion if the server has no Airtable-compatible API; any
+ * other failure is thrown as it is, so the probe runs again next time. Fails
+ * with both errors if neither answers, as an AuthError if either rejected the
+ * API key
+ */
+export async function detectApiDialect(request: ApiRequest): Promise<ApiDialectName> {
+  try {
+    await new AirtableDialect(request).listBases();
+    return 'airtable';
+  } catch (airtableError) {
+    if (!isUnsupported(airtableError)) {
+      throw airtableError;
+    }
+    try {
+      await new FusionDialect(request, async () => undefined).listBases();
+      return 'fusion';
+    } catch (fusionError) {
+      const message = (error: unknown) => (error instanceof Error ? error.message : String(error));
+      const summary = `aitable-mcp-server: Could not reach the API as either dialect. Airtable-compatible: ${message(airtableError)}. Fusion: ${message(fusionError)}`;
+      throw [airtableError, fusionError].some((error) => error instanceof AuthError)
+        ? new AuthError(summary)
+        : new UpstreamError(summary, { remediation: 'Check the API base URL, or set AITABLE_API_DIALECT to the API the server speaks.' });
+    }
+  }
+}
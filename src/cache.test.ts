@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TtlCache } from './cache.js';
+import { currentCall, reportProgress, runInCallContext } from './callContext.js';
+
+describe('TtlCache', () => {
+  it('reuses a value until it expires', async () => {
+    let now = 0;
+    const cache = new TtlCache<number>(1000, () => now);
+    const load = vi.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+    expect(await cache.getOrLoad('a', load)).toBe(1);
+    now = 999;
+    expect(await cache.getOrLoad('a', load)).toBe(1);
+    now = 1000;
+    expect(await cache.getOrLoad('a', load)).toBe(2);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one in-flight load between concurrent callers', async () => {
+    const cache = new TtlCache<string>(1000);
+    const load = vi.fn().mockResolvedValue('tree');
+
+    await Promise.all([cache.getOrLoad('spc1', load), cache.getOrLoad('spc1', load)]);
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs a shared load apart from the call that started it, and cancels each caller on its own', async () => {
+    const cache = new TtlCache<string>(1000);
+    let finish: (value: string) => void = () => undefined;
+    let report: (done: number) => void = () => undefined;
+    const load = vi.fn(() => {
+      const call = currentCall();
+      report = (done) => runInCallContext(call!, () => reportProgress(done, 2));
+      return new Promise<string>((resolve) => {
+        finish = resolve;
+      });
+    });
+    const first = { controller: new AbortController(), progress: vi.fn() };
+    const second = { controller: new AbortController(), progress: vi.fn() };
+
+    const firstCall = runInCallContext({ requestId: 'req1', signal: first.controller.signal, progress: first.progress }, () => cache.getOrLoad('spc1', async () => {
+      expect(currentCall()?.signal).toBeUndefined();
+      return load();
+    }));
+    const secondCall = runInCallContext({ requestId: 'req2', signal: second.controller.signal, progress: second.progress }, () => cache.getOrLoad('spc1', load));
+    await Promise.resolve();
+    report(1);
+    first.controller.abort();
+
+    await expect(firstCall).rejects.toThrow('cancelled');
+    report(2);
+    finish('tree');
+    expect(await secondCall).toBe('tree');
+    expect(await cache.getOrLoad('spc1', load)).toBe('tree');
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(first.progress.mock.calls).toEqual([[1, 2, undefined]]);
+    expect(second.progress.mock.calls).toEqual([[1, 2, undefined], [2, 2, undefined]]);
+  });
+
+  it('does not cache failures', async () => {
+    const cache = new TtlCache<string>(1000);
+    const load = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValueOnce('ok');
+
+    await expect(cache.getOrLoad('a', load)).rejects.toThrow('boom');
+    expect(await cache.getOrLoad('a', load)).toBe('ok');
+  });
+
+  it('always loads when the TTL is 0', async () => {
+    const cache = new TtlCache<number>(0);
+    const load = vi.fn().mockResolvedValue(1);
+
+    await cache.getOrLoad('a', load);
+    await cache.getOrLoad('a', load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
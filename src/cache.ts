@@ -0,0 +1,77 @@
+import {
+  currentCall, newRequestId, runInCallContext, sharedCallContext, untilCancelled,
+} from './callContext.js';
+import type { CallContext } from './callContext.js';
+
+/**
+ * A small in-process cache whose entries expire after a fixed time-to-live.
+ * Concurrent loads of the same key share a single in-flight request, and
+ * failed loads are never cached.
+ */
+export class TtlCache<T> {
+  private readonly entries = new Map<string, { value: Promise<T>; expiresAt: number; waiters: Set<CallContext> }>();
+
+  /**
+   * @param ttlMs How long entries stay fresh, in milliseconds. 0 disables caching
+   * @param now Clock to use, overridable for tests
+   */
+  constructor(
+    private readonly ttlMs: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Returns the cached value for a key, loading and caching it if missing or
+   * expired. A load is shared by every caller, so it runs in a context of its
+   * own: each caller hears its progress and log lines while waiting, and stops
+   * waiting when its own call is cancelled
+   */
+  async getOrLoad(key: string, load: () => Promise<T>): Promise<T> {
+    if (this.ttlMs <= 0) {
+      return load();
+    }
+
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > this.now()) {
+      return TtlCache.wait(entry.value, entry.waiters);
+    }
+
+    const waiters = new Set<CallContext>();
+    const value = runInCallContext(sharedCallContext(currentCall()?.requestId ?? newRequestId(), waiters), load);
+    this.entries.set(key, { value, expiresAt: this.now() + this.ttlMs, waiters });
+    value.catch(() => {
+      // Only evict our own entry, in case it was replaced while loading
+      if (this.entries.get(key)?.value === value) {
+        this.entries.delete(key);
+      }
+    });
+
+    return TtlCache.wait(value, waiters);
+  }
+
+  /**
+   * Waits for a value as the current call, which hears from the load until
+   * the value arrives or the call is cancelled
+   */
+  private static async wait<V>(value: Promise<V>, waiters: Set<CallContext>): Promise<V> {
+    const call = currentCall();
+    if (call) {
+      waiters.add(call);
+    }
+    try {
+      return await untilCancelled(value);
+    } finally {
+      if (call) {
+        waiters.delete(call);
+      }
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,92 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { CancelledError } from './errors.js';
+
+/**
+ * What code running for a tool call knows about the call, however deep in
+ * the service it is
+ */
+export interface CallContext {
+  /** Tags every log line of the call, down to the API requests it makes */
+  requestId: string;
+  /** Aborted when the client cancels the call */
+  signal?: AbortSignal;
+  /** Sends a log line to the client that made the call */
+  notify?: (level: 'debug' | 'info' | 'warn' | 'error', data: Record<string, unknown>) => void;
+  /** Tells the client how far the call has got, if it asked to be told */
+  progress?: (progress: number, total?: number, message?: string) => void;
+}
+
+const callContext = new AsyncLocalStorage<CallContext>();
+
+export function newRequestId(): string {
+  return randomUUID().slice(0, 8);
+}
+
+export function runInCallContext<T>(context: CallContext, fn: () => T): T {
+  return callContext.run(context, fn);
+}
+
+export function currentCall(): CallContext | undefined {
+  return callContext.getStore();
+}
+
+/**
+ * Reports progress on the current call. Does nothing outside a call, or when
+ * the client didn't ask for progress
+ */
+export function reportProgress(progress: number, total?: number, message?: string): void {
+  currentCall()?.progress?.(progress, total, message);
+}
+
+/**
+ * Stops work on a call the client has cancelled
+ */
+export function throwIfCancelled(): void {
+  if (currentCall()?.signal?.aborted) {
+    throw new CancelledError('aitable-mcp-server: The call was cancelled');
+  }
+}
+
+/**
+ * Waits for work shared with other calls, giving up if the current call is
+ * cancelled while the work carries on for the others
+ */
+export function untilCancelled<T>(work: Promise<T>): Promise<T> {
+  const signal = currentCall()?.signal;
+  if (!signal) {
+    return work;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const cancel = () => reject(new CancelledError('aitable-mcp-server: The call was cancelled'));
+    if (signal.aborted) {
+      cancel();
+      return;
+    }
+    signal.addEventListener('abort', cancel, { once: true });
+    work.then((value) => {
+      signal.removeEventListener('abort', cancel);
+      resolve(value);
+    }, (error) => {
+      signal.removeEventListener('abort', cancel);
+      reject(error);
+    });
+  });
+}
+
+/**
+ * A context for work that several calls wait on. No one call's abort signal
+ * stops it, and the progress and client log lines it reports go to every call
+ * waiting on it at the time
+ */
+export function sharedCallContext(requestId: string, waiters: Set<CallContext>): CallContext {
+  return {
+    requestId,
+    notify: (level, data) => {
+      waiters.forEach((waiter) => waiter.notify?.(level, data));
+    },
+    progress: (progress, total, message) => {
+      waiters.forEach((waiter) => waiter.progress?.(progress, total, message));
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  coerceFieldSet, coerceFieldValue, matchSelectOption, parseDate, parseLocalizedNumber,
+} from './coercion.js';
+import { ValidationError } from './errors.js';
+import type { Field } from './types.js';
+
+const fields: Field[] = [
+  { id: 'fldName', name: 'Name', type: 'SingleText' },
+  { id: 'fldDue', name: 'Due', type: 'DateTime' },
+  { id: 'fldCost', name: 'Cost', type: 'Currency' },
+  { id: 'fldPriority', name: 'Priority', type: 'SingleSelect', options: { options: [{ name: 'high' }, { name: 'low' }, { name: 'In Progress' }] } },
+  { id: 'fldTags', name: 'Tags', type: 'MultiSelect', options: { options: [{ name: 'urgent' }, { name: 'later' }] } },
+  { id: 'fldDone', name: 'Done', type: 'Checkbox' },
+  { id: 'fldProject', name: 'Project', type: 'OneWayLink' },
+];
+
+const field = (name: string) => fields.find((candidate) => candidate.name === name)!;
+
+describe('parseLocalizedNumber', () => {
+  it('reads grouped thousands, decimal commas, currency and percentages', () => {
+    expect(parseLocalizedNumber('1,200')).toBe(1200);
+    expect(parseLocalizedNumber('1.200,50')).toBe(1200.5);
+    expect(parseLocalizedNumber('1,200.50')).toBe(1200.5);
+    expect(parseLocalizedNumber('12,5')).toBe(12.5);
+    expect(parseLocalizedNumber('$ 99')).toBe(99);
+    expect(parseLocalizedNumber('1 000 €')).toBe(1000);
+    expect(parseLocalizedNumber('15%')).toBe(0.15);
+    expect(parseLocalizedNumber('-3')).toBe(-3);
+    expect(parseLocalizedNumber('lots')).toBeUndefined();
+  });
+});
+
+describe('parseDate', () => {
+  it('reads dates, date-times and timestamps', () => {
+    expect(parseDate('2025-03-01')).toBe(Date.UTC(2025, 2, 1));
+    expect(parseDate('2025-03-01T12:30:00Z')).toBe(Date.UTC(2025, 2, 1, 12, 30));
+    expect(parseDate('1740787200')).toBe(1740787200000);
+    expect(parseDate('someday')).toBeUndefined();
+  });
+
+  it('only reads ISO 8601, and takes date-times without an offset as UTC unless one is required', () => {
+    expect(parseDate('2025-03-01 12:30+02:00')).toBe(Date.UTC(2025, 2, 1, 10, 30));
+    expect(parseDate('2025-03-01T12:30:00.5')).toBe(Date.UTC(2025, 2, 1, 12, 30, 0, 500));
+    expect(parseDate('2025-03-01T12:30', true)).toBeUndefined();
+    expect(parseDate('March 5')).toBeUndefined();
+    expect(parseDate('03/05/2025')).toBeUndefined();
+    expect(parseDate('2025-02-30')).toBeUndefined();
+  });
+});
+
+describe('matchSelectOption', () => {
+  it('ignores case and punctuation, then allows a couple of typos', () => {
+    expect(matchSelectOption('High', ['high', 'low'])).toBe('high');
+    expect(matchSelectOption('in-progress', ['In Progress', 'Done'])).toBe('In Progress');
+    expect(matchSelectOption('hihg', ['high', 'low'])).toBe('high');
+    expect(matchSelectOption('medium', ['high', 'low'])).toBeUndefined();
+  });
+});
+
+describe('coerceFieldValue', () => {
+  it('leaves values alone when coercion is off', () => {
+    expect(coerceFieldValue(field('Due'), '2025-03-01', 'off')).toEqual({ value: '2025-03-01' });
+  });
+
+  it('explains each change', () => {
+    expect(coerceFieldValue(field('Due'), '2025-03-01', 'lenient'))
+      .toEqual({ value: Date.UTC(2025, 2, 1), reason: 'parsed date as 2025-03-01T00:00:00.000Z' });
+    expect(coerceFieldValue(field('Cost'), '1,200', 'lenient')).toEqual({ value: 1200, reason: 'parsed number' });
+    expect(coerceFieldValue(field('Done'), 'yes', 'lenient')).toEqual({ value: true, reason: 'parsed checkbox' });
+    expect(coerceFieldValue(field('Project'), 'recA', 'lenient')).toEqual({ value: ['recA'], reason: 'wrapped a single value in a list' });
+    expect(coerceFieldValue(field('Tags'), 'Urgent', 'lenient'))
+      .toEqual({ value: ['urgent'], reason: 'wrapped a single value in a list, matched option "urgent"', problem: undefined });
+  });
+
+  it('refuses to guess select options in strict mode but still parses numbers', () => {
+    expect(coerceFieldValue(field('Priority'), 'High', 'strict').problem).toContain('did you mean "high"?');
+    expect(coerceFieldValue(field('Cost'), '12,5', 'strict').value).toBe(12.5);
+  });
+
+  it('refuses loosely written dates, and date-times without a timezone in strict mode', () => {
+    expect(coerceFieldValue(field('Due'), 'March 5', 'lenient').problem).toContain('needs a date, got "March 5"');
+    expect(coerceFieldValue(field('Due'), '2025-03-05T09:00', 'strict').problem).toContain('with a timezone');
+    expect(coerceFieldValue(field('Due'), '2025-03-05T09:00', 'lenient').value).toBe(Date.UTC(2025, 2, 5, 9));
+    expect(() => coerceFieldSet(fields, { Due: 'March 5' }, 'lenient', 'dst1')).toThrow(ValidationError);
+  });
+
+  it('refuses a single separator followed by three digits in strict mode', () => {
+    expect(coerceFieldValue(field('Cost'), '1.200', 'strict').problem).toContain('needs a number, got "1.200"');
+    expect(coerceFieldValue(field('Cost'), '12,500', 'strict').problem).toContain('needs a number, got "12,500"');
+    expect(coerceFieldValue(field('Cost'), '1,200,000', 'strict').value).toBe(1200000);
+    expect(coerceFieldValue(field('Cost'), '1.200,50', 'strict').value).toBe(1200.5);
+    expect(coerceFieldValue(field('Cost'), '12,500', 'lenient').value).toBe(12500);
+    expect(() => coerceFieldSet(fields, { Cost: '1.200' }, 'strict', 'dst1')).toThrow(ValidationError);
+  });
+});
+
+describe('coerceFieldSet', () => {
+  it('returns the coerced payload and the changes made', () => {
+    const result = coerceFieldSet(fields, { Name: 'Ada', Priority: 'HIGH', Cost: '15%' }, 'lenient', 'dst1');
+    expect(result.fields).toEqual({ Name: 'Ada', Priority: 'high', Cost: 0.15 });
+    expect(result.coercions).toEqual([
+      {
+        field: 'Priority', from: 'HIGH', to: 'high', reason: 'matched option "high"',
+      },
+      {
+        field: 'Cost', from: '15%', to: 0.15, reason: 'parsed number',
+      },
+    ]);
+  });
+
+  it('throws in strict mode when an option would have to be guessed', () => {
+    expect(() => coerceFieldSet(fields, { Priority: 'High' }, 'strict', 'dst1')).toThrow('datasheet dst1');
+  });
+});
@@ -0,0 +1,281 @@
+import type {
+  Coercion, CoercionMode, Field, FieldSet,
+} from './types.js';
+import { fieldValueKind, selectOptionNames } from './fieldValues.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * Result of coercing one value: the value to write, and why it changed if it did
+ */
+interface CoercedValue {
+  value: unknown;
+  reason?: string;
+  /** Set when the value can't be written as is and shouldn't be guessed at */
+  problem?: string;
+}
+
+// Select option names that differ by more than this many edits aren't matched
+const MAX_OPTION_DISTANCE = 2;
+
+/**
+ * Lowercases and drops everything but letters and digits, so "In Progress",
+ * "in-progress" and "IN_PROGRESS" compare equal
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  [...a].forEach((charA, i) => {
+    const current = [i + 1];
+    [...b].forEach((charB, j) => {
+      current.push(Math.min(previous[j + 1] + 1, current[j] + 1, previous[j] + (charA === charB ? 0 : 1)));
+    });
+    previous = current;
+  });
+  return previous[b.length];
+}
+
+/**
+ * Finds the option a loosely written name most likely means: one that is
+ * equal once case and punctuation are ignored, or else the only closest
+ * option within MAX_OPTION_DISTANCE edits
+ */
+export function matchSelectOption(name: string, optionNames: string[]): string | undefined {
+  const normalized = normalizeName(name);
+  const equal = optionNames.filter((option) => normalizeName(option) === normalized);
+  if (equal.length === 1) {
+    return equal[0];
+  }
+
+  const distances = optionNames.map((option) => ({ option, distance: editDistance(normalizeName(option), normalized) }));
+  const best = Math.min(...distances.map(({ distance }) => distance));
+  const closest = distances.filter(({ distance }) => distance === best);
+  return best <= MAX_OPTION_DISTANCE && closest.length === 1 ? closest[0].option : undefined;
+}
+
+/**
+ * Parses numbers as people write them: "1,200", "1.200,50", "12,5", "$ 99",
+ * and percentages like "15%", which become 0.15. With `refuseAmbiguous` set,
+ * a single separator followed by exactly three digits, as in "1.200" or
+ * "12,500", is refused, since it may group thousands or mark decimals
+ */
+export function parseLocalizedNumber(text: string, refuseAmbiguous = false): number | undefined {
+  let cleaned = text.trim().replace(/[\s'_]/g, '').replace(/^[^\d+\-.,]+|[^\d%.,]+$/g, '');
+  const isPercent = cleaned.endsWith('%');
+  cleaned = cleaned.replace(/%$/, '');
+  if (refuseAmbiguous && /^[+-]?\d+[.,]\d{3}$/.test(cleaned)) {
+    return undefined;
+  }
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Whichever separator comes last is the decimal point
+    cleaned = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastComma !== -1) {
+    // "1,200" and "1,200,000" group thousands; "12,5" has a decimal comma
+    cleaned = /^[+-]?\d{1,3}(,\d{3})+$/.test(cleaned) ? cleaned.replace(/,/g, '') : cleaned.replace(',', '.');
+  } else if (/^[+-]?\d{1,3}(\.\d{3}){2,}$/.test(cleaned)) {
+    // "1.200.000" can only be grouped thousands
+    cleaned = cleaned.replace(/\./g, '');
+  }
+
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(cleaned)) {
+    return undefined;
+  }
+  const parsed = Number(cleaned);
+  return isPercent ? parsed / 100 : parsed;
+}
+
+// ISO 8601 dates and date-times, with a "T" or a space before the time and an optional UTC offset
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+/**
+ * Minutes east of UTC of an ISO 8601 offset such as "Z", "+02:00" or "-0530"
+ */
+function offsetMinutes(offset: string): number {
+  if (offset.toUpperCase() === 'Z') {
+    return 0;
+  }
+  const digits = offset.slice(1).replace(':', '');
+  const minutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2));
+  return offset.startsWith('-') ? -minutes : minutes;
+}
+
+/**
+ * Parses an ISO 8601 date or date-time, or a Unix timestamp in seconds or
+ * milliseconds, to a Unix timestamp in milliseconds. Dates without a time are
+ * taken as midnight UTC, and so are date-times without an offset unless
+ * `requireOffset` is set. Anything else, such as "March 5", is refused rather
+ * than guessed at
+ */
+export function parseDate(text: string, requireOffset = false): number | undefined {
+  const trimmed = text.trim();
+  if (/^\d{10,13}$/.test(trimmed)) {
+    return trimmed.length === 13 ? Number(trimmed) : Number(trimmed) * 1000;
+  }
+
+  const match = ISO_DATE_PATTERN.exec(trimmed);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hour, minute, second, millisecond, offset] = match;
+  if (hour !== undefined && offset === undefined && requireOffset) {
+    return undefined;
+  }
+  const parts = [year, month, day, hour, minute, second, millisecond?.padEnd(3, '0')].map((part) => Number(part ?? 0));
+  const local = Date.UTC(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5], parts[6]);
+
+  // Date.UTC rolls 2025-02-30 over into March, so check nothing overflowed
+  const date = new Date(local);
+  if (date.getUTCFullYear() !== parts[0] || date.getUTCMonth() !== parts[1] - 1 || date.getUTCDate() !== parts[2]
+    || parts[3] > 23 || parts[4] > 59 || parts[5] > 59) {
+    return undefined;
+  }
+  return local - offsetMinutes(offset ?? 'Z') * 60 * 1000;
+}
+
+function coerceSelect(field: Field, name: unknown, mode: CoercionMode): CoercedValue {
+  const optionNames = selectOptionNames(field);
+  if (typeof name !== 'string' || !optionNames || optionNames.includes(name)) {
+    return { value: name };
+  }
+
+  const match = matchSelectOption(name, optionNames);
+  if (match === undefined) {
+    return { value: name };
+  }
+  if (mode === 'strict') {
+    return {
+      value: name,
+      problem: `Field "${field.name}" (${field.type}) has no option "${name}"; did you mean "${match}"? Strict coercion doesn't correct option names`,
+    };
+  }
+  return { value: match, reason: `matched option "${match}"` };
+}
+
+/**
+ * Wraps a single value in an array for fields that take a list
+ */
+function asList(value: unknown): CoercedValue {
+  return Array.isArray(value) ? { value } : { value: [value], reason: 'wrapped a single value in a list' };
+}
+
+/**
+ * Coerces one value towards the shape its field expects. Values that can't be
+ * coerced are returned unchanged, for validation to report.
+ */
+export function coerceFieldValue(field: Field, value: unknown, mode: CoercionMode): CoercedValue {
+  const kind = fieldValueKind(field);
+  if (mode === 'off' || value === null || value === undefined || kind === undefined || kind === 'computed') {
+    return { value };
+  }
+
+  switch (kind) {
+    case 'text':
+      return typeof value === 'number' || typeof value === 'boolean'
+        ? { value: String(value), reason: 'converted to text' }
+        : { value };
+    case 'number':
+    case 'rating': {
+      if (typeof value !== 'string') {
+        return { value };
+      }
+      // Strict coercion won't guess whether "1.200" means 1.2 or 1200
+      const parsed = parseLocalizedNumber(value, mode === 'strict');
+      if (parsed === undefined && mode === 'strict' && parseLocalizedNumber(value) !== undefined) {
+        return {
+          value,
+          problem: `Field "${field.name}" (${field.type}) needs a number, got "${value}", which could mean thousands or a decimal. Write it without grouping (1200), or with a decimal point (1.2)`,
+        };
+      }
+      return parsed === undefined ? { value } : { value: parsed, reason: 'parsed number' };
+    }
+    case 'dateTime': {
+      if (typeof value !== 'string') {
+        return { value };
+      }
+      // Strict coercion won't guess the timezone of a date-time
+      const parsed = parseDate(value, mode === 'strict');
+      if (parsed === undefined) {
+        return {
+          value,
+          problem: `Field "${field.name}" (${field.type}) needs a date, got "${value}". Use an ISO 8601 date (2025-03-05) or date-time${mode === 'strict' ? ' with a timezone' : ''} (2025-03-05T09:00:00Z), or a Unix timestamp`,
+        };
+      }
+      return { value: parsed, reason: `parsed date as ${new Date(parsed).toISOString()}` };
+    }
+    case 'checkbox': {
+      const text = typeof value === 'string' ? value.trim().toLowerCase() : undefined;
+      if (text !== undefined && ['true', 'yes', 'y', '1', 'checked'].includes(text)) {
+        return { value: true, reason: 'parsed checkbox' };
+      }
+      if (text !== undefined && ['false', 'no', 'n', '0', 'unchecked', ''].includes(text)) {
+        return { value: false, reason: 'parsed checkbox' };
+      }
+      return { value };
+    }
+    case 'singleSelect':
+      return coerceSelect(field, value, mode);
+    case 'multiSelect': {
+      const list = asList(value);
+      const items = (list.value as unknown[]).map((item) => coerceSelect(field, item, mode));
+      const reasons = [list.reason, ...items.map((item) => item.reason)].filter((reason) => reason !== undefined);
+      return {
+        value: items.map((item) => item.value),
+        reason: reasons.length > 0 ? reasons.join(', ') : undefined,
+        problem: items.find((item) => item.problem !== undefined)?.problem,
+      };
+    }
+    case 'link':
+    case 'member':
+    case 'attachment':
+      return asList(value);
+    default:
+      return { value };
+  }
+}
+
+/**
+ * Coerces every value in a fields payload, keyed by exact field name. Returns
+ * the coerced payload and a note for each value that changed. Throws if strict
+ * coercion refused to correct a value.
+ */
+export function coerceFieldSet(
+  fields: Field[],
+  fieldSet: FieldSet,
+  mode: CoercionMode,
+  datasheetId: string,
+): { fields: FieldSet; coercions: Coercion[] } {
+  const fieldsByName = new Map(fields.map((field) => [field.name, field]));
+  const coerced: FieldSet = {};
+  const coercions: Coercion[] = [];
+  const problems: string[] = [];
+
+  Object.entries(fieldSet).forEach(([name, value]) => {
+    const field = fieldsByName.get(name);
+    const result: CoercedValue = field ? coerceFieldValue(field, value, mode) : { value };
+    coerced[name] = result.value;
+    if (result.reason) {
+      coercions.push({
+        field: name, from: value, to: result.value, reason: result.reason,
+      });
+    }
+    if (result.problem) {
+      problems.push(result.problem);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new ValidationError(`aitable-mcp-server: Invalid field values for datasheet ${datasheetId}: ${problems.join('; ')}`);
+  }
+
+  return { fields: coerced, coercions };
+}
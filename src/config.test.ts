@@ -0,0 +1,106 @@
+import { describe, test, expect } from 'vitest';
+import { loadConfig } from './config.js';
+
+describe('loadConfig', () => {
+  test('reads the API key from the environment before the first argument', () => {
+    expect(loadConfig(['key-from-args'], { AITABLE_API_KEY: 'key-from-env' }).apiKey).toBe('key-from-env');
+    expect(loadConfig(['--dry-run', 'key-from-args'], {}).apiKey).toBe('key-from-args');
+  });
+
+  test('enables dry-run mode from the flag or the environment', () => {
+    expect(loadConfig([], {}).dryRun).toBe(false);
+    expect(loadConfig(['--dry-run'], {}).dryRun).toBe(true);
+    expect(loadConfig([], { AITABLE_DRY_RUN: 'TRUE' }).dryRun).toBe(true);
+    expect(loadConfig([], { AITABLE_DRY_RUN: 'no' }).dryRun).toBe(false);
+  });
+
+  test('prefers the delete confirmation flag over the environment', () => {
+    expect(loadConfig([], {}).deleteConfirmationThreshold).toBeUndefined();
+    expect(loadConfig([], { AITABLE_DELETE_CONFIRM_THRESHOLD: '50' }).deleteConfirmationThreshold).toBe(50);
+    expect(loadConfig(['--delete-confirm-threshold', '5'], { AITABLE_DELETE_CONFIRM_THRESHOLD: '50' }).deleteConfirmationThreshold).toBe(5);
+  });
+
+  test('reads read-only mode and access lists', () => {
+    const config = loadConfig(['--read-only', '--deny-datasheets', 'dst1, dst2'], {
+      AITABLE_DENIED_DATASHEETS: 'dst9',
+      AITABLE_ALLOWED_SPACES: 'spc1',
+      AITABLE_ALLOWED_TOOLS: '',
+    });
+
+    expect(config.access).toEqual({
+      readOnly: true,
+      allowedTools: [],
+      deniedTools: undefined,
+      allowedSpaces: ['spc1'],
+      deniedSpaces: undefined,
+      allowedDatasheets: undefined,
+      deniedDatasheets: ['dst1', 'dst2'],
+    });
+  });
+
+  test('reads the coercion mode and rejects unknown ones', () => {
+    expect(loadConfig([], {}).coerce).toBe('off');
+    expect(loadConfig(['--coerce', 'strict'], { AITABLE_COERCE: 'lenient' }).coerce).toBe('strict');
+    expect(loadConfig([], { AITABLE_COERCE: 'lenient' }).coerce).toBe('lenient');
+    expect(() => loadConfig([], { AITABLE_COERCE: 'maybe' })).toThrow('Coercion mode');
+  });
+
+  test('reads the API dialect and rejects unknown ones', () => {
+    expect(loadConfig([], {}).apiDialect).toBe('auto');
+    expect(loadConfig(['--api-dialect', 'fusion'], { AITABLE_API_DIALECT: 'airtable' }).apiDialect).toBe('fusion');
+    expect(loadConfig([], { AITABLE_API_DIALECT: 'airtable' }).apiDialect).toBe('airtable');
+    expect(() => loadConfig([], { AITABLE_API_DIALECT: 'apitable' })).toThrow('API dialect');
+  });
+
+  test('reads the snapshot and export directories', () => {
+    expect(loadConfig([], { AITABLE_SNAPSHOT_DIR: '/var/snapshots' }).snapshotDir).toBe('/var/snapshots');
+    expect(loadConfig(['--snapshot-dir', './snaps'], { AITABLE_SNAPSHOT_DIR: '/var/snapshots' }).snapshotDir).toBe('./snaps');
+    expect(loadConfig([], { AITABLE_EXPORT_DIR: '/var/exports' }).exportDir).toBe('/var/exports');
+    expect(loadConfig(['--export-dir', './out'], { AITABLE_EXPORT_DIR: '/var/exports' }).exportDir).toBe('./out');
+  });
+
+  test('confines imports to a directory when configured, and always over HTTP', () => {
+    expect(loadConfig([], {}).importDir).toBeUndefined();
+    expect(loadConfig(['--import-dir', './in'], {}).importDir).toBe('./in');
+    expect(loadConfig(['--transport', 'http'], {}).importDir).toMatch(/imports$/);
+    expect(loadConfig(['--transport', 'http'], { AITABLE_IMPORT_DIR: '/srv/in' }).importDir).toBe('/srv/in');
+  });
+
+  test('defaults to stdio and reads HTTP settings for the http transport', () => {
+    expect(loadConfig([], {}).transport).toBe('stdio');
+
+    const config = loadConfig(['--transport', 'http', '--port', '8080'], {
+      AITABLE_HTTP_HOST: '0.0.0.0',
+      AITABLE_HTTP_PORT: '9000',
+      AITABLE_HTTP_AUTH_TOKEN: 'secret',
+      AITABLE_HTTP_SESSION_TIMEOUT: '600',
+    });
+    expect(config.transport).toBe('http');
+    expect(config.http).toEqual({
+      host: '0.0.0.0', port: 8080, authToken: 'secret', sessionIdleTimeoutMs: 600000,
+    });
+  });
+
+  test('rejects unknown transports and bad ports', () => {
+    expect(() => loadConfig(['--transport', 'carrier-pigeon'], {})).toThrow('Transport');
+    expect(() => loadConfig([], { AITABLE_HTTP_PORT: '70000' })).toThrow('AITABLE_HTTP_PORT');
+  });
+
+  test('reads log settings, falling back to LOG_LEVEL and DEBUG', () => {
+    expect(loadConfig([], {}).log).toEqual({
+      level: 'info', logDir: undefined, maxFileBytes: undefined, maxFiles: undefined,
+    });
+    expect(loadConfig(['--log-dir', '/var/log/aitable'], {
+      AITABLE_LOG_LEVEL: 'warn', AITABLE_LOG_DIR: '/tmp', AITABLE_LOG_MAX_BYTES: '1000', AITABLE_LOG_MAX_FILES: '2',
+    }).log).toEqual({
+      level: 'warn', logDir: '/var/log/aitable', maxFileBytes: 1000, maxFiles: 2,
+    });
+    expect(loadConfig([], { LOG_LEVEL: 'debug' }).log.level).toBe('debug');
+    expect(loadConfig([], { DEBUG: 'true' }).log.level).toBe('debug');
+    expect(() => loadConfig(['--log-level', 'loud'], {})).toThrow('Log level');
+  });
+
+  test('rejects a threshold that is not a whole number', () => {
+    expect(() => loadConfig([], { AITABLE_DELETE_CONFIRM_THRESHOLD: 'lots' })).toThrow('AITABLE_DELETE_CONFIRM_THRESHOLD');
+  });
+});
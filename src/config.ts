@@ -0,0 +1,190 @@
+import { parseArgs } from 'util';
+import type { AccessPolicyOptions, ApiDialectName, CoercionMode } from './types.js';
+import { DEFAULT_SNAPSHOT_DIR } from './snapshots.js';
+import { DEFAULT_EXPORT_DIR } from './recordExport.js';
+import { DEFAULT_IMPORT_DIR } from './recordImport.js';
+import { isLogLevel, LOG_LEVELS } from './logger.js';
+import type { LoggerOptions } from './logger.js';
+
+/**
+ * Server configuration, gathered from command line flags and environment variables
+ */
+export interface ServerConfig {
+  /** AITable API key */
+  apiKey?: string;
+  /** Which API to speak, or `auto` to find out with a request on first use */
+  apiDialect: ApiDialectName | 'auto';
+  /** Preview every write instead of performing it */
+  dryRun: boolean;
+  /** Deleting more records than this in one call needs a confirmation token */
+  deleteConfirmationThreshold?: number;
+  /** Read-only mode and allow/deny lists of tools, spaces and datasheets */
+  access: AccessPolicyOptions;
+  /** How record values are coerced before writing, unless a call asks otherwise */
+  coerce: CoercionMode;
+  /** Directory for table snapshots. Each API key gets its own subdirectory */
+  snapshotDir: string;
+  /** Directory export_records writes to. Each API key gets its own subdirectory */
+  exportDir: string;
+  /** Directory import_records is confined to. Always set over HTTP, where clients shouldn't read arbitrary files */
+  importDir?: string;
+  /** Log level, and where log files go and how they are rotated */
+  log: LoggerOptions;
+  /** Serve MCP over stdio, or over HTTP for several clients at once */
+  transport: 'stdio' | 'http';
+  http: {
+    host: string;
+    port: number;
+    /** Bearer token clients must present. Only read from the environment, to keep it out of process listings */
+    authToken?: string;
+    /** Closes Streamable HTTP sessions idle for this long. 0 keeps them open */
+    sessionIdleTimeoutMs?: number;
+  };
+}
+
+/**
+ * Allow/deny list options, as [CLI flag, environment variable]
+ */
+const ACCESS_LISTS = {
+  allowedTools: ['allow-tools', 'AITABLE_ALLOWED_TOOLS'],
+  deniedTools: ['deny-tools', 'AITABLE_DENIED_TOOLS'],
+  allowedSpaces: ['allow-spaces', 'AITABLE_ALLOWED_SPACES'],
+  deniedSpaces: ['deny-spaces', 'AITABLE_DENIED_SPACES'],
+  allowedDatasheets: ['allow-datasheets', 'AITABLE_ALLOWED_DATASHEETS'],
+  deniedDatasheets: ['deny-datasheets', 'AITABLE_DENIED_DATASHEETS'],
+} as const;
+
+/**
+ * Reads a boolean environment variable, accepting true/1/yes in any case
+ */
+export function envFlag(value: string | undefined): boolean {
+  return ['true', '1', 'yes'].includes((value ?? '').trim().toLowerCase());
+}
+
+/**
+ * Splits a comma-separated list, dropping empty entries
+ */
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value.split(',').map((item) => item.trim()).filter((item) => item !== '');
+}
+
+/**
+ * Parses a port number, failing loudly on anything else
+ */
+function parsePort(value: string, source: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > 65535) {
+    throw new Error(`aitable-mcp-server: ${source} must be a port number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Parses a non-negative integer, failing loudly on anything else
+ */
+function parseCount(value: string | undefined, source: string): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`aitable-mcp-server: ${source} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+function seconds(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : value * 1000;
+}
+
+/**
+ * Builds the server configuration. Command line flags take precedence over
+ * environment variables, except for the API key, which is read from
+ * AITABLE_API_KEY first and otherwise from the first positional argument.
+ */
+export function loadConfig(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      'api-dialect': { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      'delete-confirm-threshold': { type: 'string' },
+      'read-only': { type: 'boolean' },
+      coerce: { type: 'string' },
+      'snapshot-dir': { type: 'string' },
+      'export-dir': { type: 'string' },
+      'import-dir': { type: 'string' },
+      'log-level': { type: 'string' },
+      'log-dir': { type: 'string' },
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+      ...Object.fromEntries(Object.values(ACCESS_LISTS).map(([name]) => [name, { type: 'string' as const }])),
+    },
+    allowPositionals: true,
+    strict: false,
+  });
+
+  const flag = (name: string): string | undefined => {
+    const value = values[name];
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  const access: AccessPolicyOptions = {
+    readOnly: values['read-only'] === true || envFlag(env.AITABLE_READ_ONLY),
+  };
+  Object.entries(ACCESS_LISTS).forEach(([option, [name, envName]]) => {
+    access[option as keyof typeof ACCESS_LISTS] = parseList(flag(name) ?? env[envName]);
+  });
+
+  const transport = flag('transport') ?? env.AITABLE_TRANSPORT ?? 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`aitable-mcp-server: Transport must be "stdio" or "http", got "${transport}"`);
+  }
+
+  const coerce = flag('coerce') ?? env.AITABLE_COERCE ?? 'off';
+  if (coerce !== 'off' && coerce !== 'lenient' && coerce !== 'strict') {
+    throw new Error(`aitable-mcp-server: Coercion mode must be "off", "lenient" or "strict", got "${coerce}"`);
+  }
+
+  const apiDialect = flag('api-dialect') ?? env.AITABLE_API_DIALECT ?? 'auto';
+  if (apiDialect !== 'auto' && apiDialect !== 'airtable' && apiDialect !== 'fusion') {
+    throw new Error(`aitable-mcp-server: API dialect must be "auto", "airtable" or "fusion", got "${apiDialect}"`);
+  }
+
+  // LOG_LEVEL and DEBUG are still honored from before the server had its own variables
+  const logLevel = flag('log-level') ?? env.AITABLE_LOG_LEVEL ?? env.LOG_LEVEL ?? (envFlag(env.DEBUG) ? 'debug' : 'info');
+  if (!isLogLevel(logLevel)) {
+    throw new Error(`aitable-mcp-server: Log level must be one of ${LOG_LEVELS.map((level) => `"${level}"`).join(', ')}, got "${logLevel}"`);
+  }
+
+  return {
+    apiKey: env.AITABLE_API_KEY || positionals[0],
+    apiDialect,
+    dryRun: values['dry-run'] === true || envFlag(env.AITABLE_DRY_RUN),
+    deleteConfirmationThreshold: flag('delete-confirm-threshold') !== undefined
+      ? parseCount(flag('delete-confirm-threshold'), '--delete-confirm-threshold')
+      : parseCount(env.AITABLE_DELETE_CONFIRM_THRESHOLD, 'AITABLE_DELETE_CONFIRM_THRESHOLD'),
+    access,
+    coerce,
+    snapshotDir: flag('snapshot-dir') ?? env.AITABLE_SNAPSHOT_DIR ?? DEFAULT_SNAPSHOT_DIR,
+    exportDir: flag('export-dir') ?? env.AITABLE_EXPORT_DIR ?? DEFAULT_EXPORT_DIR,
+    importDir: flag('import-dir') ?? (env.AITABLE_IMPORT_DIR || (transport === 'http' ? DEFAULT_IMPORT_DIR : undefined)),
+    log: {
+      level: logLevel,
+      logDir: flag('log-dir') ?? (env.AITABLE_LOG_DIR || undefined),
+      maxFileBytes: parseCount(env.AITABLE_LOG_MAX_BYTES, 'AITABLE_LOG_MAX_BYTES'),
+      maxFiles: parseCount(env.AITABLE_LOG_MAX_FILES, 'AITABLE_LOG_MAX_FILES'),
+    },
+    transport,
+    http: {
+      host: flag('host') ?? env.AITABLE_HTTP_HOST ?? '127.0.0.1',
+      port: parsePort(flag('port') ?? env.AITABLE_HTTP_PORT ?? '3000', flag('port') !== undefined ? '--port' : 'AITABLE_HTTP_PORT'),
+      authToken: env.AITABLE_HTTP_AUTH_TOKEN || undefined,
+      sessionIdleTimeoutMs: seconds(parseCount(env.AITABLE_HTTP_SESSION_TIMEOUT, 'AITABLE_HTTP_SESSION_TIMEOUT')),
+    },
+  };
+}
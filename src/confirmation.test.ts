@@ -0,0 +1,29 @@
+import { describe, test, expect } from 'vitest';
+import { ConfirmationTokens } from './confirmation.js';
+
+describe('ConfirmationTokens', () => {
+  test('accepts a token once, for the operation it was issued for', () => {
+    const tokens = new ConfirmationTokens();
+    const token = tokens.issue('delete a');
+
+    expect(tokens.consume(token, 'delete a')).toBe(true);
+    expect(tokens.consume(token, 'delete a')).toBe(false);
+  });
+
+  test('a token used for another operation is spent', () => {
+    const tokens = new ConfirmationTokens();
+    const token = tokens.issue('delete a');
+
+    expect(tokens.consume(token, 'delete b')).toBe(false);
+    expect(tokens.consume(token, 'delete a')).toBe(false);
+  });
+
+  test('rejects expired tokens', () => {
+    let now = 0;
+    const tokens = new ConfirmationTokens(1000, () => now);
+    const token = tokens.issue('delete a');
+
+    now = 1000;
+    expect(tokens.consume(token, 'delete a')).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+import { randomUUID } from 'crypto';
+
+// How long a confirmation token stays valid
+const DEFAULT_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Single-use tokens for confirming a destructive call. A token is issued for
+ * one exact operation, described by a key, and is only accepted for that same
+ * operation before it expires.
+ */
+export class ConfirmationTokens {
+  private readonly tokens = new Map<string, { key: string; expiresAt: number }>();
+
+  /**
+   * @param ttlMs How long an issued token stays valid, in milliseconds
+   * @param now Clock to use, overridable for tests
+   */
+  constructor(
+    private readonly ttlMs: number = DEFAULT_TOKEN_TTL_MS,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Issues a token for the operation identified by key
+   */
+  issue(key: string): string {
+    this.prune();
+    const token = randomUUID();
+    this.tokens.set(token, { key, expiresAt: this.now() + this.ttlMs });
+    return token;
+  }
+
+  /**
+   * Checks a token against the operation it is being used for. The token is
+   * used up either way, so a mismatched or replayed token never succeeds later
+   */
+  consume(token: string, key: string): boolean {
+    const entry = this.tokens.get(token);
+    this.tokens.delete(token);
+    return entry !== undefined && entry.key === key && entry.expiresAt > this.now();
+  }
+
+  private prune(): void {
+    const now = this.now();
+    [...this.tokens.entries()]
+      .filter(([, entry]) => entry.expiresAt <= now)
+      .forEach(([token]) => this.tokens.delete(token));
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, test, expect, vi } from 'vitest';
+import { credentialFingerprint, ServicePool } from './credentials.js';
+import type { IAITableService } from './types.js';
+
+describe('credentialFingerprint', () => {
+  test('is stable per key and does not reveal it', () => {
+    const fingerprint = credentialFingerprint('secret-api-key');
+    expect(fingerprint).toMatch(/^key_[0-9a-f]{16}$/);
+    expect(credentialFingerprint('secret-api-key')).toBe(fingerprint);
+    expect(credentialFingerprint('other-api-key')).not.toBe(fingerprint);
+  });
+});
+
+describe('ServicePool', () => {
+  test('creates one service per API key and reuses it', () => {
+    const createService = vi.fn(() => ({} as IAITableService));
+    const pool = new ServicePool(createService);
+
+    const first = pool.get('key-a');
+    expect(pool.get('key-a')).toBe(first);
+    expect(pool.get('key-b')).not.toBe(first);
+    expect(createService.mock.calls).toEqual([['key-a'], ['key-b']]);
+    expect(pool.size).toBe(2);
+  });
+
+  test('drops the least recently used service once full', () => {
+    const createService = vi.fn(() => ({} as IAITableService));
+    const pool = new ServicePool(createService, 2);
+
+    const first = pool.get('key-a');
+    pool.get('key-b');
+    pool.get('key-a');
+    pool.get('key-c');
+
+    expect(pool.size).toBe(2);
+    expect(pool.get('key-a')).toBe(first);
+    pool.get('key-b');
+    expect(createService.mock.calls).toEqual([['key-a'], ['key-b'], ['key-c'], ['key-b']]);
+  });
+});
@@ -0,0 +1,45 @@
+import { createHash } from 'crypto';
+import type { IAITableService } from './types.js';
+
+/**
+ * A short, stable identifier for an API key that is safe to log: the start of
+ * its SHA-256 hash
+ */
+export function credentialFingerprint(apiKey: string): string {
+  return `key_${createHash('sha256').update(apiKey).digest('hex').slice(0, 16)}`;
+}
+
+// Most services kept at once before the least recently used is dropped
+export const DEFAULT_MAX_POOLED_SERVICES = 100;
+
+/**
+ * Keeps one service per API key, so clients sharing an HTTP server act as
+ * their own AITable user and never see each other's cached schema. Only the
+ * most recently used keys are kept, so a stream of new keys can't grow it
+ * without bound
+ */
+export class ServicePool<T extends IAITableService = IAITableService> {
+  // In order of last use, oldest first
+  private readonly services = new Map<string, T>();
+
+  constructor(
+    private readonly createService: (apiKey: string) => T,
+    private readonly maxServices: number = DEFAULT_MAX_POOLED_SERVICES,
+  ) {}
+
+  get(apiKey: string): T {
+    const fingerprint = credentialFingerprint(apiKey);
+    const service = this.services.get(fingerprint) ?? this.createService(apiKey);
+    this.services.delete(fingerprint);
+    this.services.set(fingerprint, service);
+
+    // Sessions already holding an evicted service keep using it; only its reuse is lost
+    const overflow = [...this.services.keys()].slice(0, Math.max(this.services.size - this.maxServices, 0));
+    overflow.forEach((key) => this.services.delete(key));
+    return service;
+  }
+
+  get size(): number {
+    return this.services.size;
+  }
+}
@@ -0,0 +1,260 @@
+import type {
+  DryRunChange, DryRunPreview, Field, FieldSet, IAITableService,
+} from './types.js';
+
+/**
+ * Builders for dry-run previews: each one reads the current state of whatever
+ * a write would touch and describes the change as a before/after diff,
+ * without writing anything
+ */
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Diffs a name/description update against the current values, keeping only
+ * the properties that would change. Returns null if nothing would
+ */
+function propertyChange(
+  id: string,
+  current: { name: string; description?: string },
+  updates: { name?: string; description?: string },
+): DryRunChange | null {
+  const keys = (['name', 'description'] as const)
+    .filter((key) => updates[key] !== undefined && !isSameValue(current[key], updates[key]));
+
+  if (keys.length === 0) {
+    return null;
+  }
+  return {
+    id,
+    before: Object.fromEntries(keys.map((key) => [key, current[key] ?? null])),
+    after: Object.fromEntries(keys.map((key) => [key, updates[key]])),
+  };
+}
+
+/**
+ * Diffs a record update against the record's current fields, keeping only the
+ * fields that would change. Returns null if nothing would
+ */
+function recordChange(id: string, current: FieldSet, fields: FieldSet): DryRunChange | null {
+  const changed = Object.keys(fields).filter((name) => !isSameValue(current[name], fields[name]));
+  if (changed.length === 0) {
+    return null;
+  }
+  return {
+    id,
+    before: Object.fromEntries(changed.map((name) => [name, current[name] ?? null])),
+    after: Object.fromEntries(changed.map((name) => [name, fields[name]])),
+  };
+}
+
+/**
+ * Previews deleting records: each existing record's current fields, going to nothing
+ */
+export async function previewRecordDeletion(
+  service: IAITableService,
+  baseId: string,
+  tableId: string,
+  recordIds: string[],
+): Promise<DryRunPreview> {
+  const current = await service.getRecords(baseId, tableId, recordIds);
+  const existing = new Map(current.map((record) => [record.id, record]));
+  const changes: DryRunChange[] = [];
+  const warnings: string[] = [];
+
+  recordIds.forEach((id) => {
+    const record = existing.get(id);
+    if (record) {
+      changes.push({ id, before: record.fields, after: null });
+    } else {
+      warnings.push(`Record ${id} does not exist`);
+    }
+  });
+
+  return {
+    dryRun: true, action: 'delete_records', baseId, tableId, changes, warnings,
+  };
+}
+
+/**
+ * Previews updating records: for each record, only the fields whose values
+ * would actually change
+ */
+export async function previewRecordUpdates(
+  service: IAITableService,
+  baseId: string,
+  tableId: string,
+  records: { id: string; fields: FieldSet }[],
+): Promise<DryRunPreview> {
+  const current = await service.getRecords(baseId, tableId, records.map((record) => record.id));
+  const existing = new Map(current.map((record) => [record.id, record]));
+  const changes: DryRunChange[] = [];
+  const warnings: string[] = [];
+
+  records.forEach(({ id, fields }) => {
+    const record = existing.get(id);
+    if (!record) {
+      warnings.push(`Record ${id} does not exist`);
+      return;
+    }
+
+    const change = recordChange(id, record.fields, fields);
+    if (change) {
+      changes.push(change);
+    } else {
+      warnings.push(`Record ${id} already has these values`);
+    }
+  });
+
+  return {
+    dryRun: true, action: 'update_records', baseId, tableId, changes, warnings,
+  };
+}
+
+/**
+ * Previews creating records, which have no current state to compare against
+ */
+export function previewRecordCreation(
+  action: string,
+  baseId: string,
+  tableId: string,
+  records: { fields: FieldSet }[],
+): DryRunPreview {
+  const changes = records.map((record) => ({ before: null, after: record.fields }));
+  return {
+    dryRun: true, action, baseId, tableId, changes, warnings: [],
+  };
+}
+
+/**
+ * Previews an upsert: the records that would be created, and for those that
+ * match an existing record, the fields that would change
+ */
+export async function previewUpsert(
+  service: IAITableService,
+  baseId: string,
+  tableId: string,
+  records: { fields: FieldSet }[],
+  mergeOnFields: string[],
+): Promise<DryRunPreview> {
+  const plan = await service.planUpsert(baseId, tableId, records, mergeOnFields);
+  const changes: DryRunChange[] = [];
+  const warnings = plan.failed.map(({ index, error }) => `Record ${index}: ${error}`);
+
+  plan.update.forEach(({ id, fields, current }) => {
+    const change = recordChange(id, current, fields);
+    if (change) {
+      changes.push(change);
+    } else {
+      warnings.push(`Record ${id} already has these values`);
+    }
+  });
+  plan.create.forEach(({ fields }) => changes.push({ before: null, after: fields }));
+
+  return {
+    dryRun: true,
+    action: 'upsert_records',
+    baseId,
+    tableId,
+    changes,
+    warnings,
+    message: `${plan.create.length} record(s) would be created and ${plan.update.length} updated`,
+  };
+}
+
+/**
+ * Previews renaming a table or changing its description
+ */
+export async function previewTableUpdate(
+  service: IAITableService,
+  baseId: string,
+  tableId: string,
+  updates: { name?: string; description?: string },
+): Promise<DryRunPreview> {
+  const schema = await service.getBaseSchema(baseId);
+  const table = schema.tables.find((t) => t.id === tableId);
+  const preview: DryRunPreview = {
+    dryRun: true, action: 'update_table', baseId, tableId, changes: [], warnings: [],
+  };
+
+  if (!table) {
+    preview.warnings.push(`Table ${tableId} not found in base ${baseId}`);
+    return preview;
+  }
+
+  const change = propertyChange(tableId, table, updates);
+  if (change) {
+    preview.changes.push(change);
+  } else {
+    preview.warnings.push(`Table ${tableId} already has these values`);
+  }
+  return preview;
+}
+
+/**
+ * Previews creating a table, warning if the base already has one of that name
+ */
+export async function previewTableCreation(
+  service: IAITableService,
+  baseId: string,
+  table: { name: string; description?: string; fields: Omit<Field, 'id'>[] },
+): Promise<DryRunPreview> {
+  const datasheets = await service.getAllDatasheets(baseId);
+  const warnings = datasheets
+    .filter((datasheet) => datasheet.name === table.name)
+    .map((datasheet) => `A table named "${table.name}" already exists (${datasheet.id})`);
+
+  return {
+    dryRun: true, action: 'create_table', baseId, changes: [{ before: null, after: table }], warnings,
+  };
+}
+
+/**
+ * Previews adding a field, warning if the table already has one of that name
+ */
+export async function previewFieldCreation(
+  service: IAITableService,
+  baseId: string,
+  tableId: string,
+  field: Omit<Field, 'id'>,
+): Promise<DryRunPreview> {
+  const fields = await service.getFields(baseId, tableId);
+  const warnings = fields
+    .filter((existing) => existing.name === field.name)
+    .map((existing) => `A field named "${field.name}" already exists (${existing.id})`);
+
+  return {
+    dryRun: true, action: 'create_field', baseId, tableId, changes: [{ before: null, after: field }], warnings,
+  };
+}
+
+/**
+ * Previews renaming a field or changing its description
+ */
+export async function previewFieldUpdate(
+  service: IAITableService,
+  baseId: string,
+  tableId: string,
+  fieldId: string,
+  updates: { name?: string; description?: string },
+): Promise<DryRunPreview> {
+  const field = (await service.getFields(baseId, tableId)).find((f) => f.id === fieldId);
+  const preview: DryRunPreview = {
+    dryRun: true, action: 'update_field', baseId, tableId, changes: [], warnings: [],
+  };
+
+  if (!field) {
+    preview.warnings.push(`Field ${fieldId} not found in table ${tableId}`);
+    return preview;
+  }
+
+  const change = propertyChange(fieldId, field, updates);
+  if (change) {
+    preview.changes.push(change);
+  } else {
+    preview.warnings.push(`Field ${fieldId} already has these values`);
+  }
+  return preview;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AuthError, NotFoundError, PermissionError, RateLimitError, UpstreamError, ValidationError, apiError, toolErrorPayload,
+} from './errors.js';
+
+describe('apiError', () => {
+  it('picks the kind of error from the HTTP status', () => {
+    expect(apiError(401, { code: 401, message: 'Invalid token' })).toBeInstanceOf(AuthError);
+    expect(apiError(404, { code: 404, message: 'Not found' })).toBeInstanceOf(NotFoundError);
+    expect(apiError(429, { code: 429, message: 'Too many requests' })).toBeInstanceOf(RateLimitError);
+    expect(apiError(503, {})).toBeInstanceOf(UpstreamError);
+    expect(apiError(422, { error: { type: 'INVALID_VALUE', message: 'Bad value' } })).toBeInstanceOf(ValidationError);
+  });
+
+  it('falls back to the code in the body of a fusion response that succeeded over HTTP', () => {
+    const error = apiError(200, { success: false, code: 404, message: 'Datasheet not found' });
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toBe('aitable-mcp-server: API request failed (404): Datasheet not found');
+    expect(error).toMatchObject({ status: 404, apiCode: 404, apiMessage: 'Datasheet not found' });
+  });
+
+  it('maps known fusion codes to their kind of error, and others to a validation error', () => {
+    expect(apiError(200, { success: false, code: 301, message: 'The datasheet does not exist' })).toMatchObject({ status: 404, apiCode: 301 });
+    expect(apiError(200, { success: false, code: 301, message: 'The datasheet does not exist' })).toBeInstanceOf(NotFoundError);
+    expect(apiError(200, { success: false, code: 401, message: 'Invalid token' })).toBeInstanceOf(AuthError);
+    expect(apiError(200, { success: false, code: 403, message: 'No access' })).toBeInstanceOf(PermissionError);
+    expect(apiError(200, { success: false, code: 500, message: 'Internal error' })).toBeInstanceOf(UpstreamError);
+    expect(apiError(200, { success: false, code: 201, message: 'Something else' })).toMatchObject({ status: 400, apiCode: 201 });
+    expect(apiError(200, { success: false, code: 201, message: 'Something else' })).toBeInstanceOf(ValidationError);
+  });
+
+  it('reads the message of an Airtable-compatible error', () => {
+    expect(apiError(422, { error: 'INVALID_REQUEST' }).apiMessage).toBe('INVALID_REQUEST');
+    expect(apiError(422, { error: { type: 'INVALID_VALUE', message: 'Bad value' } }).apiMessage).toBe('Bad value');
+  });
+});
+
+describe('toolErrorPayload', () => {
+  it('reports the kind of error, whether to retry and what to do', () => {
+    expect(toolErrorPayload(apiError(429, { code: 429, message: 'Too many requests' }))).toEqual({
+      error: 'aitable-mcp-server: API request failed (429): Too many requests',
+      errorCode: 'RATE_LIMIT',
+      retryable: true,
+      remediation: expect.stringContaining('Wait'),
+      status: 429,
+      apiCode: 429,
+      apiMessage: 'Too many requests',
+    });
+    expect(toolErrorPayload(new ValidationError('Bad', { remediation: 'Fix it' }))).toMatchObject({
+      errorCode: 'VALIDATION', retryable: false, remediation: 'Fix it',
+    });
+  });
+
+  it('reports errors of unknown kinds as not retryable', () => {
+    expect(toolErrorPayload(new Error('Boom'))).toEqual({ error: 'Boom', errorCode: 'UNKNOWN', retryable: false });
+  });
+});
@@ -0,0 +1,239 @@
+/* eslint-disable max-classes-per-file */
+
+/**
+ * Machine-readable kinds of failure, reported to agents as `errorCode`
+ */
+export type ErrorCode =
+  | 'AUTH'
+  | 'PERMISSION'
+  | 'NOT_FOUND'
+  | 'VALIDATION'
+  | 'RATE_LIMIT'
+  | 'UPSTREAM'
+  | 'NETWORK'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'UNKNOWN';
+
+export interface ErrorDetails {
+  /** HTTP status of the failed request */
+  status?: number;
+  /** `code` and `message` from AITable's response body */
+  apiCode?: number;
+  apiMessage?: string;
+  /** What the agent can do about it, in place of the default for the kind of error */
+  remediation?: string;
+  /** Whether trying again may succeed, in place of the default for the kind of error */
+  retryable?: boolean;
+}
+
+/**
+ * An error of a known kind, with a hint on whether to retry and what to do about it
+ */
+export abstract class AITableError extends Error {
+  abstract readonly errorCode: ErrorCode;
+
+  readonly status?: number;
+
+  readonly apiCode?: number;
+
+  readonly apiMessage?: string;
+
+  readonly retryable: boolean;
+
+  readonly remediation: string;
+
+  constructor(message: string, details: ErrorDetails, defaults: { retryable: boolean; remediation: string }) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.apiCode = details.apiCode;
+    this.apiMessage = details.apiMessage;
+    this.retryable = details.retryable ?? defaults.retryable;
+    this.remediation = details.remediation ?? defaults.remediation;
+  }
+}
+
+export class AuthError extends AITableError {
+  readonly errorCode = 'AUTH';
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details, {
+      retryable: false,
+      remediation: 'Check that the AITable API key is valid and has not been revoked.',
+    });
+  }
+}
+
+export class PermissionError extends AITableError {
+  readonly errorCode = 'PERMISSION';
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details, {
+      retryable: false,
+      remediation: 'The API key has no access to this. Ask the owner of the space to share it, or work with another space or datasheet.',
+    });
+  }
+}
+
+export class NotFoundError extends AITableError {
+  readonly errorCode = 'NOT_FOUND';
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details, {
+      retryable: false,
+      remediation: 'Check the ID or name. list_bases, list_tables and describe_table show what exists.',
+    });
+  }
+}
+
+export class ValidationError extends AITableError {
+  readonly errorCode = 'VALIDATION';
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details, {
+      retryable: false,
+      remediation: 'Correct the arguments as the error describes and try again.',
+    });
+  }
+}
+
+export class RateLimitError extends AITableError {
+  readonly errorCode = 'RATE_LIMIT';
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details, {
+      retryable: true,
+      remediation: 'AITable is limiting requests. Wait a few seconds before trying again, and write records in batches.',
+    });
+  }
+}
+
+export class UpstreamError extends AITableError {
+  readonly errorCode = 'UPSTREAM';
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details, {
+      retryable: true,
+      remediation: 'AITable failed to handle the request. Try again shortly.',
+    });
+  }
+}
+
+export class NetworkError extends AITableError {
+  readonly errorCode = 'NETWORK';
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details, {
+      retryable: true,
+      remediation: 'AITable could not be reached. Try again shortly.',
+    });
+  }
+}
+
+export class TimeoutError extends AITableError {
+  readonly errorCode = 'TIMEOUT';
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details, {
+      retryable: true,
+      remediation: 'AITable took too long to answer. Try again, or ask for fewer records at once.',
+    });
+  }
+}
+
+export class CancelledError extends AITableError {
+  readonly errorCode = 'CANCELLED';
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details, {
+      retryable: false,
+      remediation: 'The client cancelled the call. Call the tool again to start over.',
+    });
+  }
+}
+
+/**
+ * Failure codes the fusion API puts in a response body, with the HTTP status
+ * each stands for. Most mirror the status; 301 is a datasheet that doesn't exist
+ */
+const FUSION_CODE_STATUSES: Record<number, number> = {
+  301: 404,
+  400: 400,
+  401: 401,
+  403: 403,
+  404: 404,
+  429: 429,
+};
+
+/**
+ * The HTTP status a fusion body code stands for: server errors as they are,
+ * and any other code not known to mean something else as a bad request
+ */
+function fusionCodeStatus(code: number): number {
+  return FUSION_CODE_STATUSES[code] ?? (code >= 500 ? code : 400);
+}
+
+/**
+ * The error for a failed API response, from its HTTP status or, for fusion
+ * responses that succeed over HTTP but report a failure, the `code` in the body
+ */
+export function apiError(status: number, body: unknown): AITableError {
+  const fields = (typeof body === 'object' && body !== null ? body : {}) as { code?: unknown; message?: unknown; error?: unknown };
+  // The Airtable-compatible API puts the message in `error`, as a string or as `{ type, message }`
+  const nested = typeof fields.error === 'object' && fields.error !== null ? (fields.error as { message?: unknown }).message : fields.error;
+  const apiMessage = [fields.message, nested].find((candidate): candidate is string => typeof candidate === 'string');
+  const apiCode = typeof fields.code === 'number' ? fields.code : undefined;
+  const effectiveStatus = status >= 400 || apiCode === undefined ? status : fusionCodeStatus(apiCode);
+
+  const message = `aitable-mcp-server: API request failed (${effectiveStatus}): ${apiMessage ?? JSON.stringify(body)}`;
+  const details = { status: effectiveStatus, apiCode, apiMessage };
+  if (effectiveStatus === 401) {
+    return new AuthError(message, details);
+  }
+  if (effectiveStatus === 403) {
+    return new PermissionError(message, details);
+  }
+  if (effectiveStatus === 404) {
+    return new NotFoundError(message, details);
+  }
+  if (effectiveStatus === 429) {
+    return new RateLimitError(message, details);
+  }
+  if (effectiveStatus >= 500) {
+    return new UpstreamError(message, details);
+  }
+  return new ValidationError(message, details);
+}
+
+/**
+ * What an agent is told about a failed tool call
+ */
+export interface ToolErrorPayload {
+  error: string;
+  errorCode: ErrorCode;
+  retryable: boolean;
+  remediation?: string;
+  status?: number;
+  apiCode?: number;
+  apiMessage?: string;
+}
+
+export function toolErrorPayload(error: unknown): ToolErrorPayload {
+  if (error instanceof AITableError) {
+    return {
+      error: error.message,
+      errorCode: error.errorCode,
+      retryable: error.retryable,
+      remediation: error.remediation,
+      status: error.status,
+      apiCode: error.apiCode,
+      apiMessage: error.apiMessage,
+    };
+  }
+  return {
+    error: error instanceof Error ? error.message : String(error),
+    errorCode: 'UNKNOWN',
+    retryable: false,
+  };
+}
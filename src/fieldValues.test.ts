@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { checkFieldValue, fieldValueKind, validateFieldSet } from './fieldValues.js';
+import type { Field } from './types.js';
+
+const fields: Field[] = [
+  { id: 'fldName', name: 'Name', type: 'SingleText' },
+  { id: 'fldDue', name: 'Due', type: 'DateTime' },
+  { id: 'fldPriority', name: 'Priority', type: 'SingleSelect', options: { options: [{ id: 'opt1', name: 'High' }, { id: 'opt2', name: 'Low' }] } },
+  { id: 'fldTags', name: 'Tags', type: 'MultiSelect', options: { options: [{ id: 'opt3', name: 'urgent' }] } },
+  { id: 'fldScore', name: 'Score', type: 'Rating', options: { max: 5 } },
+  { id: 'fldOwner', name: 'Owner', type: 'Member' },
+  { id: 'fldFiles', name: 'Files', type: 'Attachment' },
+  { id: 'fldProject', name: 'Project', type: 'TwoWayLink' },
+  { id: 'fldSite', name: 'Site', type: 'URL' },
+  { id: 'fldTotal', name: 'Total', type: 'Formula' },
+];
+
+const field = (name: string) => fields.find((candidate) => candidate.name === name)!;
+
+describe('fieldValueKind', () => {
+  it('knows AITable and Airtable-style type names', () => {
+    expect(fieldValueKind({ name: 'A', type: 'OneWayLink' })).toBe('link');
+    expect(fieldValueKind({ name: 'A', type: 'multipleAttachments' })).toBe('attachment');
+    expect(fieldValueKind({ name: 'A', type: 'AutoNumber' })).toBe('computed');
+    expect(fieldValueKind({ name: 'A', type: 'Hologram' })).toBeUndefined();
+  });
+});
+
+describe('checkFieldValue', () => {
+  it('accepts values in the shape each field type expects', () => {
+    expect(checkFieldValue(field('Due'), 1740787200000)).toBeUndefined();
+    expect(checkFieldValue(field('Priority'), 'High')).toBeUndefined();
+    expect(checkFieldValue(field('Owner'), ['unit1', { id: 'unit2', name: 'Ada' }])).toBeUndefined();
+    expect(checkFieldValue(field('Files'), [{ token: 'space/2025/a.png', name: 'a.png' }])).toBeUndefined();
+    expect(checkFieldValue(field('Site'), { text: 'https://aitable.ai', title: 'AITable' })).toBeUndefined();
+    expect(checkFieldValue(field('Name'), null)).toBeUndefined();
+  });
+
+  it('names the field, its type and the expected shape', () => {
+    expect(checkFieldValue(field('Due'), '2025-03-01'))
+      .toBe('Field "Due" (DateTime) expects a Unix timestamp in milliseconds, e.g. 1740787200000, got "2025-03-01"');
+    expect(checkFieldValue(field('Project'), 'recA')).toContain('expects an array of record IDs');
+    expect(checkFieldValue(field('Files'), [{ url: 'https://example.com/a.png' }])).toContain('each with a token');
+  });
+
+  it('checks select options and rating bounds', () => {
+    expect(checkFieldValue(field('Priority'), 'Urgent')).toBe('Field "Priority" (SingleSelect) has no option "Urgent". Options are: "High", "Low"');
+    expect(checkFieldValue(field('Tags'), ['urgent', 'later'])).toContain('has no option "later"');
+    expect(checkFieldValue(field('Score'), 6)).toContain('from 0 to 5');
+  });
+
+  it('refuses computed fields', () => {
+    expect(checkFieldValue(field('Total'), 3)).toBe('Field "Total" (Formula) is computed by AITable and can\'t be written');
+  });
+});
+
+describe('validateFieldSet', () => {
+  it('lists every invalid value in one error', () => {
+    expect(() => validateFieldSet(fields, { Name: 'Ada', Due: 'soon', Score: 9 }, 'dst1'))
+      .toThrow(/datasheet dst1: Field "Due" .*; Field "Score"/);
+    expect(() => validateFieldSet(fields, { Name: 'Ada', Unknown: { any: 'thing' } }, 'dst1')).not.toThrow();
+  });
+});
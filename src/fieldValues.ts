@@ -0,0 +1,151 @@
+import type { Field, FieldSet, FieldValueKind } from './types.js';
+import { FieldValueSchemas } from './types.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * What each kind of field expects on write, for error messages
+ */
+const EXPECTED_SHAPES: Record<FieldValueKind, string> = {
+  text: 'a string',
+  number: 'a number',
+  dateTime: 'a Unix timestamp in milliseconds, e.g. 1740787200000',
+  singleSelect: 'the name of one of its options',
+  multiSelect: 'an array of option names',
+  checkbox: 'true or false',
+  rating: 'a whole number',
+  link: 'an array of record IDs, e.g. ["recXXXX"]',
+  member: 'an array of member or team IDs, or of objects with an id',
+  attachment: 'an array of uploaded attachments, each with a token',
+  url: 'a URL string, or an object with text and an optional title',
+};
+
+// Field types by lowercased name, covering AITable's names and the Airtable-style ones
+const KIND_BY_TYPE: Record<string, FieldValueKind | 'computed'> = {
+  singletext: 'text',
+  text: 'text',
+  singlelinetext: 'text',
+  multilinetext: 'text',
+  richtext: 'text',
+  email: 'text',
+  phone: 'text',
+  phonenumber: 'text',
+  cascader: 'text',
+  number: 'number',
+  currency: 'number',
+  percent: 'number',
+  datetime: 'dateTime',
+  date: 'dateTime',
+  singleselect: 'singleSelect',
+  multiselect: 'multiSelect',
+  multipleselects: 'multiSelect',
+  checkbox: 'checkbox',
+  rating: 'rating',
+  link: 'link',
+  onewaylink: 'link',
+  twowaylink: 'link',
+  magiclink: 'link',
+  multiplerecordlinks: 'link',
+  member: 'member',
+  singlecollaborator: 'member',
+  multiplecollaborators: 'member',
+  attachment: 'attachment',
+  multipleattachments: 'attachment',
+  url: 'url',
+  formula: 'computed',
+  lookup: 'computed',
+  magiclookup: 'computed',
+  rollup: 'computed',
+  autonumber: 'computed',
+  createdtime: 'computed',
+  lastmodifiedtime: 'computed',
+  createdby: 'computed',
+  lastmodifiedby: 'computed',
+  button: 'computed',
+};
+
+/**
+ * The kind of value a field takes on write, `computed` for fields the API
+ * fills in itself, or undefined for types this server doesn't know
+ */
+export function fieldValueKind(field: Field): FieldValueKind | 'computed' | undefined {
+  return KIND_BY_TYPE[field.type.toLowerCase()];
+}
+
+/**
+ * Names of a select field's options, or undefined if the schema doesn't list them
+ */
+export function selectOptionNames(field: Field): string[] | undefined {
+  const options = field.options as Record<string, unknown> | undefined;
+  const choices = options?.options ?? options?.choices;
+  if (!Array.isArray(choices)) {
+    return undefined;
+  }
+  return choices
+    .map((choice) => (typeof choice === 'string' ? choice : (choice as { name?: unknown })?.name))
+    .filter((name): name is string => typeof name === 'string');
+}
+
+/**
+ * Describes a value for an error message, shortened if it is long
+ */
+function describeValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/**
+ * Checks one value against its field, returning a description of the problem
+ * or undefined if the value can be written
+ */
+export function checkFieldValue(field: Field, value: unknown): string | undefined {
+  const kind = fieldValueKind(field);
+  const label = `Field "${field.name}" (${field.type})`;
+
+  if (kind === 'computed') {
+    return `${label} is computed by AITable and can't be written`;
+  }
+
+  // null clears a field; values for unknown field types are left to the API
+  if (value === null || kind === undefined) {
+    return undefined;
+  }
+
+  if (!FieldValueSchemas[kind].safeParse(value).success) {
+    return `${label} expects ${EXPECTED_SHAPES[kind]}, got ${describeValue(value)}`;
+  }
+
+  if (kind === 'singleSelect' || kind === 'multiSelect') {
+    const optionNames = selectOptionNames(field);
+    const unknown = (Array.isArray(value) ? value : [value]).filter((name) => optionNames && !optionNames.includes(name));
+    if (optionNames && unknown.length > 0) {
+      return `${label} has no option ${unknown.map(describeValue).join(', ')}. Options are: ${optionNames.map(describeValue).join(', ')}`;
+    }
+  }
+
+  if (kind === 'rating') {
+    const max = (field.options as { max?: unknown } | undefined)?.max;
+    if (typeof max === 'number' && (value as number) > max) {
+      return `${label} expects a whole number from 0 to ${max}, got ${describeValue(value)}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks every value in a fields payload, keyed by exact field name, against
+ * the datasheet's fields. Throws one error listing all the problems found.
+ */
+export function validateFieldSet(fields: Field[], fieldSet: FieldSet, datasheetId: string): void {
+  const fieldsByName = new Map(fields.map((field) => [field.name, field]));
+  const problems = Object.entries(fieldSet)
+    .map(([name, value]) => {
+      const field = fieldsByName.get(name);
+      return field ? checkFieldValue(field, value) : undefined;
+    })
+    .filter((problem): problem is string => problem !== undefined);
+
+  if (problems.length > 0) {
+    throw new ValidationError(`aitable-mcp-server: Invalid field values for datasheet ${datasheetId}: ${problems.join('; ')}`);
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { compileFilter } from './filter.js';
+import type { Field } from './types.js';
+
+const fields: Field[] = [
+  { id: 'fldName', name: 'Name', type: 'SingleText' },
+  { id: 'fldCount', name: 'Count', type: 'Number' },
+  { id: 'fldDue', name: 'Due', type: 'DateTime' },
+  { id: 'fldStatus', name: 'Status', type: 'SingleSelect', options: { options: [{ name: 'Todo' }, { name: 'Done' }] } },
+  { id: 'fldTags', name: 'Tags', type: 'MultiSelect' },
+  { id: 'fldDone', name: 'Done?', type: 'Checkbox' },
+  { id: 'fldCreated', name: 'Created', type: 'CreatedTime' },
+  { id: 'fldTotal', name: 'Total', type: 'Formula' },
+];
+
+const compile = (filter: Parameters<typeof compileFilter>[0]) => compileFilter(filter, fields, 'dst1');
+
+describe('compileFilter', () => {
+  it('compiles comparisons, quoting field names and values', () => {
+    expect(compile({ field: 'name', op: 'eq', value: 'Say "hi"' })).toBe('{Name}="Say \\"hi\\""');
+    expect(compile({ field: 'fldCount', op: 'gte', value: 3 })).toBe('{Count}>=3');
+    expect(compile({ field: 'Done?', op: 'neq', value: true })).toBe('NOT({Done?}=TRUE())');
+    expect(compile({ field: 'Name', op: 'isEmpty' })).toBe('{Name}=BLANK()');
+    expect(compile({ field: 'Tags', op: 'contains', value: 'urgent' })).toBe('FIND("urgent", ARRAYJOIN({Tags}))>0');
+  });
+
+  it('combines conditions with and, or and not', () => {
+    expect(compile({
+      and: [
+        { field: 'Status', op: 'in', value: ['Todo', 'Done'] },
+        { not: { field: 'Count', op: 'between', value: [1, 5] } },
+      ],
+    })).toBe('AND(OR({Status}="Todo", {Status}="Done"), NOT(AND({Count}>=1, {Count}<=5)))');
+  });
+
+  it('compiles date ranges, including on computed date fields', () => {
+    expect(compile({ field: 'Due', op: 'after', value: '2025-01-01' })).toBe('IS_AFTER({Due}, "2025-01-01")');
+    expect(compile({ field: 'Due', op: 'lt', value: Date.UTC(2025, 0, 1) })).toBe('IS_BEFORE({Due}, "2025-01-01T00:00:00.000Z")');
+    expect(compile({ field: 'Created', op: 'between', value: ['2025-01-01', '2025-01-31'] }))
+      .toBe('AND(NOT(IS_BEFORE({Created}, "2025-01-01")), NOT(IS_AFTER({Created}, "2025-01-31")))');
+    expect(compile({ field: 'Due', op: 'on', value: '2025-03-01' })).toBe('IS_SAME({Due}, "2025-03-01", "day")');
+  });
+
+  it('allows any comparison on fields whose values are computed', () => {
+    expect(compile({ field: 'Total', op: 'gt', value: 10 })).toBe('{Total}>10');
+  });
+
+  it('explains filters that do not suit the schema', () => {
+    expect(() => compile({ field: 'Nope', op: 'eq', value: 1 })).toThrow('Field "Nope" not found');
+    expect(() => compile({ field: 'Name', op: 'gt', value: 1 })).toThrow('"gt" needs a number or date field, but field "Name" (SingleText) is neither');
+    expect(() => compile({ field: 'Status', op: 'eq', value: 'Doing' })).toThrow('has no option "Doing". Options are: "Todo", "Done"');
+    expect(() => compile({ field: 'Due', op: 'before', value: 'soon' })).toThrow('needs a date, got "soon"');
+    expect(() => compile({ field: 'Count', op: 'between', value: [1] })).toThrow('needs a list of 2 values');
+    expect(() => compile({ field: 'Name', op: 'before', value: '2025-01-01' })).toThrow('needs a date field');
+  });
+});
@@ -0,0 +1,191 @@
+import type {
+  Field, FieldValueKind, FilterCondition, FilterExpression,
+} from './types.js';
+import { fieldValueKind, selectOptionNames } from './fieldValues.js';
+import {
+  and, fieldReference, formulaLiteral, or,
+} from './formula.js';
+import { findField } from './nameResolver.js';
+import { parseDate } from './coercion.js';
+import { ValidationError } from './errors.js';
+
+type FilterScalar = string | number | boolean | null;
+
+// Fields whose values are lists, so text is searched in their joined values
+const LIST_KINDS = new Set<FieldValueKind>(['multiSelect', 'link', 'member', 'attachment']);
+
+// Computed fields that still compare like a kind of written value
+const COMPUTED_KINDS: Record<string, FieldValueKind> = {
+  createdtime: 'dateTime',
+  lastmodifiedtime: 'dateTime',
+  autonumber: 'number',
+  createdby: 'member',
+  lastmodifiedby: 'member',
+};
+
+/**
+ * How a field compares in a filter, or undefined for fields whose values
+ * can't be known in advance, such as formulas and lookups
+ */
+function filterKind(field: Field): FieldValueKind | undefined {
+  const kind = fieldValueKind(field);
+  return kind === 'computed' ? COMPUTED_KINDS[field.type.toLowerCase()] : kind;
+}
+
+/**
+ * Compiles a structured filter into a filterByFormula expression, resolving
+ * field names and IDs against the datasheet's fields and checking that each
+ * operator and value suits its field
+ */
+export function compileFilter(filter: FilterExpression, fields: Field[], datasheetId: string): string {
+  const fail = (problem: string): never => {
+    throw new ValidationError(`aitable-mcp-server: Invalid filter for datasheet ${datasheetId}: ${problem}`);
+  };
+
+  const compileCondition = (condition: FilterCondition): string => {
+    const field = findField(fields, condition.field, datasheetId);
+    const kind = filterKind(field);
+    const ref = fieldReference(field.name);
+    const label = `field "${field.name}" (${field.type})`;
+    const { op, value } = condition;
+
+    const scalar = (candidate: unknown = value): FilterScalar => {
+      if (Array.isArray(candidate) || candidate === undefined) {
+        return fail(`"${op}" on ${label} needs a single value`);
+      }
+      return candidate as FilterScalar;
+    };
+
+    const list = (length?: number): FilterScalar[] => {
+      if (!Array.isArray(value) || value.length === 0 || (length !== undefined && value.length !== length)) {
+        return fail(`"${op}" on ${label} needs ${length === undefined ? 'a non-empty list of values' : `a list of ${length} values`}`);
+      }
+      return value;
+    };
+
+    const date = (candidate: FilterScalar): string => {
+      if (typeof candidate === 'number') {
+        return formulaLiteral(new Date(candidate).toISOString());
+      }
+      if (typeof candidate !== 'string' || parseDate(candidate) === undefined) {
+        return fail(`"${op}" on ${label} needs a date, got ${JSON.stringify(candidate)}`);
+      }
+      return formulaLiteral(candidate);
+    };
+
+    const checkOption = (candidate: FilterScalar) => {
+      const optionNames = selectOptionNames(field);
+      if (typeof candidate === 'string' && optionNames && !optionNames.includes(candidate)) {
+        fail(`${label} has no option "${candidate}". Options are: ${optionNames.map((name) => `"${name}"`).join(', ')}`);
+      }
+    };
+
+    const equals = (candidate: FilterScalar): string => {
+      if (kind === 'dateTime' && candidate !== null) {
+        return `IS_SAME(${ref}, ${date(candidate)})`;
+      }
+      if (kind === 'singleSelect' || kind === 'multiSelect') {
+        checkOption(candidate);
+      }
+      if ((kind === 'number' || kind === 'rating') && candidate !== null && typeof candidate !== 'number') {
+        return fail(`${label} compares with numbers, got ${JSON.stringify(candidate)}`);
+      }
+      if (kind === 'checkbox' && typeof candidate !== 'boolean') {
+        return fail(`${label} compares with true or false, got ${JSON.stringify(candidate)}`);
+      }
+      return `${ref}=${formulaLiteral(candidate)}`;
+    };
+
+    const compare = (operator: '>' | '>=' | '<' | '<='): string => {
+      const candidate = scalar();
+      if (kind === 'dateTime') {
+        const literal = date(candidate);
+        const byOperator = {
+          '>': `IS_AFTER(${ref}, ${literal})`,
+          '>=': `NOT(IS_BEFORE(${ref}, ${literal}))`,
+          '<': `IS_BEFORE(${ref}, ${literal})`,
+          '<=': `NOT(IS_AFTER(${ref}, ${literal}))`,
+        };
+        return byOperator[operator];
+      }
+      if (kind !== undefined && kind !== 'number' && kind !== 'rating') {
+        return fail(`"${op}" needs a number or date field, but ${label} is neither`);
+      }
+      if (typeof candidate !== 'number') {
+        return fail(`"${op}" on ${label} needs a number, got ${JSON.stringify(candidate)}`);
+      }
+      return `${ref}${operator}${formulaLiteral(candidate)}`;
+    };
+
+    const requireDateField = () => {
+      if (kind !== undefined && kind !== 'dateTime') {
+        fail(`"${op}" needs a date field, but ${label} is not one`);
+      }
+    };
+
+    switch (op) {
+      case 'eq':
+        return equals(scalar());
+      case 'neq':
+        return `NOT(${equals(scalar())})`;
+      case 'gt':
+        return compare('>');
+      case 'gte':
+        return compare('>=');
+      case 'lt':
+        return compare('<');
+      case 'lte':
+        return compare('<=');
+      case 'contains': {
+        const candidate = scalar();
+        if (typeof candidate !== 'string') {
+          return fail(`"contains" on ${label} needs text, got ${JSON.stringify(candidate)}`);
+        }
+        const haystack = kind !== undefined && LIST_KINDS.has(kind) ? `ARRAYJOIN(${ref})` : ref;
+        return `FIND(${formulaLiteral(candidate)}, ${haystack})>0`;
+      }
+      case 'isEmpty':
+        return `${ref}=BLANK()`;
+      case 'isNotEmpty':
+        return `NOT(${ref}=BLANK())`;
+      case 'in':
+        return or(list().map(equals));
+      case 'before':
+        requireDateField();
+        return `IS_BEFORE(${ref}, ${date(scalar())})`;
+      case 'after':
+        requireDateField();
+        return `IS_AFTER(${ref}, ${date(scalar())})`;
+      case 'on':
+        requireDateField();
+        return `IS_SAME(${ref}, ${date(scalar())}, "day")`;
+      case 'between': {
+        const [from, to] = list(2);
+        if (kind === 'dateTime') {
+          return and([`NOT(IS_BEFORE(${ref}, ${date(from)}))`, `NOT(IS_AFTER(${ref}, ${date(to)}))`]);
+        }
+        if (typeof from !== 'number' || typeof to !== 'number') {
+          return fail(`"between" on ${label} needs two numbers or two dates`);
+        }
+        return and([`${ref}>=${formulaLiteral(from)}`, `${ref}<=${formulaLiteral(to)}`]);
+      }
+      default:
+        return fail(`unknown operator "${op}"`);
+    }
+  };
+
+  const compileExpression = (expression: FilterExpression): string => {
+    if ('and' in expression) {
+      return and(expression.and.map(compileExpression));
+    }
+    if ('or' in expression) {
+      return or(expression.or.map(compileExpression));
+    }
+    if ('not' in expression) {
+      return `NOT(${compileExpression(expression.not)})`;
+    }
+    return compileCondition(expression);
+  };
+
+  return compileExpression(filter);
+}
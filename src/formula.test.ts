@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import {
+  and,
+  fieldReference,
+  formulaLiteral,
+  or,
+} from './formula.js';
+
+describe('formula helpers', () => {
+  it('escapes closing braces in field references', () => {
+    expect(fieldReference('Email')).toBe('{Email}');
+    expect(fieldReference('Odd } name')).toBe('{Odd \\} name}');
+  });
+
+  it('quotes and escapes string literals', () => {
+    expect(formulaLiteral('say "hi" \\ bye')).toBe('"say \\"hi\\" \\\\ bye"');
+  });
+
+  it('writes numbers, booleans and null as formula values', () => {
+    expect(formulaLiteral(1.5)).toBe('1.5');
+    expect(formulaLiteral(true)).toBe('TRUE()');
+    expect(formulaLiteral(null)).toBe('BLANK()');
+    expect(() => formulaLiteral(NaN)).toThrow('Cannot use NaN');
+  });
+
+  it('only wraps multiple conditions', () => {
+    expect(and(['{A}=1'])).toBe('{A}=1');
+    expect(or(['{A}=1', '{B}=2'])).toBe('OR({A}=1, {B}=2)');
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Helpers for building AITable formulas, e.g. for filterByFormula
+ */
+import { ValidationError } from './errors.js';
+
+/**
+ * A reference to a field by name, e.g. {Email}
+ */
+export function fieldReference(fieldName: string): string {
+  return `{${fieldName.replace(/[\\}]/g, '\\$&')}}`;
+}
+
+/**
+ * A literal value, with strings quoted and escaped
+ */
+export function formulaLiteral(value: string | number | boolean | null): string {
+  if (value === null) {
+    return 'BLANK()';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE()' : 'FALSE()';
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new ValidationError(`aitable-mcp-server: Cannot use ${value} in a formula`);
+    }
+    return String(value);
+  }
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Joins conditions with AND(), skipping the wrapper for a single condition
+ */
+export function and(conditions: string[]): string {
+  return conditions.length === 1 ? conditions[0] : `AND(${conditions.join(', ')})`;
+}
+
+/**
+ * Joins conditions with OR(), skipping the wrapper for a single condition
+ */
+export function or(conditions: string[]): string {
+  return conditions.length === 1 ? conditions[0] : `OR(${conditions.join(', ')})`;
+}
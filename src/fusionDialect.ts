@@ -0,0 +1,245 @@
+import { z } from 'zod';
+import type {
+  AITableRecord,
+  BaseSchemaResponse,
+  Field,
+  FieldChanges,
+  ListBasesResponse,
+  ListRecordsOptions,
+  ListRecordsPage,
+  Table,
+} from './types.js';
+import { formulaLiteral } from './formula.js';
+import { Logger } from './logger.js';
+import type { ApiDialect, ApiRequest, DatasheetDetails } from './apiDialect.js';
+import { CancelledError, NotFoundError, ValidationError } from './errors.js';
+
+// Largest page size accepted by the fusion records endpoint
+export const MAX_FUSION_PAGE_SIZE = 1000;
+
+/**
+ * Wraps the data of a fusion API response in its envelope
+ */
+function fusionResponse<T extends z.ZodTypeAny>(data: T) {
+  return z.object({
+    success: z.boolean(),
+    code: z.number(),
+    data,
+    message: z.string(),
+  });
+}
+
+const FusionFieldSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  desc: z.string().optional(),
+  property: z.record(z.string(), z.any()).optional(),
+});
+
+function fromFusionField(field: z.infer<typeof FusionFieldSchema>): Field {
+  return {
+    id: field.id,
+    name: field.name,
+    type: field.type,
+    description: field.desc,
+    options: field.property,
+  };
+}
+
+/**
+ * The AITable fusion API, which wraps responses in an envelope, calls
+ * field options `property` and pages records by number rather than by token
+ */
+export class FusionDialect implements ApiDialect {
+  readonly name = 'fusion';
+
+  constructor(private readonly request: ApiRequest, private readonly datasheetDetails: DatasheetDetails) {}
+
+  async listBases(): Promise<ListBasesResponse> {
+    const response = await this.request('/spaces', fusionResponse(z.object({
+      spaces: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        isAdmin: z.boolean(),
+      })),
+    })));
+
+    return {
+      bases: response.data.spaces.map((space) => ({
+        id: space.id,
+        name: space.name,
+        permissionLevel: space.isAdmin ? 'owner' : 'read',
+      })),
+      // The fusion API lists every space at once
+      offset: undefined,
+    };
+  }
+
+  /**
+   * Lists the space's datasheets, then fetches the fields and views of each
+   */
+  async getBaseSchema(baseId: string): Promise<BaseSchemaResponse> {
+    const response = await this.request(`/spaces/${baseId}/nodes?type=Datasheet`, fusionResponse(z.object({
+      nodes: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        type: z.string(),
+        icon: z.string().optional(),
+      })),
+    })));
+
+    const tables = await Promise.all(response.data.nodes
+      .filter((node) => node.type === 'Datasheet')
+      .map(async (node): Promise<Table | undefined> => {
+        try {
+          const details = await this.datasheetDetails(baseId, node.id);
+          // The fields come with the primary field first
+          return details && {
+            id: node.id,
+            name: node.name,
+            primaryFieldId: details.fields[0]?.id || '',
+            fields: details.fields,
+            views: details.views,
+            description: '',
+          };
+        } catch (error) {
+          if (error instanceof CancelledError) {
+            throw error;
+          }
+          // Sent on to the client as a warning, so it knows the schema is missing a datasheet
+          Logger.getInstance().notify('warn', 'Left a datasheet out of the schema, as its details could not be read', { datasheetId: node.id, error });
+          return undefined;
+        }
+      }));
+
+    return {
+      tables: tables.filter((table): table is Table => table !== undefined),
+      bases: [],
+    };
+  }
+
+  async listRecordsPage(_baseId: string, tableId: string, options: ListRecordsOptions): Promise<ListRecordsPage> {
+    const params = new URLSearchParams();
+    const pageSize = options.pageSize
+      ?? (options.maxRecords ? Math.min(options.maxRecords, MAX_FUSION_PAGE_SIZE) : undefined);
+    const pageNum = options.pageNum ?? (options.pageToken ? parseInt(options.pageToken, 10) : undefined);
+
+    if (options.pageToken && options.pageNum === undefined && !Number.isInteger(pageNum)) {
+      throw new ValidationError(`aitable-mcp-server: Invalid page token "${options.pageToken}"`);
+    }
+    if (pageSize) {
+      params.append('pageSize', pageSize.toString());
+    }
+    if (options.maxRecords) {
+      params.append('maxRecords', options.maxRecords.toString());
+    }
+    if (pageNum) {
+      params.append('pageNum', pageNum.toString());
+    }
+    if (options.filterByFormula) {
+      params.append('filterByFormula', options.filterByFormula);
+    }
+    // The fusion API calls the sort direction `order` and the view `viewId`
+    options.sort?.forEach((sort, index) => {
+      params.append(`sort[${index}][field]`, sort.field);
+      params.append(`sort[${index}][order]`, sort.direction ?? 'asc');
+    });
+    options.fields?.forEach((field) => params.append('fields[]', field));
+    if (options.viewId) {
+      params.append('viewId', options.viewId);
+    }
+    if (options.cellFormat) {
+      params.append('cellFormat', options.cellFormat);
+    }
+    if (options.fieldKey) {
+      params.append('fieldKey', options.fieldKey);
+    }
+
+    const queryString = params.toString() ? `?${params.toString()}` : '';
+    const { data } = await this.request(`/datasheets/${tableId}/records${queryString}`, fusionResponse(z.object({
+      total: z.number().optional(),
+      records: z.array(z.object({
+        recordId: z.string(),
+        fields: z.record(z.any()),
+        createdAt: z.number().optional(),
+        updatedAt: z.number().optional(),
+      })),
+      pageNum: z.number(),
+      pageSize: z.number(),
+    })));
+
+    // Without a total, assume there is more whenever the page came back full
+    const fetchedSoFar = (data.pageNum - 1) * data.pageSize + data.records.length;
+    const limit = Math.min(data.total ?? Infinity, options.maxRecords ?? Infinity);
+    const hasMore = data.records.length > 0
+      && data.records.length >= data.pageSize
+      && fetchedSoFar < limit;
+
+    return {
+      records: data.records.map((record) => ({
+        id: record.recordId,
+        fields: record.fields,
+      })),
+      pageToken: hasMore ? String(data.pageNum + 1) : undefined,
+    };
+  }
+
+  /**
+   * The fusion API has no endpoint for a single record, so it is looked up by ID with a formula
+   */
+  async getRecord(baseId: string, tableId: string, recordId: string): Promise<AITableRecord> {
+    const { records } = await this.listRecordsPage(baseId, tableId, {
+      filterByFormula: `RECORD_ID()=${formulaLiteral(recordId)}`,
+      maxRecords: 1,
+    });
+    if (records.length === 0) {
+      throw new NotFoundError(`aitable-mcp-server: Record ${recordId} not found in datasheet ${tableId}`);
+    }
+    return records[0];
+  }
+
+  async searchRecords(_baseId: string, tableId: string, searchTerm: string, _fieldIds?: string[], maxRecords?: number): Promise<AITableRecord[]> {
+    const params = new URLSearchParams({ keyword: searchTerm });
+    if (maxRecords) {
+      params.append('pageSize', maxRecords.toString());
+    }
+
+    const response = await this.request(`/datasheets/${tableId}/search?${params.toString()}`, fusionResponse(z.object({
+      records: z.array(z.object({
+        recordId: z.string(),
+        data: z.record(z.string(), z.any()),
+      })),
+    })));
+
+    return response.data.records.map((record) => ({
+      id: record.recordId,
+      fields: record.data,
+    }));
+  }
+
+  async createField(_baseId: string, tableId: string, field: Omit<Field, 'id'>): Promise<Field> {
+    const response = await this.request(`/datasheets/${tableId}/fields`, fusionResponse(z.object({ field: FusionFieldSchema })), {
+      method: 'POST',
+      body: JSON.stringify({
+        name: field.name,
+        type: field.type,
+        desc: field.description,
+        property: field.options,
+      }),
+    });
+    return fromFusionField(response.data.field);
+  }
+
+  async updateField(_baseId: string, tableId: string, fieldId: string, updates: FieldChanges): Promise<Field> {
+    const response = await this.request(`/datasheets/${tableId}/fields/${fieldId}`, fusionResponse(z.object({ field: FusionFieldSchema })), {
+      method: 'PATCH',
+      body: JSON.stringify({
+        name: updates.name,
+        desc: updates.description,
+        property: updates.options,
+      }),
+    });
+    return fromFusionField(response.data.field);
+  }
+}
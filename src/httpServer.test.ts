@@ -0,0 +1,178 @@
+import {
+  describe, test, expect, beforeEach, afterEach,
+} from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpServer } from './httpServer.js';
+import type { RunningHttpServer } from './httpServer.js';
+import { AITableMCPServer } from './mcpServer.js';
+import type { IAITableService } from './types.js';
+
+describe('startHttpServer', () => {
+  const authHeaders = { Authorization: 'Bearer secret' };
+  let httpServer: RunningHttpServer;
+  let serversCreated: number;
+
+  beforeEach(async () => {
+    serversCreated = 0;
+    httpServer = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      authToken: 'secret',
+      createMcpServer: () => {
+        serversCreated++;
+        return new AITableMCPServer({} as IAITableService, { access: { readOnly: true } });
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await httpServer.close();
+  });
+
+  test('serves a health check without authentication', async () => {
+    const response = await fetch(`${httpServer.url}/health`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  test('rejects requests without the bearer token', async () => {
+    const response = await fetch(`${httpServer.url}/mcp`, { method: 'POST', body: '{}' });
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  test('gives each Streamable HTTP client its own session', async () => {
+    const clients = [new Client({ name: 'a', version: '1.0.0' }), new Client({ name: 'b', version: '1.0.0' })];
+    await Promise.all(clients.map((client) => client.connect(new StreamableHTTPClientTransport(
+      new URL(`${httpServer.url}/mcp`),
+      { requestInit: { headers: authHeaders } },
+    ))));
+
+    const { tools } = await clients[0].listTools();
+    expect(tools.map((tool) => tool.name)).toContain('list_records');
+    expect(serversCreated).toBe(2);
+    expect(await (await fetch(`${httpServer.url}/health`)).json()).toEqual({ status: 'ok', sessions: 2 });
+
+    await Promise.all(clients.map((client) => client.close()));
+  });
+
+  test('serves the legacy SSE transport', async () => {
+    const client = new Client({ name: 'sse', version: '1.0.0' });
+    await client.connect(new SSEClientTransport(new URL(`${httpServer.url}/sse`), {
+      requestInit: { headers: authHeaders },
+      eventSourceInit: {
+        fetch: (url, init) => fetch(url, { ...init, headers: { ...init?.headers, ...authHeaders } }),
+      },
+    }));
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toContain('list_records');
+
+    await client.close();
+  });
+});
+
+describe('startHttpServer session timeout', () => {
+  test('closes Streamable HTTP sessions that have gone idle', async () => {
+    const httpServer = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      sessionIdleTimeoutMs: 50,
+      createMcpServer: () => new AITableMCPServer({} as IAITableService, { access: { readOnly: true } }),
+    });
+    try {
+      const client = new Client({ name: 'idle', version: '1.0.0' });
+      await client.connect(new StreamableHTTPClientTransport(new URL(`${httpServer.url}/mcp`)));
+      const sessions = async () => (await (await fetch(`${httpServer.url}/health`)).json()).sessions;
+      expect(await sessions()).toBe(1);
+
+      await new Promise((resolve) => {
+        setTimeout(resolve, 200);
+      });
+
+      expect(await sessions()).toBe(0);
+      await expect(client.listTools()).rejects.toThrow();
+    } finally {
+      await httpServer.close();
+    }
+  });
+});
+
+describe('startHttpServer with per-client API keys', () => {
+  let httpServer: RunningHttpServer;
+  let apiKeys: (string | undefined)[];
+
+  beforeEach(async () => {
+    apiKeys = [];
+    httpServer = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      requireApiKey: true,
+      createMcpServer: ({ apiKey }) => {
+        apiKeys.push(apiKey);
+        return new AITableMCPServer({} as IAITableService, { access: { readOnly: true } });
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await httpServer.close();
+  });
+
+  const connect = async (init: { headers?: Record<string, string>; meta?: Record<string, unknown> }) => {
+    const client = new Client({ name: 'tenant', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${httpServer.url}/mcp`), {
+      requestInit: { headers: init.headers },
+      fetch: init.meta
+        ? async (url, request) => {
+          const body = typeof request?.body === 'string' ? JSON.parse(request.body) : undefined;
+          if (body?.method === 'initialize') {
+            body.params._meta = init.meta;
+            return fetch(url, { ...request, body: JSON.stringify(body) });
+          }
+          return fetch(url, request);
+        }
+        : undefined,
+    });
+    await client.connect(transport);
+    return { client, transport };
+  };
+
+  test('passes the key from the X-AITable-Api-Key header to the new session', async () => {
+    const { client } = await connect({ headers: { 'X-AITable-Api-Key': 'tenant-a' } });
+    expect(apiKeys).toEqual(['tenant-a']);
+    await client.close();
+  });
+
+  test('accepts the key in the initialize request metadata', async () => {
+    const { client } = await connect({ meta: { aitableApiKey: 'tenant-b' } });
+    expect(apiKeys).toEqual(['tenant-b']);
+    await client.close();
+  });
+
+  test('rejects a session without a key', async () => {
+    await expect(connect({})).rejects.toThrow();
+    expect(apiKeys).toEqual([]);
+  });
+
+  test('refuses to switch keys within a session', async () => {
+    const { client, transport } = await connect({ headers: { 'X-AITable-Api-Key': 'tenant-a' } });
+
+    const response = await fetch(`${httpServer.url}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'mcp-session-id': transport.sessionId ?? '',
+        'mcp-protocol-version': transport.protocolVersion ?? '',
+        'X-AITable-Api-Key': 'tenant-b',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 99, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(403);
+
+    await client.close();
+  });
+});
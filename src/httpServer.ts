@@ -0,0 +1,312 @@
+import { randomUUID, timingSafeEqual } from 'crypto';
+import {
+  createServer, IncomingMessage, Server, ServerResponse,
+} from 'http';
+import type { AddressInfo } from 'net';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { credentialFingerprint } from './credentials.js';
+import { Logger } from './logger.js';
+
+// Largest JSON-RPC request body accepted, in bytes
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Header a client uses to pass its own AITable API key
+const API_KEY_HEADER = 'x-aitable-api-key';
+
+// How long a Streamable HTTP session may go without a request before it is closed
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Longest wait between checks for idle sessions
+const MAX_IDLE_CHECK_INTERVAL_MS = 60 * 1000;
+
+const logger = Logger.getInstance();
+
+export interface HttpServerOptions {
+  host: string;
+  /** Port to listen on. 0 picks a free port */
+  port: number;
+  /** Clients must send `Authorization: Bearer <authToken>`. Unset disables auth */
+  authToken?: string;
+  /** Rejects sessions that don't bring their own AITable API key */
+  requireApiKey?: boolean;
+  /** Closes Streamable HTTP sessions that have had no request for this long. 0 keeps them open */
+  sessionIdleTimeoutMs?: number;
+  /** Creates the MCP server for a new session */
+  createMcpServer: (credentials: SessionCredentials) => McpServer;
+}
+
+export interface SessionCredentials {
+  /** AITable API key the client sent, if any */
+  apiKey?: string;
+}
+
+export interface RunningHttpServer {
+  /** Base URL the server is listening on, e.g. http://127.0.0.1:3000 */
+  url: string;
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: Transport;
+  server: McpServer;
+  /** Fingerprint of the API key the session was opened with */
+  credential?: string;
+  /** When the session last had a request */
+  lastActiveAt: number;
+}
+
+/**
+ * An error that maps to a specific HTTP status
+ */
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function isAuthorized(req: IncomingMessage, authToken: string | undefined): boolean {
+  if (!authToken) {
+    return true;
+  }
+
+  const match = /^Bearer (.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) {
+    return false;
+  }
+
+  // Compare in constant time so the token can't be guessed byte by byte
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(authToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  // eslint-disable-next-line no-restricted-syntax
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, `Request body is larger than ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * Reads the client's API key from the X-AITable-Api-Key header, falling back to
+ * `_meta.aitableApiKey` on the initialize request
+ */
+function readApiKey(req: IncomingMessage, body?: unknown): string | undefined {
+  const header = req.headers[API_KEY_HEADER];
+  if (typeof header === 'string' && header.trim()) {
+    return header.trim();
+  }
+
+  // eslint-disable-next-line no-underscore-dangle
+  const meta = (body as { params?: { _meta?: Record<string, unknown> } } | undefined)?.params?._meta;
+  const apiKey = meta?.aitableApiKey;
+  return typeof apiKey === 'string' && apiKey.trim() ? apiKey.trim() : undefined;
+}
+
+/**
+ * A request on an existing session may repeat its API key header, but can't
+ * switch to a different key
+ */
+function assertSameCredential(req: IncomingMessage, session: Session): void {
+  const apiKey = readApiKey(req);
+  if (apiKey && credentialFingerprint(apiKey) !== session.credential) {
+    throw new HttpError(403, 'The API key does not match the one this session was opened with');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+/**
+ * Serves MCP over HTTP: Streamable HTTP at /mcp, the legacy SSE transport at
+ * /sse and /messages, and a health check at /health. Each client session gets
+ * its own MCP server instance.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<RunningHttpServer> {
+  const sessions = new Map<string, Session>();
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (session) {
+      sessions.delete(sessionId);
+      await session.server.close();
+    }
+  };
+
+  const openSession = (apiKey: string | undefined) => {
+    if (!apiKey && options.requireApiKey) {
+      throw new HttpError(401, `Missing AITable API key: send it in the ${API_KEY_HEADER} header`);
+    }
+    return {
+      server: options.createMcpServer({ apiKey }),
+      credential: apiKey ? credentialFingerprint(apiKey) : undefined,
+    };
+  };
+
+  const handleStreamableHttp = async (req: IncomingMessage, res: ServerResponse) => {
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      assertSameCredential(req, session);
+      session.lastActiveAt = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'No session: send an initialize request without an mcp-session-id header first');
+      return;
+    }
+
+    const { server, credential } = openSession(readApiKey(req, body));
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, {
+          transport, server, credential, lastActiveAt: Date.now(),
+        });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        closeSession(transport.sessionId).catch((error) => logger.warn('Failed to close session', { error }));
+      }
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  // The SSE stream opens before the initialize request, so only the header works here
+  const handleSseConnect = async (req: IncomingMessage, res: ServerResponse) => {
+    const { server, credential } = openSession(readApiKey(req));
+    const transport = new SSEServerTransport('/messages', res);
+    sessions.set(transport.sessionId, {
+      transport, server, credential, lastActiveAt: Date.now(),
+    });
+    res.on('close', () => {
+      closeSession(transport.sessionId).catch((error) => logger.warn('Failed to close SSE session', { error }));
+    });
+    await server.connect(transport);
+  };
+
+  // Clients that go away without closing their session would otherwise keep it open for good.
+  // SSE sessions end with their connection, so only Streamable HTTP sessions time out
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const closeIdleSessions = () => {
+    const now = Date.now();
+    [...sessions.entries()]
+      .filter(([, session]) => session.transport instanceof StreamableHTTPServerTransport && now - session.lastActiveAt > idleTimeoutMs)
+      .forEach(([sessionId, session]) => {
+        logger.info('Closing idle session', { credential: session.credential, idleTimeoutMs });
+        closeSession(sessionId).catch((error) => logger.warn('Failed to close idle session', { error }));
+      });
+  };
+  const idleCheck = idleTimeoutMs > 0 ? setInterval(closeIdleSessions, Math.min(idleTimeoutMs, MAX_IDLE_CHECK_INTERVAL_MS)) : undefined;
+  idleCheck?.unref();
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+    assertSameCredential(req, session);
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    const route = async () => {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+        return;
+      }
+
+      if (!isAuthorized(req, options.authToken)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJsonRpcError(res, 401, 'Missing or invalid bearer token');
+        return;
+      }
+
+      if (url.pathname === '/mcp') {
+        await handleStreamableHttp(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnect(req, res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    };
+
+    route().catch((error) => {
+      if (!(error instanceof HttpError)) {
+        logger.error('Failed to handle HTTP request', { method: req.method, path: url.pathname, error });
+      }
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof HttpError ? error.status : 500, error instanceof Error ? error.message : String(error));
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  return {
+    url: `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${port}`,
+    close: () => {
+      clearInterval(idleCheck);
+      return closeHttpServer(httpServer, sessions, closeSession);
+    },
+  };
+}
+
+async function closeHttpServer(
+  httpServer: Server,
+  sessions: Map<string, Session>,
+  closeSession: (sessionId: string) => Promise<void>,
+): Promise<void> {
+  await Promise.all([...sessions.keys()].map(closeSession));
+  await new Promise<void>((resolve, reject) => {
+    httpServer.close((error) => (error ? reject(error) : resolve()));
+    httpServer.closeAllConnections();
+  });
+}
@@ -1,19 +1,46 @@
 #!/usr/bin/env node
 
 import 'dotenv/config';
+import path from 'path';
 import { AITableService } from './aitableService.js';
 import { AITableMCPServer } from './mcpServer.js';
+import { loadConfig } from './config.js';
+import type { ServerConfig } from './config.js';
+import { credentialFingerprint, ServicePool } from './credentials.js';
+import { startHttpServer } from './httpServer.js';
+import type { SessionCredentials } from './httpServer.js';
+import { Logger, redirectConsole } from './logger.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 
-// Print startup message to stderr so it's visible outside JSON-RPC
-process.stderr.write('AITable MCP Server starting...\n');
+// The logger only writes to stderr and log files, keeping stdout for JSON-RPC
+const logger = Logger.getInstance();
+logger.info('AITable MCP Server starting...');
 
 /**
- * Process debugging helper functions
+ * Serves MCP over HTTP, with a separate server instance per client session
  */
-function logStartup(message: string): void {
-  // Log to stderr to avoid interfering with JSON-RPC communication
-  process.stderr.write(`[STARTUP] ${message}\n`);
+async function serveHttp(
+  config: ServerConfig,
+  createMcpServer: (credentials: SessionCredentials) => AITableMCPServer,
+): Promise<void> {
+  if (!config.http.authToken) {
+    logger.warn('AITABLE_HTTP_AUTH_TOKEN is not set, so anyone who can reach the server can use it');
+  }
+  if (!config.apiKey) {
+    logger.info('No AITABLE_API_KEY set: each client must send its own key in the X-AITable-Api-Key header');
+  }
+
+  const httpServer = await startHttpServer({ ...config.http, requireApiKey: !config.apiKey, createMcpServer });
+  logger.info(`AITable MCP Server READY at ${httpServer.url}/mcp (legacy SSE at ${httpServer.url}/sse)`);
+
+  const handleTermination = async () => {
+    logger.info('Shutting down AITable MCP server...');
+    await httpServer.close();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', handleTermination);
+  process.on('SIGTERM', handleTermination);
 }
 
 /**
@@ -21,146 +48,167 @@ function logStartup(message: string): void {
  */
 export async function main(): Promise<void> {
   try {
-    // Debug process info
-    logStartup(`Process ID: ${process.pid}`);
-    logStartup(`Node version: ${process.version}`);
-    logStartup(`Working directory: ${process.cwd()}`);
-    
-    // Get the API key from command line arguments or environment variable
-    let apiKey = process.env.AITABLE_API_KEY;
-    
-    if (!apiKey && process.argv.length > 2) {
-      apiKey = process.argv[2];
-      logStartup('Using API key from command line argument');
+    // Get the API key and options from command line arguments or environment variables
+    const config = loadConfig();
+    logger.configure(config.log);
+    // Nothing may reach stdout in stdio mode, not even console output from dependencies
+    if (config.transport === 'stdio') {
+      redirectConsole(logger);
     }
+    logger.debug('Process info', { pid: process.pid, nodeVersion: process.version, cwd: process.cwd() });
     
-    if (!apiKey) {
+    // Over HTTP, clients can bring their own keys instead
+    if (!config.apiKey && config.transport !== 'http') {
       throw new Error('AITable API key is required. Set it using the AITABLE_API_KEY environment variable.');
     }
+    if (config.access.readOnly) {
+      logger.info('Read-only mode: write tools are disabled');
+    }
+    if (config.dryRun) {
+      logger.info('Dry-run mode: writes will be previewed, not performed');
+    }
     
-    // Create service and server instances
-    logStartup('Creating AITableService...');
-    const aitableService = new AITableService(apiKey);
+    // Create service and server instances, with a service per API key
+    logger.debug('Creating AITableService...');
+    const services = new ServicePool((apiKey) => new AITableService(apiKey, undefined, undefined, { access: config.access, apiDialect: config.apiDialect }));
     
-    logStartup('Creating AITableMCPServer...');
-    const mcpServer = new AITableMCPServer(aitableService);
+    logger.debug('Creating AITableMCPServer...');
+    const createMcpServer = (credentials: SessionCredentials = {}) => {
+      const apiKey = credentials.apiKey ?? config.apiKey!;
+      return new AITableMCPServer(services.get(apiKey), {
+        dryRun: config.dryRun,
+        deleteConfirmationThreshold: config.deleteConfirmationThreshold,
+        access: config.access,
+        coerce: config.coerce,
+        // Keep each key's snapshots and exports apart, so clients can't read each other's data
+        snapshotDir: path.join(config.snapshotDir, credentialFingerprint(apiKey)),
+        exportDir: path.join(config.exportDir, credentialFingerprint(apiKey)),
+        importDir: config.importDir,
+      });
+    };
+
+    if (config.transport === 'http') {
+      await serveHttp(config, createMcpServer);
+      return;
+    }
+
+    const mcpServer = createMcpServer();
     
     // Directly register additional method handlers for Cursor compatibility 
     if ((mcpServer as any).server && (mcpServer as any).server.protocol) {
       const protocol = (mcpServer as any).server.protocol;
-      logStartup('Adding direct protocol handlers for Cursor compatibility');
+      logger.debug('Adding direct protocol handlers for Cursor compatibility');
       
       // Debug the protocol handlers
       const protocolMethods = Object.keys(protocol);
-      logStartup(`Available protocol methods: ${protocolMethods.join(', ')}`);
+      logger.debug(`Available protocol methods: ${protocolMethods.join(', ')}`);
       
       // Debug the router if available
       if (protocol.router) {
         const routerMethods = Object.keys(protocol.router);
-        logStartup(`Available router methods: ${routerMethods.join(', ')}`);
+        logger.debug(`Available router methods: ${routerMethods.join(', ')}`);
         
         // Debug registered request handlers if available
         if (protocol.router.requestHandlers) {
           const requestHandlers = Object.keys(protocol.router.requestHandlers);
-          logStartup(`Registered request handlers: ${requestHandlers.join(', ')}`);
+          logger.debug(`Registered request handlers: ${requestHandlers.join(', ')}`);
         }
       }
       
       // Debug request handlers if available
       if (protocol.requestHandlers) {
         const requestHandlers = Object.keys(protocol.requestHandlers);
-        logStartup(`Protocol request handlers: ${requestHandlers.join(', ')}`);
+        logger.debug(`Protocol request handlers: ${requestHandlers.join(', ')}`);
       }
 
       try {
         // Try to register the method directly with the protocol
         if (typeof protocol.addMethod === 'function') {
-          logStartup('Adding request handlers via protocol.addMethod');
+          logger.debug('Adding request handlers via protocol.addMethod');
           
           // The standard MCP method name is tools/call, but Cursor also might use tools/execute
           protocol.addMethod('tools/call', async (params: any) => {
-            logStartup(`Executing tool via protocol.addMethod (tools/call): ${params.name}`);
+            logger.debug(`Executing tool via protocol.addMethod (tools/call): ${params.name}`);
             return await mcpServer.executeToolDirectly(params.name, params.arguments || params.input);
           });
           
           // Also add the Cursor-specific method name
           protocol.addMethod('tools/execute', async (params: any) => {
-            logStartup(`Executing tool via protocol.addMethod (tools/execute): ${params.name}`);
+            logger.debug(`Executing tool via protocol.addMethod (tools/execute): ${params.name}`);
             return await mcpServer.executeToolDirectly(params.name, params.input);
           });
         } 
         // Try to access the router property
         else if (protocol.router && typeof protocol.router.addMethod === 'function') {
-          logStartup('Adding request handlers via router.addMethod');
+          logger.debug('Adding request handlers via router.addMethod');
           
           // The standard MCP method name is tools/call, but Cursor also might use tools/execute
           protocol.router.addMethod('tools/call', async (params: any) => {
-            logStartup(`Executing tool via router.addMethod (tools/call): ${params.name}`);
+            logger.debug(`Executing tool via router.addMethod (tools/call): ${params.name}`);
             return await mcpServer.executeToolDirectly(params.name, params.arguments || params.input);
           });
           
           // Also add the Cursor-specific method name
           protocol.router.addMethod('tools/execute', async (params: any) => {
-            logStartup(`Executing tool via router.addMethod (tools/execute): ${params.name}`);
+            logger.debug(`Executing tool via router.addMethod (tools/execute): ${params.name}`);
             return await mcpServer.executeToolDirectly(params.name, params.input);
           });
         }
         // Try to add the request handler
         else if (typeof protocol.addRequestHandler === 'function') {
-          logStartup('Adding request handlers via addRequestHandler');
+          logger.debug('Adding request handlers via addRequestHandler');
           
           // The standard MCP method name is tools/call, but Cursor also might use tools/execute
           protocol.addRequestHandler('tools/call', async (params: any) => {
-            logStartup(`Executing tool via addRequestHandler (tools/call): ${params.name}`);
+            logger.debug(`Executing tool via addRequestHandler (tools/call): ${params.name}`);
             return await mcpServer.executeToolDirectly(params.name, params.arguments || params.input);
           });
           
           // Also add the Cursor-specific method name
           protocol.addRequestHandler('tools/execute', async (params: any) => {
-            logStartup(`Executing tool via addRequestHandler (tools/execute): ${params.name}`);
+            logger.debug(`Executing tool via addRequestHandler (tools/execute): ${params.name}`);
             return await mcpServer.executeToolDirectly(params.name, params.input);
           });
         }
         // Try to set the request handler
         else if (typeof protocol.setRequestHandler === 'function') {
-          logStartup('Adding request handlers via setRequestHandler');
+          logger.debug('Adding request handlers via setRequestHandler');
           
           // The standard MCP method name is tools/call, but Cursor also might use tools/execute
           protocol.setRequestHandler('tools/call', async (request: any) => {
             const params = request.params;
-            logStartup(`Executing tool via setRequestHandler (tools/call): ${params.name}`);
+            logger.debug(`Executing tool via setRequestHandler (tools/call): ${params.name}`);
             return await mcpServer.executeToolDirectly(params.name, params.arguments || params.input);
           });
           
           // Also add the Cursor-specific method name
           protocol.setRequestHandler('tools/execute', async (request: any) => {
             const params = request.params;
-            logStartup(`Executing tool via setRequestHandler (tools/execute): ${params.name}`);
+            logger.debug(`Executing tool via setRequestHandler (tools/execute): ${params.name}`);
             return await mcpServer.executeToolDirectly(params.name, params.input);
           });
         }
         else {
-          logStartup('Could not add direct handlers, methods not available');
+          logger.debug('Could not add direct handlers, methods not available');
         }
       } catch (error) {
-        logStartup(`Error registering method: ${error}`);
+        logger.warn('Error registering method', { error });
       }
     }
     
     // Create transport
-    console.error('[STARTUP] Creating StdioServerTransport...');
+    logger.debug('Creating StdioServerTransport...');
     const transport = new StdioServerTransport();
 
     // Connect to transport
-    console.error('[STARTUP] Connecting to transport...');
+    logger.debug('Connecting to transport...');
     await mcpServer.connect(transport);
     
-    // Announce we're ready on stderr
-    process.stderr.write('AITable MCP Server READY\n');
+    logger.info('AITable MCP Server READY');
     
     // Handle termination signals
     const handleTermination = async () => {
-      logStartup('Shutting down AITable MCP server...');
+      logger.info('Shutting down AITable MCP server...');
       await mcpServer.close();
       process.exit(0);
     };
@@ -170,16 +218,16 @@ export async function main(): Promise<void> {
     
     // Log uncaught exceptions
     process.on('uncaughtException', (error) => {
-      process.stderr.write(`Uncaught exception: ${error.message}\n${error.stack}\n`);
+      logger.error('Uncaught exception', { error });
     });
 
     // Log unhandled rejections
     process.on('unhandledRejection', (reason) => {
-      process.stderr.write(`Unhandled rejection: ${reason}\n`);
+      logger.error('Unhandled rejection', { error: reason });
     });
     
   } catch (error) {
-    process.stderr.write(`Error starting AITable MCP server: ${error}\n`);
+    logger.error('Error starting AITable MCP server', { error });
     process.exit(1);
   }
 }
@@ -0,0 +1,115 @@
+import {
+  describe, it, expect, vi, beforeEach, afterEach,
+} from 'vitest';
+import {
+  mkdtemp, readdir, readFile, rm,
+} from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { LOG_FILE_NAME, Logger, redirectConsole } from './logger.js';
+import { runInCallContext } from './callContext.js';
+import { NotFoundError } from './errors.js';
+
+describe('Logger', () => {
+  let stderr: ReturnType<typeof vi.spyOn>;
+  let stdout: ReturnType<typeof vi.spyOn>;
+
+  // The JSON lines written to stderr so far
+  const lines = () => stderr.mock.calls.map(([chunk]) => JSON.parse(String(chunk)));
+
+  beforeEach(() => {
+    stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes JSON lines at or above its level to stderr', () => {
+    const logger = new Logger({ level: 'info' });
+
+    logger.debug('Hidden');
+    logger.info('Shown', { tool: 'list_bases' });
+    logger.error('Failed', { error: new NotFoundError('No such table') });
+
+    expect(lines()).toEqual([
+      {
+        time: expect.any(String), level: 'info', msg: 'Shown', tool: 'list_bases',
+      },
+      {
+        time: expect.any(String),
+        level: 'error',
+        msg: 'Failed',
+        error: {
+          name: 'NotFoundError', message: 'No such table', errorCode: 'NOT_FOUND',
+        },
+      },
+    ]);
+    expect(stdout).not.toHaveBeenCalled();
+  });
+
+  it('tags lines with the request ID of the call they were logged in', async () => {
+    const logger = new Logger();
+
+    await runInCallContext({ requestId: 'req1' }, async () => {
+      await Promise.resolve();
+      logger.info('Inside');
+    });
+    logger.info('Outside');
+
+    expect(lines().map((line) => line.requestId)).toEqual(['req1', undefined]);
+  });
+
+  it('sends only lines meant for the client on to the call that logged them', () => {
+    const logger = new Logger();
+    const notify = vi.fn();
+
+    runInCallContext({ requestId: 'req1', notify }, () => {
+      logger.warn('API request failed', { status: 500 });
+      logger.notify('warn', 'Left a datasheet out', { datasheetId: 'dst2' });
+    });
+
+    expect(notify.mock.calls).toEqual([['warn', { msg: 'Left a datasheet out', datasheetId: 'dst2' }]]);
+    expect(lines().map((line) => line.msg)).toEqual(['API request failed', 'Left a datasheet out']);
+  });
+
+  it('always logs audit entries and redacts API keys from request headers', () => {
+    const logger = new Logger({ level: 'debug' });
+    logger.logApiRequest('GET', 'https://aitable.ai/fusion/v1/spaces', { Authorization: 'Bearer secret', Accept: 'application/json' });
+    logger.configure({ level: 'error' });
+    logger.audit({ action: 'create_records', ids: ['rec1'] });
+
+    const [request, audit] = lines();
+    expect(request.headers).toEqual({ Authorization: '[REDACTED]', Accept: 'application/json' });
+    expect(audit).toMatchObject({ level: 'audit', action: 'create_records', ids: ['rec1'] });
+  });
+
+  it('routes console output through the logger instead of stdout', () => {
+    const original = { ...console };
+    try {
+      redirectConsole(new Logger());
+      // eslint-disable-next-line no-console
+      console.log('Loaded %d tools', 3);
+    } finally {
+      Object.assign(console, original);
+    }
+
+    expect(stdout).not.toHaveBeenCalled();
+    expect(lines()).toEqual([{ time: expect.any(String), level: 'info', msg: 'Loaded 3 tools' }]);
+  });
+
+  it('rotates the log file once it grows past the size limit', async () => {
+    const logDir = await mkdtemp(path.join(tmpdir(), 'aitable-logs-'));
+    try {
+      const logger = new Logger({ logDir, maxFileBytes: 200, maxFiles: 2 });
+      Array.from({ length: 8 }, (_, index) => index).forEach((index) => logger.info(`Line ${index}`));
+
+      expect((await readdir(logDir)).sort()).toEqual(['aitable-mcp-server.1.log', 'aitable-mcp-server.2.log', LOG_FILE_NAME]);
+      const current = (await readFile(path.join(logDir, LOG_FILE_NAME), 'utf8')).trim().split('\n');
+      expect(JSON.parse(current[current.length - 1]).msg).toBe('Line 7');
+    } finally {
+      await rm(logDir, { recursive: true, force: true });
+    }
+  });
+});
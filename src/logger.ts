@@ -1,28 +1,92 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as util from 'util';
+import { AITableError } from './errors.js';
+import { currentCall } from './callContext.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export const DEFAULT_LOG_MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+export const DEFAULT_LOG_MAX_FILES = 5;
+
+export const LOG_FILE_NAME = 'aitable-mcp-server.log';
+
+/** Response bodies longer than this are cut short in debug logs */
+const MAX_LOGGED_BODY_LENGTH = 2000;
+
+export interface LoggerOptions {
+  /** Least severe level that is written */
+  level?: LogLevel;
+  /** Directory to write log files to, besides stderr */
+  logDir?: string;
+  /** Size a log file may grow to before it is rotated */
+  maxFileBytes?: number;
+  /** Rotated log files kept besides the current one */
+  maxFiles?: number;
+}
+
+export type LogFields = Record<string, unknown>;
+
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as string[]).includes(value);
+}
+
+/**
+ * Errors don't survive JSON.stringify, so they are logged as their name,
+ * message and, for errors of a known kind, errorCode and status
+ */
+function jsonValue(_key: string, value: unknown): unknown {
+  if (value instanceof AITableError) {
+    return {
+      name: value.name, message: value.message, errorCode: value.errorCode, status: value.status,
+    };
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function truncate(body: unknown): unknown {
+  return typeof body === 'string' && body.length > MAX_LOGGED_BODY_LENGTH
+    ? `${body.substring(0, MAX_LOGGED_BODY_LENGTH)}... [truncated]`
+    : body;
+}
+
+function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => (
+    ['authorization', 'x-aitable-api-key'].includes(name.toLowerCase()) ? [name, '[REDACTED]'] : [name, value]
+  )));
+}
 
 /**
- * Logger for AITable MCP Server
- * Handles logging to both console and file
+ * Writes JSON lines to stderr and, when configured, to a log file that is
+ * rotated by size. Nothing is ever written to stdout, which carries
+ * JSON-RPC in stdio mode
  */
 export class Logger {
-  private logDir: string;
-  private logFile: string;
-  private debugMode: boolean;
-  private static instance: Logger;
-
-  private constructor() {
-    this.logDir = path.join(process.cwd(), 'logs');
-    this.ensureLogDirExists();
-    
-    const timestamp = new Date().toISOString().replace(/:/g, '-');
-    this.logFile = path.join(this.logDir, `aitable-mcp-${timestamp}.log`);
-    this.debugMode = process.env.LOG_LEVEL === 'debug';
-    
-    this.info(`Logger initialized. Debug mode: ${this.debugMode}`);
+  private static instance: Logger | undefined;
+
+  private level: LogLevel = 'info';
+
+  private logFile?: string;
+
+  private fileBytes = 0;
+
+  private maxFileBytes = DEFAULT_LOG_MAX_FILE_BYTES;
+
+  private maxFiles = DEFAULT_LOG_MAX_FILES;
+
+  constructor(options: LoggerOptions = {}) {
+    this.configure(options);
   }
 
+  /**
+   * The logger the server and service share
+   */
   static getInstance(): Logger {
     if (!Logger.instance) {
       Logger.instance = new Logger();
@@ -30,112 +94,131 @@ export class Logger {
     return Logger.instance;
   }
 
-  private ensureLogDirExists(): void {
-    if (!fs.existsSync(this.logDir)) {
-      fs.mkdirSync(this.logDir, { recursive: true });
+  configure(options: LoggerOptions): void {
+    this.level = options.level ?? this.level;
+    this.maxFileBytes = options.maxFileBytes ?? this.maxFileBytes;
+    this.maxFiles = options.maxFiles ?? this.maxFiles;
+    if (options.logDir) {
+      fs.mkdirSync(options.logDir, { recursive: true });
+      this.logFile = path.join(options.logDir, LOG_FILE_NAME);
+      this.fileBytes = fs.existsSync(this.logFile) ? fs.statSync(this.logFile).size : 0;
     }
   }
 
-  private formatMessage(level: string, message: string, obj?: any): string {
-    const timestamp = new Date().toISOString();
-    let logMessage = `[${timestamp}] [${level}] ${message}`;
-    
-    if (obj !== undefined) {
-      try {
-        const objString = typeof obj === 'string' ? obj : util.inspect(obj, { depth: 5, colors: false });
-        logMessage += `\n${objString}`;
-      } catch (err) {
-        logMessage += `\n[Error formatting object: ${err instanceof Error ? err.message : String(err)}]`;
-      }
-    }
-    
-    return logMessage;
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.level);
   }
 
-  private writeToFile(message: string): void {
-    try {
-      fs.appendFileSync(this.logFile, message + '\n');
-    } catch (err) {
-      console.error(`Failed to write to log file: ${err instanceof Error ? err.message : String(err)}`);
-    }
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
   }
 
-  /**
-   * Log debug information (only if debug mode is enabled)
-   */
-  debug(message: string, obj?: any): void {
-    if (!this.debugMode) return;
-    
-    const formattedMessage = this.formatMessage('DEBUG', message, obj);
-    console.debug(formattedMessage);
-    this.writeToFile(formattedMessage);
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
   }
 
-  /**
-   * Log general information
-   */
-  info(message: string, obj?: any): void {
-    const formattedMessage = this.formatMessage('INFO', message, obj);
-    console.log(formattedMessage);
-    this.writeToFile(formattedMessage);
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
   }
 
-  /**
-   * Log warnings
-   */
-  warn(message: string, obj?: any): void {
-    const formattedMessage = this.formatMessage('WARN', message, obj);
-    console.warn(formattedMessage);
-    this.writeToFile(formattedMessage);
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
   }
 
   /**
-   * Log errors
+   * Logs a write for the audit trail, whatever the level
    */
-  error(message: string, obj?: any): void {
-    const formattedMessage = this.formatMessage('ERROR', message, obj);
-    console.error(formattedMessage);
-    this.writeToFile(formattedMessage);
+  audit(fields: LogFields): void {
+    this.write('audit', 'audit', fields);
   }
 
-  /**
-   * Log API request information
-   */
-  logApiRequest(method: string, url: string, headers: object, body?: any): void {
-    this.debug(`API Request: ${method} ${url}`, {
-      headers: this.sanitizeHeaders(headers),
-      body: body
+  logApiRequest(method: string, url: string, headers: Record<string, string>, body?: unknown): void {
+    this.debug('API request', {
+      method, url, headers: redactHeaders(headers), body: truncate(body),
+    });
+  }
+
+  logApiResponse(method: string, url: string, status: number, durationMs: number, body?: unknown): void {
+    this.debug('API response', {
+      method, url, status, durationMs, body: truncate(body),
     });
   }
 
   /**
-   * Log API response information
+   * Writes a line at or above the logger's level
    */
-  logApiResponse(url: string, status: number, headers: object, body: any): void {
-    this.debug(`API Response: ${status} ${url}`, {
-      headers,
-      body: this.truncateResponseBody(body)
-    });
+  log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (this.isEnabled(level)) {
+      this.write(level, message, fields);
+    }
   }
 
   /**
-   * Sanitize headers to remove sensitive information
+   * Logs a line that the client making the current call should hear about
+   * too, like a retry or a datasheet left out, and sends it to that client,
+   * which filters by the level it set
    */
-  private sanitizeHeaders(headers: any): any {
-    const sanitized = { ...headers };
-    if (sanitized.Authorization) {
-      sanitized.Authorization = 'Bearer [REDACTED]';
+  notify(level: LogLevel, message: string, fields?: LogFields): void {
+    this.log(level, message, fields);
+    const notify = currentCall()?.notify;
+    if (notify) {
+      notify(level, JSON.parse(JSON.stringify({ msg: message, ...fields }, jsonValue)));
+    }
+  }
+
+  private write(level: LogLevel | 'audit', message: string, fields: LogFields = {}): void {
+    const line = JSON.stringify({
+      time: new Date().toISOString(), level, requestId: currentCall()?.requestId, msg: message, ...fields,
+    }, jsonValue);
+    process.stderr.write(`${line}\n`);
+    if (this.logFile) {
+      this.appendToFile(this.logFile, `${line}\n`);
+    }
+  }
+
+  private appendToFile(logFile: string, line: string): void {
+    try {
+      const bytes = Buffer.byteLength(line);
+      if (this.fileBytes > 0 && this.fileBytes + bytes > this.maxFileBytes) {
+        this.rotate(logFile);
+      }
+      fs.appendFileSync(logFile, line);
+      this.fileBytes += bytes;
+    } catch (error) {
+      process.stderr.write(`aitable-mcp-server: Failed to write to log file ${logFile}: ${error instanceof Error ? error.message : String(error)}\n`);
     }
-    return sanitized;
   }
 
   /**
-   * Truncate large response bodies to avoid filling the log file
+   * Moves the log file to `.1.log`, `.1.log` to `.2.log` and so on, dropping
+   * the oldest
    */
-  private truncateResponseBody(body: any): any {
-    if (typeof body === 'string') {
-      return body.length > 2000 ? body.substring(0, 2000) + '... [truncated]' : body;
+  private rotate(logFile: string): void {
+    const rotated = (index: number) => logFile.replace(/\.log$/, `.${index}.log`);
+    fs.rmSync(rotated(this.maxFiles), { force: true });
+    Array.from({ length: Math.max(this.maxFiles - 1, 0) }, (_, offset) => this.maxFiles - 1 - offset)
+      .filter((index) => fs.existsSync(rotated(index)))
+      .forEach((index) => fs.renameSync(rotated(index), rotated(index + 1)));
+    if (this.maxFiles > 0) {
+      fs.renameSync(logFile, rotated(1));
+    } else {
+      fs.rmSync(logFile, { force: true });
     }
-    return body;
+    this.fileBytes = 0;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Sends console output through the logger, so nothing a dependency prints
+ * reaches stdout
+ */
+export function redirectConsole(logger: Logger): void {
+  const to = (level: LogLevel) => (...args: unknown[]) => logger.log(level, util.format(...args));
+  Object.assign(console, {
+    log: to('info'),
+    info: to('info'),
+    debug: to('debug'),
+    warn: to('warn'),
+    error: to('error'),
+  });
+}
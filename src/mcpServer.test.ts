@@ -5,10 +5,754 @@ import type {
   JSONRPCMessage, JSONRPCRequest, JSONRPCResponse, Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
-import type { IAITableService } from './types.js';
+import {
+  mkdtemp, readdir, readFile, rm, writeFile,
+} from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { AITableMCPServerOptions, IAITableService } from './types.js';
 import { AITableMCPServer } from './mcpServer.js';
+import { apiError } from './errors.js';
+import { Logger } from './logger.js';
+import { currentCall, reportProgress } from './callContext.js';
 import { McpServer, McpConnection } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { ClientMessage, ContentItemText } from '@modelcontextprotocol/sdk/types.js';
+import { ClientMessage, ContentItemText, LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { LoggingMessageNotification, Progress } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+
+// These run against a real McpServer, so they must stay ahead of the suite
+// below, which replaces McpServer.prototype methods with mocks
+describe('AITableMCPServer tools', () => {
+  let server: AITableMCPServer;
+  let client: Client;
+  let service: IAITableService;
+
+  beforeEach(async () => {
+    service = {
+      getBaseSchema: vi.fn().mockResolvedValue({
+        tables: [{
+          id: 'dst1',
+          name: 'Projects',
+          description: 'All projects',
+          primaryFieldId: 'fld1',
+          fields: [{ id: 'fld1', name: 'Name', type: 'SingleText' }],
+          views: [{ id: 'viw1', name: 'Grid', type: 'Grid' }],
+        }],
+      }),
+      searchRecords: vi.fn().mockResolvedValue([{ id: 'rec1', fields: { Name: 'Roadmap' } }]),
+      updateField: vi.fn().mockResolvedValue({ id: 'fld1', name: 'Title', type: 'SingleText' }),
+      resolveDatasheetId: vi.fn(async (_spaceId: string, ref: string) => (ref === 'Projects' ? 'dst1' : ref)),
+      resolveFieldIds: vi.fn(async (_spaceId: string, _datasheetId: string, refs: string[]) => refs),
+      clearSchemaCache: vi.fn(),
+      resolveFieldSet: vi.fn(async (_spaceId: string, _datasheetId: string, fields: object) => fields),
+      prepareFieldSet: vi.fn(async (_spaceId: string, _datasheetId: string, fields: object) => ({ fields, coercions: [] })),
+      createRecords: vi.fn().mockResolvedValue({
+        succeeded: [],
+        failed: [{ index: 0, error: 'Bad value' }],
+      }),
+    } as unknown as IAITableService;
+
+    server = new AITableMCPServer(service);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverSide), client.connect(clientSide)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const result = await client.callTool({ name, arguments: args });
+    const [content] = result.content as { text: string }[];
+    return { isError: result.isError, body: JSON.parse(content.text) };
+  };
+
+  test('list_tables trims tables to identifiers', async () => {
+    const { body } = await callTool('list_tables', { baseId: 'spc1', detailLevel: 'tableIdentifiersOnly' });
+    expect(body).toEqual({ tables: [{ id: 'dst1', name: 'Projects' }] });
+  });
+
+  test('describe_table returns field and view identifiers', async () => {
+    const { body } = await callTool('describe_table', { baseId: 'spc1', tableId: 'dst1', detailLevel: 'identifiersOnly' });
+    expect(body).toEqual({
+      table: {
+        id: 'dst1',
+        name: 'Projects',
+        fields: [{ id: 'fld1', name: 'Name' }],
+        views: [{ id: 'viw1', name: 'Grid' }],
+      },
+    });
+  });
+
+  test('describe_table accepts a table name', async () => {
+    const { body } = await callTool('describe_table', { baseId: 'spc1', tableId: 'Projects', detailLevel: 'tableIdentifiersOnly' });
+    expect(body).toEqual({ table: { id: 'dst1', name: 'Projects' } });
+  });
+
+  test('describe_table reports an unknown table as an error', async () => {
+    const { isError, body } = await callTool('describe_table', { baseId: 'spc1', tableId: 'dst404' });
+    expect(isError).toBe(true);
+    expect(body.error).toContain('dst404');
+    expect(body).toMatchObject({ errorCode: 'NOT_FOUND', retryable: false });
+  });
+
+  test('reports API failures with their kind and whether to retry', async () => {
+    vi.mocked(service.searchRecords).mockRejectedValueOnce(apiError(429, { code: 429, message: 'Too many requests' }));
+
+    const { isError, body } = await callTool('search_records', { baseId: 'spc1', tableId: 'dst1', searchTerm: 'Road' });
+
+    expect(isError).toBe(true);
+    expect(body).toMatchObject({
+      error: 'aitable-mcp-server: API request failed (429): Too many requests', errorCode: 'RATE_LIMIT', retryable: true, status: 429,
+    });
+    expect(body.remediation).toBeTruthy();
+  });
+
+  test('logs each tool call with a request ID shared by what the service logs', async () => {
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    vi.mocked(service.searchRecords).mockImplementationOnce(async () => {
+      Logger.getInstance().warn('API request failed');
+      return [];
+    });
+
+    let lines: Record<string, unknown>[];
+    try {
+      await callTool('search_records', { baseId: 'spc1', tableId: 'dst1', searchTerm: 'Road' });
+      lines = stderr.mock.calls.map(([chunk]) => JSON.parse(String(chunk)));
+    } finally {
+      stderr.mockRestore();
+    }
+
+    const apiLine = lines.find((line) => line.msg === 'API request failed');
+    const toolLine = lines.find((line) => line.msg === 'Tool call finished');
+    expect(toolLine).toMatchObject({ level: 'info', tool: 'search_records', durationMs: expect.any(Number) });
+    expect(apiLine.requestId).toEqual(expect.any(String));
+    expect(apiLine.requestId).toBe(toolLine.requestId);
+  });
+
+  test('search_records and update_field call through to the service', async () => {
+    await callTool('search_records', { baseId: 'spc1', tableId: 'dst1', searchTerm: 'Road' });
+    await callTool('update_field', { baseId: 'spc1', tableId: 'dst1', fieldId: 'fld1', name: 'Title' });
+
+    expect(service.searchRecords).toHaveBeenCalledWith('spc1', 'dst1', 'Road', undefined, undefined);
+    expect(service.updateField).toHaveBeenCalledWith('spc1', 'dst1', 'fld1', { name: 'Title', description: undefined });
+  });
+
+  test('create_records flags a write where every record failed as an error', async () => {
+    const { isError, body } = await callTool('create_records', { baseId: 'spc1', tableId: 'dst1', records: [{ fields: { Name: 'Ada' } }] });
+    expect(isError).toBe(true);
+    expect(body).toEqual({ records: [], failed: [{ index: 0, error: 'Bad value' }] });
+  });
+
+  test('create_records passes the coercion mode on and reports coercions by record', async () => {
+    vi.mocked(service.prepareFieldSet).mockImplementation(async (_spaceId, _datasheetId, fields) => (fields.Due === '2025-03-01'
+      ? { fields: { Due: 1740787200000 }, coercions: [{ field: 'Due', from: '2025-03-01', to: 1740787200000, reason: 'parsed date' }] }
+      : { fields, coercions: [] }));
+    vi.mocked(service.createRecords).mockResolvedValue({ succeeded: [{ id: 'rec1', fields: {} }, { id: 'rec2', fields: {} }], failed: [] });
+
+    const { body } = await callTool('create_records', {
+      baseId: 'spc1',
+      tableId: 'dst1',
+      records: [{ fields: { Name: 'Ada' } }, { fields: { Due: '2025-03-01' } }],
+      coerce: 'lenient',
+    });
+
+    expect(service.prepareFieldSet).toHaveBeenCalledWith('spc1', 'dst1', { Due: '2025-03-01' }, 'lenient');
+    expect(service.createRecords).toHaveBeenCalledWith('spc1', 'dst1', [{ fields: { Name: 'Ada' } }, { fields: { Due: 1740787200000 } }]);
+    expect(body.coercions).toEqual([{ record: 1, field: 'Due', from: '2025-03-01', to: 1740787200000, reason: 'parsed date' }]);
+  });
+
+  test('list_records compiles a structured filter and echoes the formula', async () => {
+    Object.assign(service, {
+      compileFilter: vi.fn().mockResolvedValue('{Status}="Done"'),
+      listRecordsPage: vi.fn().mockResolvedValue({ records: [] }),
+    });
+    const filter = { field: 'Status', op: 'eq', value: 'Done' };
+
+    const { body } = await callTool('list_records', {
+      baseId: 'spc1', tableId: 'dst1', filter, filterByFormula: '{Count}>1',
+    });
+
+    expect(service.compileFilter).toHaveBeenCalledWith('spc1', 'dst1', filter);
+    expect(body).toEqual({ records: [], filterByFormula: 'AND({Count}>1, {Status}="Done")' });
+  });
+
+  test('list_records resolves sort, projection and view references', async () => {
+    Object.assign(service, {
+      resolveFieldNames: vi.fn(async (_spaceId: string, _datasheetId: string, refs: string[]) => refs.map((ref) => ref.toUpperCase())),
+      resolveViewId: vi.fn().mockResolvedValue('viw1'),
+      listRecordsPage: vi.fn().mockResolvedValue({ records: [] }),
+    });
+
+    await callTool('list_records', {
+      baseId: 'spc1', tableId: 'dst1', sort: [{ field: 'due', direction: 'desc' }], fields: ['name'], viewId: 'Grid', cellFormat: 'string',
+    });
+
+    expect(service.listRecordsPage).toHaveBeenCalledWith('spc1', 'dst1', expect.objectContaining({
+      sort: [{ field: 'DUE', direction: 'desc' }],
+      fields: ['NAME'],
+      viewId: 'viw1',
+      cellFormat: 'string',
+    }));
+  });
+
+  test('refresh_schema_cache clears the requested scope', async () => {
+    const { body } = await callTool('refresh_schema_cache', { tableId: 'dst1' });
+    expect(body).toEqual({ cleared: { tableId: 'dst1' } });
+    expect(service.clearSchemaCache).toHaveBeenCalledWith({ spaceId: undefined, datasheetId: 'dst1' });
+  });
+
+  test('executes a tool directly, checking its arguments', async () => {
+    const result = await server.executeToolDirectly('search_records', { baseId: 'spc1', tableId: 'dst1', searchTerm: 'Road' });
+    expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual({ records: [{ id: 'rec1', fields: { Name: 'Roadmap' } }] });
+
+    const invalid = await server.executeToolDirectly('search_records', { baseId: 'spc1' });
+    expect(invalid.isError).toBe(true);
+    expect(JSON.parse((invalid.content[0] as { text: string }).text)).toMatchObject({ errorCode: 'VALIDATION' });
+
+    await expect(server.executeToolDirectly('no_such_tool', {})).rejects.toThrow('Tool no_such_tool not found');
+  });
+});
+
+describe('AITableMCPServer dry run', () => {
+  let client: Client;
+  let service: IAITableService;
+
+  const connect = async (options: AITableMCPServerOptions = {}) => {
+    const server = new AITableMCPServer(service, options);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverSide), client.connect(clientSide)]);
+  };
+
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const result = await client.callTool({ name, arguments: args });
+    const [content] = result.content as { text: string }[];
+    return { isError: result.isError, body: JSON.parse(content.text) };
+  };
+
+  beforeEach(() => {
+    service = {
+      resolveDatasheetId: vi.fn(async (_spaceId: string, ref: string) => ref),
+      resolveFieldSet: vi.fn(async (_spaceId: string, _datasheetId: string, fields: object) => fields),
+      prepareFieldSet: vi.fn(async (_spaceId: string, _datasheetId: string, fields: object) => ({ fields, coercions: [] })),
+      getRecords: vi.fn().mockResolvedValue([
+        { id: 'rec1', fields: { Name: 'Ada', Status: 'Todo' } },
+        { id: 'rec2', fields: { Name: 'Grace', Status: 'Done' } },
+      ]),
+      getFields: vi.fn().mockResolvedValue([{ id: 'fld1', name: 'Name', type: 'SingleText' }]),
+      getBaseSchema: vi.fn().mockResolvedValue({
+        tables: [{ id: 'dst1', name: 'Projects', description: 'All projects', primaryFieldId: 'fld1', fields: [], views: [] }],
+      }),
+      updateRecords: vi.fn(),
+      updateTable: vi.fn(),
+      createField: vi.fn(),
+      createRecords: vi.fn(),
+      deleteRecords: vi.fn(async (_baseId: string, _tableId: string, ids: string[]) => ({
+        succeeded: ids.map(id => ({ id })),
+        failed: [],
+      })),
+    } as unknown as IAITableService;
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('update_records previews only the fields that would change', async () => {
+    await connect();
+    const { body } = await callTool('update_records', {
+      baseId: 'spc1',
+      tableId: 'dst1',
+      records: [
+        { id: 'rec1', fields: { Name: 'Ada', Status: 'Done' } },
+        { id: 'rec2', fields: { Status: 'Done' } },
+        { id: 'rec9', fields: { Status: 'Done' } },
+      ],
+      dryRun: true,
+    });
+
+    expect(body).toEqual({
+      dryRun: true,
+      action: 'update_records',
+      baseId: 'spc1',
+      tableId: 'dst1',
+      changes: [{ id: 'rec1', before: { Status: 'Todo' }, after: { Status: 'Done' } }],
+      warnings: ['Record rec2 already has these values', 'Record rec9 does not exist'],
+    });
+    expect(service.updateRecords).not.toHaveBeenCalled();
+  });
+
+  test('delete_records previews the records that would be deleted', async () => {
+    await connect();
+    const { body } = await callTool('delete_records', { baseId: 'spc1', tableId: 'dst1', recordIds: ['rec1'], dryRun: true });
+
+    expect(body.changes).toEqual([{ id: 'rec1', before: { Name: 'Ada', Status: 'Todo' }, after: null }]);
+    expect(service.deleteRecords).not.toHaveBeenCalled();
+  });
+
+  test('update_table and create_field preview against the current schema', async () => {
+    await connect();
+    const table = await callTool('update_table', { baseId: 'spc1', tableId: 'dst1', name: 'Archive', description: 'All projects', dryRun: true });
+    const field = await callTool('create_field', { baseId: 'spc1', tableId: 'dst1', name: 'Name', type: 'SingleText', dryRun: true });
+
+    expect(table.body.changes).toEqual([{ id: 'dst1', before: { name: 'Projects' }, after: { name: 'Archive' } }]);
+    expect(field.body.warnings).toEqual(['A field named "Name" already exists (fld1)']);
+    expect(service.updateTable).not.toHaveBeenCalled();
+    expect(service.createField).not.toHaveBeenCalled();
+  });
+
+  test('server-wide dry run previews writes that were not flagged', async () => {
+    await connect({ dryRun: true });
+    const { body } = await callTool('create_records', { baseId: 'spc1', tableId: 'dst1', records: [{ fields: { Name: 'Ada' } }] });
+    expect(body.changes).toEqual([{ before: null, after: { Name: 'Ada' } }]);
+    expect(service.createRecords).not.toHaveBeenCalled();
+  });
+
+  test('server-wide dry run previews which records an upsert would create and update', async () => {
+    service.planUpsert = vi.fn().mockResolvedValue({
+      create: [{ index: 1, fields: { Name: 'Grace', Status: 'Todo' } }],
+      update: [{
+        index: 0, id: 'rec1', fields: { Name: 'Ada', Status: 'Done' }, current: { Name: 'Ada', Status: 'Todo' },
+      }],
+      failed: [{ index: 2, error: 'Missing a text, number or boolean value for merge field(s): Name' }],
+    });
+    service.upsertRecords = vi.fn();
+    await connect({ dryRun: true });
+
+    const { body } = await callTool('upsert_records', {
+      baseId: 'spc1',
+      tableId: 'dst1',
+      records: [{ fields: { Name: 'Ada', Status: 'Done' } }, { fields: { Name: 'Grace', Status: 'Todo' } }, { fields: { Status: 'Todo' } }],
+      mergeOnFields: ['Name'],
+    });
+
+    expect(body).toMatchObject({
+      dryRun: true,
+      action: 'upsert_records',
+      changes: [
+        { id: 'rec1', before: { Status: 'Todo' }, after: { Status: 'Done' } },
+        { before: null, after: { Name: 'Grace', Status: 'Todo' } },
+      ],
+      warnings: ['Record 2: Missing a text, number or boolean value for merge field(s): Name'],
+      message: '1 record(s) would be created and 1 updated',
+    });
+    expect(service.upsertRecords).not.toHaveBeenCalled();
+  });
+
+  test('large deletions need a confirm token issued for the same records', async () => {
+    await connect({ deleteConfirmationThreshold: 1 });
+    const args = { baseId: 'spc1', tableId: 'dst1', recordIds: ['rec1', 'rec2'] };
+
+    const first = await callTool('delete_records', args);
+    expect(first.body.changes).toHaveLength(2);
+    expect(service.deleteRecords).not.toHaveBeenCalled();
+
+    const mismatched = await callTool('delete_records', { ...args, recordIds: ['rec1', 'rec3'], confirmToken: first.body.confirmToken });
+    expect(mismatched.isError).toBe(true);
+
+    const second = await callTool('delete_records', args);
+    const confirmed = await callTool('delete_records', { ...args, recordIds: ['rec2', 'rec1'], confirmToken: second.body.confirmToken });
+    expect(confirmed.body.result).toEqual([{ id: 'rec2' }, { id: 'rec1' }]);
+
+    const replayed = await callTool('delete_records', { ...args, confirmToken: second.body.confirmToken });
+    expect(replayed.isError).toBe(true);
+  });
+
+  test('deletions at or below the threshold go straight through', async () => {
+    await connect({ deleteConfirmationThreshold: 1 });
+    const { body } = await callTool('delete_records', { baseId: 'spc1', tableId: 'dst1', recordIds: ['rec1'] });
+    expect(body.result).toEqual([{ id: 'rec1' }]);
+  });
+});
+
+describe('AITableMCPServer snapshots', () => {
+  let dir: string;
+  let client: Client;
+  let records: { id: string; fields: Record<string, unknown> }[];
+  let truncated: boolean | undefined;
+
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const result = await client.callTool({ name, arguments: args });
+    const [content] = result.content as { text: string }[];
+    return { isError: result.isError, text: content.text };
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'aitable-mcp-snapshots-'));
+    records = [{ id: 'rec1', fields: { Stage: 'Lead' } }];
+    truncated = undefined;
+    const service = {
+      resolveDatasheetId: vi.fn(async (_spaceId: string, ref: string) => ref),
+      listRecordsPage: vi.fn(async () => ({ records, truncated })),
+    } as unknown as IAITableService;
+
+    const server = new AITableMCPServer(service, { snapshotDir: dir });
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverSide), client.connect(clientSide)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('diff_table compares the latest snapshot with the current records', async () => {
+    const missing = await callTool('diff_table', { baseId: 'spc1', tableId: 'dst1' });
+    expect(missing.isError).toBe(true);
+    expect(missing.text).toContain('snapshot_table');
+
+    const { snapshot } = JSON.parse((await callTool('snapshot_table', { baseId: 'spc1', tableId: 'dst1' })).text);
+    expect(snapshot.recordCount).toBe(1);
+
+    records = [{ id: 'rec1', fields: { Stage: 'Customer' } }, { id: 'rec2', fields: { Stage: 'Lead' } }];
+    const diff = JSON.parse((await callTool('diff_table', { baseId: 'spc1', tableId: 'dst1' })).text);
+
+    expect(diff.from.id).toBe(snapshot.id);
+    expect(diff.to).toBe('current');
+    expect(diff.summary).toEqual({
+      added: 1, removed: 0, modified: 1, unchanged: 0,
+    });
+    expect(diff.modified).toEqual([{ id: 'rec1', changes: [{ field: 'Stage', before: 'Lead', after: 'Customer' }] }]);
+  });
+
+  test('diff_table warns that removals past the fetch ceiling of a truncated side are unreliable', async () => {
+    records = [{ id: 'rec1', fields: {} }, { id: 'rec2', fields: {} }];
+    await callTool('snapshot_table', { baseId: 'spc1', tableId: 'dst1' });
+
+    records = [{ id: 'rec1', fields: {} }];
+    truncated = true;
+    const diff = JSON.parse((await callTool('diff_table', { baseId: 'spc1', tableId: 'dst1' })).text);
+
+    expect(diff.summary).toMatchObject({ removed: 1, toTruncated: true });
+    expect(diff.warnings).toEqual([expect.stringContaining('listed as removed even if they still exist')]);
+  });
+
+  test('diff_table refuses a snapshot of another table', async () => {
+    const { snapshot } = JSON.parse((await callTool('snapshot_table', { baseId: 'spc1', tableId: 'dst1' })).text);
+    const result = await callTool('diff_table', { baseId: 'spc1', tableId: 'dst2', snapshotId: snapshot.id });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('not dst2');
+  });
+});
+
+describe('AITableMCPServer export_records', () => {
+  let dir: string;
+  let client: Client;
+  let service: IAITableService;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'aitable-mcp-exports-'));
+    service = {
+      resolveDatasheetId: vi.fn(async (_spaceId: string, ref: string) => ref),
+      compileFilter: vi.fn(async () => '{Stage}="Lead"'),
+      resolveFieldNames: vi.fn(async (_spaceId: string, _datasheetId: string, refs: string[]) => refs),
+      exportRecords: vi.fn(async () => ({
+        format: 'csv', mimeType: 'text/csv', columns: ['Name'], recordCount: 1, content: 'recordId,Name\r\nrec1,Ada\r\n',
+      })),
+    } as unknown as IAITableService;
+
+    const server = new AITableMCPServer(service, { exportDir: dir });
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverSide), client.connect(clientSide)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('writes the export to the export directory', async () => {
+    const result = await client.callTool({
+      name: 'export_records',
+      arguments: {
+        baseId: 'spc1', tableId: 'dst1', filter: { field: 'Stage', op: 'eq', value: 'Lead' }, fields: ['Name'],
+      },
+    });
+    const [content] = result.content as { text: string }[];
+    const summary = JSON.parse(content.text);
+
+    expect(service.exportRecords).toHaveBeenCalledWith('spc1', 'dst1', expect.objectContaining({
+      filterByFormula: '{Stage}="Lead"', fields: ['Name'],
+    }));
+    expect(summary).toMatchObject({ recordCount: 1, filterByFormula: '{Stage}="Lead"' });
+    expect(path.dirname(summary.path)).toBe(dir);
+    expect(await readFile(summary.path, 'utf8')).toBe('recordId,Name\r\nrec1,Ada\r\n');
+  });
+
+  test('returns the export inline as a resource', async () => {
+    const result = await client.callTool({
+      name: 'export_records',
+      arguments: { baseId: 'spc1', tableId: 'dst1', output: 'inline' },
+    });
+    const [summary, resource] = result.content as any[];
+
+    expect(JSON.parse(summary.text)).not.toHaveProperty('content');
+    expect(resource).toEqual({
+      type: 'resource',
+      resource: { uri: 'export://spc1/dst1.csv', mimeType: 'text/csv', text: 'recordId,Name\r\nrec1,Ada\r\n' },
+    });
+    expect(await readdir(dir)).toEqual([]);
+  });
+});
+
+describe('AITableMCPServer import_records', () => {
+  let dir: string;
+  let client: Client;
+  let service: IAITableService;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'aitable-mcp-imports-'));
+    await writeFile(path.join(dir, 'people.csv'), 'Full name,Score\nAda,1\nGrace,lots\n');
+    service = {
+      resolveDatasheetId: vi.fn(async (_spaceId: string, ref: string) => ref),
+      getFields: vi.fn(async () => [{ id: 'fld1', name: 'Name', type: 'SingleText' }, { id: 'fld2', name: 'Score', type: 'Number' }]),
+      createRecords: vi.fn(async () => ({ succeeded: [{ id: 'recAda', fields: {} }], failed: [] })),
+    } as unknown as IAITableService;
+
+    const server = new AITableMCPServer(service, { importDir: dir });
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverSide), client.connect(clientSide)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('imports a CSV file from the import directory and reports each row', async () => {
+    const result = await client.callTool({
+      name: 'import_records',
+      arguments: {
+        baseId: 'spc1', tableId: 'dst1', filePath: 'people.csv', mapping: { 'Full name': 'Name' },
+      },
+    });
+    const [content] = result.content as { text: string }[];
+
+    expect(service.createRecords).toHaveBeenCalledWith('spc1', 'dst1', [{ fields: { Name: 'Ada', Score: 1 } }]);
+    expect(result.isError).toBeFalsy();
+    expect(JSON.parse(content.text)).toMatchObject({
+      format: 'csv',
+      rowCount: 2,
+      summary: { created: 1, failed: 1 },
+      rows: [{ row: 1, status: 'created', id: 'recAda' }, { row: 2, status: 'failed' }],
+    });
+  });
+
+  test('refuses files outside the import directory', async () => {
+    const result = await client.callTool({
+      name: 'import_records',
+      arguments: { baseId: 'spc1', tableId: 'dst1', filePath: '../people.csv' },
+    });
+    const [content] = result.content as { text: string }[];
+
+    expect(result.isError).toBe(true);
+    expect(content.text).toContain('outside the import directory');
+    expect(service.createRecords).not.toHaveBeenCalled();
+  });
+});
+
+describe('AITableMCPServer access policy', () => {
+  let client: Client;
+
+  const listToolNames = async (options: AITableMCPServerOptions) => {
+    const server = new AITableMCPServer({} as IAITableService, options);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverSide), client.connect(clientSide)]);
+    const { tools } = await client.listTools();
+    return tools.map(tool => tool.name);
+  };
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('a read-only server registers no write tools', async () => {
+    const names = await listToolNames({ access: { readOnly: true } });
+    expect(names).toContain('list_records');
+    expect(names).not.toContain('create_records');
+    expect(names).not.toContain('delete_records');
+    expect(names).not.toContain('update_field');
+  });
+
+  test('allow and deny lists pick the registered tools', async () => {
+    const names = await listToolNames({ access: { allowedTools: ['list_records', 'get_record'], deniedTools: ['get_record'] } });
+    expect(names).toEqual(['list_records']);
+  });
+});
+
+describe('AITableMCPServer notifications', () => {
+  let client: Client;
+  let service: IAITableService;
+  let messages: LoggingMessageNotification['params'][];
+
+  beforeEach(async () => {
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    service = {
+      resolveDatasheetId: vi.fn(async (_spaceId: string, ref: string) => ref),
+      searchRecords: vi.fn(async () => {
+        Logger.getInstance().warn('API request failed', { status: 500 });
+        Logger.getInstance().notify('info', 'Searching');
+        Logger.getInstance().notify('warn', 'Left a datasheet out', { datasheetId: 'dst2' });
+        reportProgress(1, 2, 'Half way');
+        reportProgress(2, 2);
+        return [];
+      }),
+    } as unknown as IAITableService;
+
+    const server = new AITableMCPServer(service);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    messages = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      messages.push(notification.params);
+    });
+    const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverSide), client.connect(clientSide)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    vi.restoreAllMocks();
+  });
+
+  const search = (options?: RequestOptions) => client.callTool({
+    name: 'search_records', arguments: { baseId: 'spc1', tableId: 'dst1', searchTerm: 'Road' },
+  }, undefined, options);
+
+  test('declares logging and sends the call\'s client log lines at the level the client asks for', async () => {
+    expect(client.getServerCapabilities()?.logging).toEqual({});
+
+    await client.setLoggingLevel('warning');
+    await search();
+    expect(messages).toEqual([{
+      level: 'warning',
+      logger: 'aitable-mcp-server',
+      data: { msg: 'Left a datasheet out', datasheetId: 'dst2' },
+    }]);
+
+    messages.length = 0;
+    await client.setLoggingLevel('info');
+    await search();
+    expect(messages.map((message) => message.level)).toEqual(['info', 'warning']);
+    expect(messages[0].data).toEqual({ msg: 'Searching' });
+
+    messages.length = 0;
+    await client.setLoggingLevel('error');
+    await search();
+    expect(messages).toEqual([]);
+  });
+
+  test('sends progress when the client asks for it', async () => {
+    const progress: Progress[] = [];
+
+    await search({ onprogress: (update) => progress.push(update) });
+
+    expect(progress).toEqual([{ progress: 1, total: 2, message: 'Half way' }, { progress: 2, total: 2 }]);
+  });
+
+  test('passes the client cancelling a call on to the service', async () => {
+    let signal: AbortSignal | undefined;
+    const started = new Promise<void>((resolve) => {
+      vi.mocked(service.searchRecords).mockImplementationOnce(() => {
+        signal = currentCall()?.signal;
+        resolve();
+        return new Promise(() => undefined);
+      });
+    });
+    const controller = new AbortController();
+
+    const call = search({ signal: controller.signal });
+    await started;
+    controller.abort('No longer needed');
+
+    await expect(call).rejects.toThrow('No longer needed');
+    await vi.waitFor(() => expect(signal?.aborted).toBe(true));
+  });
+});
+
+describe('AITableMCPServer resources', () => {
+  let client: Client;
+  let service: IAITableService;
+
+  beforeEach(async () => {
+    service = {
+      listBases: vi.fn().mockResolvedValue({ bases: [{ id: 'spc1', name: 'Team', permissionLevel: 'owner' }] }),
+      getAllDatasheets: vi.fn().mockResolvedValue([
+        { id: 'dst1', name: 'Backlog', path: 'Backlog', spaceId: 'spc1' },
+        {
+          id: 'dst2', name: 'Roadmap', path: 'Projects > Roadmap', spaceId: 'spc1', parentId: 'fod1',
+        },
+      ]),
+      getRecord: vi.fn().mockResolvedValue({ id: 'rec1', fields: { Name: 'Ada' } }),
+      getNode: vi.fn().mockResolvedValue({
+        id: 'fod1',
+        name: 'Projects',
+        type: 'Folder',
+        children: [{ id: 'dst2', name: 'Roadmap', type: 'Datasheet' }, { id: 'fom1', name: 'Intake', type: 'Form' }],
+      }),
+    } as unknown as IAITableService;
+
+    const server = new AITableMCPServer(service);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverSide), client.connect(clientSide)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('lists spaces and datasheets, named by their folder path', async () => {
+    const { resources } = await client.listResources();
+
+    expect(resources).toEqual([
+      {
+        uri: 'base://spc1', name: 'Team', mimeType: 'application/json', description: 'Schema of every datasheet in a space',
+      },
+      {
+        uri: 'table://spc1/dst1', name: 'Team: Backlog', mimeType: 'application/json', description: 'Every record of a datasheet',
+      },
+      {
+        uri: 'table://spc1/dst2', name: 'Team: Projects > Roadmap', mimeType: 'application/json', description: 'Every record of a datasheet',
+      },
+    ]);
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map(template => template.uriTemplate)).toEqual(expect.arrayContaining([
+      'record://{spaceId}/{datasheetId}/{recordId}', 'schema://{spaceId}/{datasheetId}', 'folder://{spaceId}/{folderId}',
+    ]));
+  });
+
+  test('reads a record and a folder with links to its children', async () => {
+    const record = await client.readResource({ uri: 'record://spc1/dst1/rec1' });
+    const folder = await client.readResource({ uri: 'folder://spc1/fod1' });
+
+    expect(service.getRecord).toHaveBeenCalledWith('spc1', 'dst1', 'rec1');
+    expect(record.contents[0]).toMatchObject({ mimeType: 'application/json', text: JSON.stringify({ id: 'rec1', fields: { Name: 'Ada' } }) });
+    expect(JSON.parse(folder.contents[0].text as string).children).toEqual([
+      {
+        id: 'dst2', name: 'Roadmap', type: 'Datasheet', uri: 'table://spc1/dst2',
+      },
+      { id: 'fom1', name: 'Intake', type: 'Form' },
+    ]);
+  });
+
+  test('completes IDs by prefix or name, within the space already chosen', async () => {
+    const complete = async (uri: string, name: string, value: string, args?: Record<string, string>) => (
+      await client.complete({ ref: { type: 'ref/resource', uri }, argument: { name, value }, context: args && { arguments: args } })
+    ).completion.values;
+
+    expect(await complete('schema://{spaceId}/{datasheetId}', 'spaceId', 'tea')).toEqual(['spc1']);
+    expect(await complete('schema://{spaceId}/{datasheetId}', 'datasheetId', 'road', { spaceId: 'spc1' })).toEqual(['dst2']);
+    expect(await complete('schema://{spaceId}/{datasheetId}', 'datasheetId', 'dst')).toEqual([]);
+    expect(await complete('folder://{spaceId}/{folderId}', 'folderId', 'proj', { spaceId: 'spc1' })).toEqual(['fod1']);
+  });
+});
 
 describe('AITableMCPServer', () => {
   let server: AITableMCPServer;
@@ -47,6 +791,9 @@ describe('AITableMCPServer', () => {
       listRecords: vi.fn().mockResolvedValue([
         { id: 'rec1', fields: { name: 'Test Record' } },
       ]),
+      listRecordsPage: vi.fn().mockResolvedValue({
+        records: [{ id: 'rec1', fields: { name: 'Test Record' } }],
+      }),
       getRecord: vi.fn().mockResolvedValue({
         id: 'rec1',
         fields: { name: 'Test Record' },
@@ -55,12 +802,23 @@ describe('AITableMCPServer', () => {
         id: 'rec1',
         fields: { name: 'New Record' },
       }),
-      updateRecords: vi.fn().mockResolvedValue([
-        { id: 'rec1', fields: { name: 'Updated Record' } },
-      ]),
-      deleteRecords: vi.fn().mockResolvedValue([
-        { id: 'rec1', deleted: true },
-      ]),
+      createRecords: vi.fn().mockResolvedValue({
+        succeeded: [{ id: 'rec1', fields: { name: 'New Record' } }],
+        failed: [],
+      }),
+      updateRecords: vi.fn().mockResolvedValue({
+        succeeded: [{ id: 'rec1', fields: { name: 'Updated Record' } }],
+        failed: [],
+      }),
+      deleteRecords: vi.fn().mockResolvedValue({
+        succeeded: [{ id: 'rec1' }],
+        failed: [],
+      }),
+      upsertRecords: vi.fn().mockResolvedValue({
+        created: [],
+        updated: [{ id: 'rec1', fields: { name: 'Updated Record' } }],
+        failed: [],
+      }),
       createTable: vi.fn().mockResolvedValue({
         id: 'tbl1',
         name: 'New Table',
@@ -84,6 +842,14 @@ describe('AITableMCPServer', () => {
       searchRecords: vi.fn().mockResolvedValue([
         { id: 'rec1', fields: { name: 'Test Record' } },
       ]),
+      getFields: vi.fn().mockResolvedValue([]),
+      getViews: vi.fn().mockResolvedValue([]),
+      resolveDatasheetId: vi.fn(async (_spaceId: string, ref: string) => ref),
+      resolveFieldIds: vi.fn(async (_spaceId: string, _datasheetId: string, refs: string[]) => refs),
+      resolveViewId: vi.fn(async (_spaceId: string, _datasheetId: string, ref: string) => ref),
+      resolveFieldSet: vi.fn(async (_spaceId: string, _datasheetId: string, fields: object) => fields),
+      prepareFieldSet: vi.fn(async (_spaceId: string, _datasheetId: string, fields: object) => ({ fields, coercions: [] })),
+      clearSchemaCache: vi.fn(),
     };
 
     // Create instance of server
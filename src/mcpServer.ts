@@ -1,9 +1,13 @@
 import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolResult, LoggingLevel, ServerNotification, ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
 import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
 
-import { z } from 'zod';
+import { z, ZodRawShape, ZodTypeAny } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 
 // Import VALUES needed
@@ -13,16 +17,184 @@ import {
   AITableRecord, 
   FieldSet, 
   ListRecordsOptions,
+  ListRecordsArgsSchema,
+  ExportRecordsArgsSchema,
+  SearchRecordsArgsSchema,
+  ListTablesArgsSchema,
+  DescribeTableArgsSchema,
+  UpdateFieldArgsSchema,
+  GetRecordArgsSchema,
+  DeleteRecordsArgsSchema,
+  UpdateTableArgsSchema,
+  ExportSchemaArgsSchema,
+  ApplySchemaArgsSchema,
+  PlanSchemaMigrationArgsSchema,
+  ApplySchemaMigrationArgsSchema,
+  CreateFieldArgsSchema,
+  RefreshSchemaCacheArgsSchema,
+  SnapshotTableArgsSchema,
+  DiffTableArgsSchema,
   CreateRecordArgsSchema, 
+  CreateRecordsArgsSchema,
+  UpsertRecordsArgsSchema,
+  ImportRecordsArgsSchema,
   UpdateRecordsArgsSchema 
 } from './types.js'; 
 
 // Import TYPES needed
 import type { 
-  IAITableMCPServer
+  IAITableMCPServer,
+  AITableMCPServerOptions,
+  Coercion,
+  CoercionMode,
+  DryRunPreview,
+  SpaceNode,
+  Table,
+  TableSnapshot,
 } from './types.js';
 
 import { AITableService } from "./aitableService.js";
+import { AccessPolicy } from './accessPolicy.js';
+import { and } from './formula.js';
+import { ConfirmationTokens } from './confirmation.js';
+import { diffRecords, snapshotInfo, SnapshotStore } from './snapshots.js';
+import { DEFAULT_EXPORT_DIR, writeExport } from './recordExport.js';
+import { importRecords, readImportFile, resolveImportPath } from './recordImport.js';
+import { applySchema, exportSchema } from './schemaClone.js';
+import { applySchemaMigration, planSchemaMigration } from './schemaMigration.js';
+import {
+  previewFieldCreation,
+  previewFieldUpdate,
+  previewRecordCreation,
+  previewRecordDeletion,
+  previewRecordUpdates,
+  previewUpsert,
+  previewTableCreation,
+  previewTableUpdate,
+} from './dryRun.js';
+import {
+  CancelledError, NotFoundError, toolErrorPayload, ValidationError,
+} from './errors.js';
+import { Logger } from './logger.js';
+import type { LogLevel } from './logger.js';
+import { newRequestId, runInCallContext } from './callContext.js';
+import type { CallContext } from './callContext.js';
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+type ToolArgs<Args extends ZodRawShape> = z.objectOutputType<Args, ZodTypeAny>;
+type ToolHandler = (input: unknown, extra: ToolExtra) => Promise<CallToolResult>;
+
+// How many added, removed and modified records diff_table lists by default
+const DEFAULT_MAX_DIFF_CHANGES = 100;
+
+const logger = Logger.getInstance();
+
+// The MCP log level each of the logger's levels is sent to clients as
+const CLIENT_LOG_LEVELS: Record<LogLevel, LoggingLevel> = {
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+};
+
+type TableDetailLevel = z.infer<typeof ListTablesArgsSchema>['detailLevel'];
+
+/**
+ * Trim a table down to the requested level of detail, so large spaces can be
+ * explored without returning every field definition
+ */
+function describeTableAtLevel(table: Table, detailLevel: TableDetailLevel = 'full') {
+  switch (detailLevel) {
+    case 'tableIdentifiersOnly':
+      return {
+        id: table.id,
+        name: table.name,
+      };
+    case 'identifiersOnly':
+      return {
+        id: table.id,
+        name: table.name,
+        fields: table.fields.map((field) => ({ id: field.id, name: field.name })),
+        views: table.views.map((view) => ({ id: view.id, name: view.name })),
+      };
+    case 'full':
+    default:
+      return {
+        id: table.id,
+        name: table.name,
+        description: table.description,
+        primaryFieldId: table.primaryFieldId,
+        fields: table.fields,
+        views: table.views,
+      };
+  }
+}
+
+/**
+ * Adds the coercions applied to a write to its result, when there were any
+ */
+function withCoercions(coercions: Coercion[]): { coercions?: Coercion[] } {
+  return coercions.length > 0 ? { coercions } : {};
+}
+
+const JSON_MIME_TYPE = 'application/json';
+
+/**
+ * The result of a write that was only previewed
+ */
+function previewResult(preview: DryRunPreview) {
+  return {
+    content: [{
+      type: 'text' as const,
+      mimeType: JSON_MIME_TYPE,
+      text: JSON.stringify(preview),
+    }],
+  };
+}
+
+/**
+ * The result of a failed tool call, with the kind of error and whether to retry
+ */
+function errorResult(error: unknown) {
+  return {
+    content: [{
+      type: 'text' as const,
+      mimeType: JSON_MIME_TYPE,
+      text: JSON.stringify(toolErrorPayload(error)),
+    }],
+    isError: true,
+  };
+}
+
+/**
+ * Completes an ID from the candidates whose ID starts with what was typed or
+ * whose name contains it. Completion is best-effort, so a failed lookup
+ * offers nothing rather than an error
+ */
+async function completeIds(value: string, load: () => Promise<{ id: string; name?: string }[]>): Promise<string[]> {
+  try {
+    const typed = value.toLowerCase();
+    return (await load())
+      .filter(({ id, name }) => id.toLowerCase().startsWith(typed) || name?.toLowerCase().includes(typed))
+      .map(({ id }) => id);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The resource a child of a folder can be read as, if any
+ */
+function nodeUri(spaceId: string, node: SpaceNode): string | undefined {
+  switch (node.type) {
+    case 'Folder':
+      return `folder://${spaceId}/${node.id}`;
+    case 'Datasheet':
+      return `table://${spaceId}/${node.id}`;
+    default:
+      return undefined;
+  }
+}
 
 /**
  * AITable MCP Server class
@@ -30,44 +202,171 @@ import { AITableService } from "./aitableService.js";
 export class AITableMCPServer extends McpServer implements IAITableMCPServer {
   private aitableService: IAITableService;
 
-  constructor(aitableService: IAITableService) {
+  private readonly options: AITableMCPServerOptions;
+
+  private readonly accessPolicy: AccessPolicy;
+
+  private readonly confirmations = new ConfirmationTokens();
+
+  private readonly snapshots: SnapshotStore;
+
+  // Each registered tool's guarded handler, for calls made without a request
+  private readonly toolHandlers = new Map<string, ToolHandler>();
+
+  constructor(aitableService: IAITableService, options: AITableMCPServerOptions = {}) {
     super({
       name: 'AITable MCP Server',
       version: '1.0.0',
+    }, {
+      capabilities: { logging: {} },
     });
     this.aitableService = aitableService;
+    this.options = options;
+    this.accessPolicy = new AccessPolicy(options.access);
+    this.snapshots = new SnapshotStore(options.snapshotDir);
     this.setupTools();
     this.setupResources();
   }
 
-  private async executeToolByName(name: string, input: any): Promise<any> {
-    console.error(`[TOOL] Executing tool ${name} with input:`, input);
-    
+  /**
+   * Whether a write should only be previewed, either because the whole server
+   * runs in dry-run mode or because the call asked for it
+   */
+  private isDryRun(requested?: boolean): boolean {
+    return this.options.dryRun === true || requested === true;
+  }
+
+  /**
+   * Registers a tool unless the access policy hides it, e.g. write tools on a
+   * read-only server. Errors the tool throws become error results
+   */
+  private addTool<Args extends ZodRawShape>(
+    name: string,
+    description: string,
+    paramsSchema: Args,
+    cb: ToolCallback<Args>,
+  ): void {
+    if (!this.accessPolicy.isToolAllowed(name)) {
+      return;
+    }
+    // Failures are reported as results, so agents get the kind of error and whether to retry.
+    // Each call runs in a context that the service logs, reports progress and checks for cancellation through
+    const guarded = (args: ToolArgs<Args>, extra: ToolExtra) => runInCallContext(this.callContext(extra), async (): Promise<CallToolResult> => {
+      const started = Date.now();
+      logger.debug('Tool call', { tool: name, args });
+      try {
+        const result = await cb(args, extra);
+        logger.info('Tool call finished', { tool: name, durationMs: Date.now() - started, isError: result?.isError || undefined });
+        return result;
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          logger.info('Tool call cancelled', { tool: name, durationMs: Date.now() - started });
+        } else {
+          logger.warn('Tool call failed', { tool: name, durationMs: Date.now() - started, error });
+        }
+        return errorResult(error);
+      }
+    });
+    // ToolCallback is a conditional type, which TypeScript leaves unresolved for a generic shape
+    this.tool(name, description, paramsSchema, guarded as ToolCallback<Args>);
+
+    const argsSchema = z.object(paramsSchema);
+    this.toolHandlers.set(name, async (input, extra) => {
+      const parsed = argsSchema.safeParse(input ?? {});
+      if (!parsed.success) {
+        return errorResult(new ValidationError(`aitable-mcp-server: Invalid arguments for tool ${name}: ${parsed.error.message}`));
+      }
+      return guarded(parsed.data, extra);
+    });
+  }
+
+  /**
+   * The context of a tool call: its request ID, the client's abort signal,
+   * and where log lines at or above the client's level and progress go
+   */
+  private callContext(extra: ToolExtra): CallContext {
+    const { _meta: meta } = extra;
+    const progressToken = meta?.progressToken;
+    // Notifications are best-effort: a client that has gone away shouldn't fail the call
+    const send = (notification: ServerNotification) => {
+      extra.sendNotification(notification).catch(() => undefined);
+    };
+    return {
+      requestId: newRequestId(),
+      signal: extra.signal,
+      // The SDK leaves out lines below the level the client's session set with logging/setLevel
+      notify: (level, data) => {
+        this.sendLoggingMessage({ level: CLIENT_LOG_LEVELS[level], logger: 'aitable-mcp-server', data }, extra.sessionId)
+          .catch(() => undefined);
+      },
+      progress: progressToken === undefined ? undefined : (progress, total, message) => {
+        send({
+          method: 'notifications/progress',
+          params: {
+            progressToken, progress, total, message,
+          },
+        });
+      },
+    };
+  }
+
+  /**
+   * Resolves field keys, coerces values as asked (or as the server is
+   * configured to) and validates them, for each record of a write
+   */
+  private async prepareRecords<T extends { fields: FieldSet }>(
+    baseId: string,
+    tableId: string,
+    records: T[],
+    coerce?: CoercionMode,
+  ): Promise<{ records: T[]; coercions: Coercion[] }> {
+    const mode = coerce ?? this.options.coerce ?? 'off';
+    const prepared = await Promise.all(records.map(async (record, index) => {
+      const { fields, coercions } = await this.aitableService.prepareFieldSet(baseId, tableId, record.fields, mode);
+      return {
+        record: { ...record, fields },
+        coercions: coercions.map((coercion) => (records.length > 1 ? { record: index, ...coercion } : coercion)),
+      };
+    }));
+    return {
+      records: prepared.map((item) => item.record),
+      coercions: prepared.flatMap((item) => item.coercions),
+    };
+  }
+
+  private async executeToolByName(name: string, input: unknown): Promise<CallToolResult> {
+    logger.debug('Executing tool directly', { tool: name });
+
     try {
-      // Use type casting to access private properties
-      const registeredTools = (this as any)._registeredTools;
-      
-      if (!registeredTools || !registeredTools[name]) {
+      const handler = this.toolHandlers.get(name);
+
+      if (!handler) {
         throw new Error(`Tool ${name} not found`);
       }
 
-      // Execute the tool with the input
-      const result = await registeredTools[name].cb(input, {});
-      console.error(`[TOOL] Tool ${name} executed successfully`);
+      // Called outside a request, so there is no client to notify or cancel the call
+      const result = await handler(input, {
+        signal: new AbortController().signal,
+        requestId: newRequestId(),
+        sendNotification: async () => undefined,
+        sendRequest: async () => {
+          throw new Error('aitable-mcp-server: Tools executed directly cannot send requests to the client');
+        },
+      });
       return result;
     } catch (error) {
-      console.error(`[ERROR] Failed to execute tool ${name}:`, error);
+      logger.error('Failed to execute tool directly', { tool: name, error });
       throw error;
     }
   }
 
   setupTools(): void {
     // List bases
-    this.tool(
+    this.addTool(
       'list_bases',
       'List all available AITable bases',
       {},
-      async (_args: {}, _extra: RequestHandlerExtra) => {
+      async () => {
         const bases = await this.aitableService.listBases();
         return {
           content: [{
@@ -80,110 +379,221 @@ export class AITableMCPServer extends McpServer implements IAITableMCPServer {
     );
 
     // Get base schema
-    this.tool(
+    this.addTool(
       'get_base_schema',
       'Get schema information for a base',
       {
         baseId: z.string().describe('ID of the AITable base'),
       },
-      async (args: { baseId: string }, _extra: RequestHandlerExtra) => {
+      async (args: { baseId: string }) => {
+        // First get standard schema
+        const schema = await this.aitableService.getBaseSchema(args.baseId);
+
+        // Then get all datasheets including those in subfolders
         try {
-          // First get standard schema
-          const schema = await this.aitableService.getBaseSchema(args.baseId);
+          const allDatasheets = await this.aitableService.getAllDatasheets(args.baseId);
           
-          // Then get all datasheets including those in subfolders
-          try {
-            const allDatasheets = await this.aitableService.getAllDatasheets(args.baseId);
-            
-            // Add path information to each table if it matches a datasheet
-            schema.tables = schema.tables.map(table => {
-              const matchingDatasheet = allDatasheets.find(ds => ds.id === table.id);
-              if (matchingDatasheet) {
-                return {
-                  ...table,
-                  path: matchingDatasheet.path
-                };
-              }
-              return table;
-            });
-            
-            // Add any datasheets that weren't in the original tables list
-            const existingTableIds = new Set(schema.tables.map(t => t.id));
-            const additionalDatasheets = allDatasheets
-              .filter(ds => !existingTableIds.has(ds.id))
-              .map(ds => ({
-                id: ds.id,
-                name: ds.name,
-                path: ds.path,
-                description: '',
-                primaryFieldId: '', // This will be populated later if needed
-                fields: [],
-                views: []
-              }));
-            
-            schema.tables = [...schema.tables, ...additionalDatasheets];
-            console.log(`Enhanced schema now has ${schema.tables.length} tables (added ${additionalDatasheets.length} from subfolders)`);
-          } catch (error) {
-            // If getAllDatasheets fails, just return the original schema
-            console.error('Failed to get all datasheets:', error);
-          }
+          // Add path information to each table if it matches a datasheet
+          schema.tables = schema.tables.map((table) => {
+            const matchingDatasheet = allDatasheets.find((ds) => ds.id === table.id);
+            if (matchingDatasheet) {
+              return {
+                ...table,
+                path: matchingDatasheet.path,
+              };
+            }
+            return table;
+          });
           
-          return {
-            content: [{
-              type: 'text',
-              mimeType: 'application/json',
-              text: JSON.stringify(schema),
-            }],
-          };
+          // Add any datasheets that weren't in the original tables list
+          const existingTableIds = new Set(schema.tables.map((t) => t.id));
+          const additionalDatasheets = allDatasheets
+            .filter((ds) => !existingTableIds.has(ds.id))
+            .map((ds) => ({
+              id: ds.id,
+              name: ds.name,
+              path: ds.path,
+              description: '',
+              primaryFieldId: '', // This will be populated later if needed
+              fields: [],
+              views: [],
+            }));
+
+          schema.tables = [...schema.tables, ...additionalDatasheets];
+          logger.debug('Added datasheets from subfolders to the schema', { baseId: args.baseId, added: additionalDatasheets.length });
         } catch (error) {
-          return {
-            content: [{
-              type: 'text',
-              mimeType: 'application/json',
-              text: JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
-            }],
-            isError: true,
-          };
+          if (error instanceof CancelledError) {
+            throw error;
+          }
+          // If getAllDatasheets fails, just return the original schema
+          logger.notify('warn', 'Failed to get all datasheets', { baseId: args.baseId, error });
         }
+
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify(schema),
+          }],
+        };
       }
     );
 
+    // List tables
+    this.addTool(
+      'list_tables',
+      'List all tables in a base, to the given level of detail',
+      ListTablesArgsSchema.shape,
+      async (args: z.infer<typeof ListTablesArgsSchema>) => {
+        const schema = await this.aitableService.getBaseSchema(args.baseId);
+        const tables = schema.tables.map((table) => describeTableAtLevel(table, args.detailLevel));
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify({ tables }),
+          }],
+        };
+      },
+    );
+
+    // Describe table
+    this.addTool(
+      'describe_table',
+      'Get information about a single table, to the given level of detail',
+      DescribeTableArgsSchema.shape,
+      async (args: z.infer<typeof DescribeTableArgsSchema>) => {
+        const tableId = await this.aitableService.resolveDatasheetId(args.baseId, args.tableId);
+        const schema = await this.aitableService.getBaseSchema(args.baseId);
+        const table = schema.tables.find((t) => t.id === tableId);
+
+        if (!table) {
+          throw new NotFoundError(`Table ${args.tableId} not found in base ${args.baseId}`);
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify({ table: describeTableAtLevel(table, args.detailLevel) }),
+          }],
+        };
+      },
+    );
+
     // List records
-    this.tool(
+    this.addTool(
       'list_records',
-      'List records in a table',
-      {
-        baseId: z.string().describe('ID of the AITable base'),
-        tableId: z.string().describe('ID of the table'),
-        maxRecords: z.number().optional().describe('Maximum number of records to return'),
-        filterByFormula: z.string().optional().describe('Filter formula for records'),
+      'List records in a table. Returns one page at a time along with a pageToken for the next page, unless fetchAll is set',
+      ListRecordsArgsSchema.shape,
+      async (args: z.infer<typeof ListRecordsArgsSchema>) => {
+        const tableId = await this.aitableService.resolveDatasheetId(args.baseId, args.tableId);
+        const selection = await this.resolveRecordSelection(args.baseId, tableId, args);
+        const page = await this.aitableService.listRecordsPage(args.baseId, tableId, {
+          ...selection,
+          maxRecords: args.maxRecords,
+          pageSize: args.pageSize,
+          pageToken: args.pageToken,
+          fetchAll: args.fetchAll,
+          cellFormat: args.cellFormat,
+          fieldKey: args.fieldKey,
+        });
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            // Echo a compiled filter so the caller can see what was actually asked for
+            text: JSON.stringify(args.filter ? { ...page, filterByFormula: selection.filterByFormula } : page),
+          }],
+        };
       },
-      async (args: { baseId: string; tableId: string; maxRecords?: number; filterByFormula?: string }, _extra: RequestHandlerExtra) => {
-        const records = await this.aitableService.listRecords(args.baseId, args.tableId, {
+    );
+
+    // Export records
+    this.addTool(
+      'export_records',
+      'Export every record in a table, or those matching a filter or view, as CSV or JSON Lines. Writes a file to the export directory, or returns the export inline as a resource',
+      ExportRecordsArgsSchema.shape,
+      async (args: z.infer<typeof ExportRecordsArgsSchema>) => {
+        const tableId = await this.aitableService.resolveDatasheetId(args.baseId, args.tableId);
+        const selection = await this.resolveRecordSelection(args.baseId, tableId, args);
+        const exported = await this.aitableService.exportRecords(args.baseId, tableId, {
+          ...selection,
           maxRecords: args.maxRecords,
-          filterByFormula: args.filterByFormula,
+          format: args.format,
         });
+
+        const { content, ...summary } = exported;
+        const details = {
+          ...summary,
+          ...(args.filter ? { filterByFormula: selection.filterByFormula } : {}),
+        };
+        if (args.output === 'inline') {
+          return {
+            content: [
+              {
+                type: 'text',
+                mimeType: 'application/json',
+                text: JSON.stringify(details),
+              },
+              {
+                type: 'resource',
+                resource: {
+                  uri: `export://${args.baseId}/${tableId}.${exported.format}`,
+                  mimeType: exported.mimeType,
+                  text: content,
+                },
+              },
+            ],
+          };
+        }
+
+        const filePath = await writeExport(this.options.exportDir ?? DEFAULT_EXPORT_DIR, tableId, exported);
         return {
           content: [{
             type: 'text',
             mimeType: 'application/json',
-            text: JSON.stringify({ records }),
+            text: JSON.stringify({ ...details, path: filePath }),
           }],
         };
       }
     );
 
+    // Search records
+    this.addTool(
+      'search_records',
+      'Search for records containing specific text',
+      SearchRecordsArgsSchema.shape,
+      async (args: z.infer<typeof SearchRecordsArgsSchema>) => {
+        const tableId = await this.aitableService.resolveDatasheetId(args.baseId, args.tableId);
+        const fieldIds = args.fieldIds
+          ? await this.aitableService.resolveFieldIds(args.baseId, tableId, args.fieldIds)
+          : undefined;
+        const records = await this.aitableService.searchRecords(
+          args.baseId,
+          tableId,
+          args.searchTerm,
+          fieldIds,
+          args.maxRecords,
+        );
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify({ records }),
+          }],
+        };
+      },
+    );
+
     // Get record
-    this.tool(
+    this.addTool(
       'get_record',
       'Get a specific record by ID',
-      {
-        baseId: z.string().describe('ID of the AITable base'),
-        tableId: z.string().describe('ID of the table'),
-        recordId: z.string().describe('ID of the record'),
-      },
-      async (args: { baseId: string; tableId: string; recordId: string }, _extra: RequestHandlerExtra) => {
-        const record = await this.aitableService.getRecord(args.baseId, args.tableId, args.recordId);
+      GetRecordArgsSchema.shape,
+      async (args: z.infer<typeof GetRecordArgsSchema>) => {
+        const tableId = await this.aitableService.resolveDatasheetId(args.baseId, args.tableId);
+        const record = await this.aitableService.getRecord(args.baseId, tableId, args.recordId);
         return {
           content: [{
             type: 'text',
@@ -195,64 +605,183 @@ export class AITableMCPServer extends McpServer implements IAITableMCPServer {
     );
 
     // Create record
-    this.tool(
+    this.addTool(
       'create_record',
       'Create a new record in a table',
       CreateRecordArgsSchema.shape,
-      async (args: { baseId: string; tableId: string; fields: Record<string, any> }, _extra: RequestHandlerExtra) => {
+      async (args: z.infer<typeof CreateRecordArgsSchema>) => {
         const validatedArgs = CreateRecordArgsSchema.parse(args);
-        const record = await this.aitableService.createRecord(validatedArgs.baseId, validatedArgs.tableId, validatedArgs.fields);
+        const tableId = await this.aitableService.resolveDatasheetId(validatedArgs.baseId, validatedArgs.tableId);
+        const { records: [{ fields }], coercions } = await this.prepareRecords(
+          validatedArgs.baseId,
+          tableId,
+          [{ fields: validatedArgs.fields }],
+          validatedArgs.coerce,
+        );
+        if (this.isDryRun()) {
+          return previewResult({ ...previewRecordCreation('create_record', validatedArgs.baseId, tableId, [{ fields }]), ...withCoercions(coercions) });
+        }
+        const record = await this.aitableService.createRecord(validatedArgs.baseId, tableId, fields);
         return {
           content: [{
             type: 'text',
             mimeType: 'application/json',
-            text: JSON.stringify({ record }),
+            text: JSON.stringify({ record, ...withCoercions(coercions) }),
           }],
         };
       }
     );
 
+    // Create records
+    this.addTool(
+      'create_records',
+      'Create multiple records in a table. Reports records that could not be created under `failed`',
+      CreateRecordsArgsSchema.shape,
+      async (args: z.infer<typeof CreateRecordsArgsSchema>) => {
+        const tableId = await this.aitableService.resolveDatasheetId(args.baseId, args.tableId);
+        const { records: creates, coercions } = await this.prepareRecords(args.baseId, tableId, args.records, args.coerce);
+        if (this.isDryRun()) {
+          return previewResult({ ...previewRecordCreation('create_records', args.baseId, tableId, creates), ...withCoercions(coercions) });
+        }
+        const result = await this.aitableService.createRecords(args.baseId, tableId, creates);
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify({ records: result.succeeded, failed: result.failed, ...withCoercions(coercions) }),
+          }],
+          isError: result.succeeded.length === 0 && result.failed.length > 0,
+        };
+      },
+    );
+
     // Update records
-    this.tool(
+    this.addTool(
       'update_records',
-      'Update multiple records in a table',
+      'Update multiple records in a table. Reports records that could not be updated under `failed`. Set dryRun to see the before/after values without writing',
       UpdateRecordsArgsSchema.shape,
-      async (args: { baseId: string; tableId: string; records: Array<{ id: string; fields: Record<string, any> }> }, _extra: RequestHandlerExtra) => {
+      async (args: z.infer<typeof UpdateRecordsArgsSchema>) => {
         const validatedArgs = UpdateRecordsArgsSchema.parse(args);
-        const records = await this.aitableService.updateRecords(validatedArgs.baseId, validatedArgs.tableId, validatedArgs.records);
+        const tableId = await this.aitableService.resolveDatasheetId(validatedArgs.baseId, validatedArgs.tableId);
+        const { records: updates, coercions } = await this.prepareRecords(
+          validatedArgs.baseId,
+          tableId,
+          validatedArgs.records,
+          validatedArgs.coerce,
+        );
+        if (this.isDryRun(validatedArgs.dryRun)) {
+          return previewResult({
+            ...await previewRecordUpdates(this.aitableService, validatedArgs.baseId, tableId, updates),
+            ...withCoercions(coercions),
+          });
+        }
+        const result = await this.aitableService.updateRecords(validatedArgs.baseId, tableId, updates);
         return {
           content: [{
             type: 'text',
             mimeType: 'application/json',
-            text: JSON.stringify({ records }),
+            text: JSON.stringify({ records: result.succeeded, failed: result.failed, ...withCoercions(coercions) }),
           }],
+          isError: result.succeeded.length === 0 && result.failed.length > 0,
         };
       }
     );
 
+    // Upsert records
+    this.addTool(
+      'upsert_records',
+      'Create or update records, matching existing records on the values of the merge fields. Fails without writing anything if a merge key matches more than one existing record',
+      UpsertRecordsArgsSchema.shape,
+      async (args: z.infer<typeof UpsertRecordsArgsSchema>) => {
+        const tableId = await this.aitableService.resolveDatasheetId(args.baseId, args.tableId);
+        const { records, coercions } = await this.prepareRecords(args.baseId, tableId, args.records, args.coerce);
+        if (this.isDryRun()) {
+          return previewResult({
+            ...await previewUpsert(this.aitableService, args.baseId, tableId, records, args.mergeOnFields),
+            ...withCoercions(coercions),
+          });
+        }
+        const result = await this.aitableService.upsertRecords(args.baseId, tableId, records, args.mergeOnFields);
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify({ ...result, ...withCoercions(coercions) }),
+          }],
+          isError: result.created.length === 0 && result.updated.length === 0 && result.failed.length > 0,
+        };
+      },
+    );
+
+    // Import records
+    this.addTool(
+      'import_records',
+      'Import rows from a local CSV, JSON or JSON Lines file, matching columns to fields by name or through a mapping. Creates a record per row, or upserts on merge fields, and reports what happened to each row. Set dryRun to only validate the rows',
+      ImportRecordsArgsSchema.shape,
+      async (args: z.infer<typeof ImportRecordsArgsSchema>) => {
+        const tableId = await this.aitableService.resolveDatasheetId(args.baseId, args.tableId);
+        const file = await readImportFile(await resolveImportPath(args.filePath, this.options.importDir), args.format);
+        const report = await importRecords(this.aitableService, args.baseId, tableId, file, {
+          mapping: args.mapping,
+          mergeOnFields: args.mergeOnFields,
+          coerce: args.coerce ?? this.options.coerce ?? 'off',
+          dryRun: this.isDryRun(args.dryRun),
+        });
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify(report),
+          }],
+          isError: report.summary.failed > 0 && report.summary.created + report.summary.updated + report.summary.valid === 0,
+        };
+      },
+    );
+
     // Delete records
-    this.tool(
+    this.addTool(
       'delete_records',
-      'Delete multiple records from a table',
-      {
-        baseId: z.string().describe('ID of the AITable base'),
-        tableId: z.string().describe('ID of the table'),
-        recordIds: z.array(z.string()).describe('Array of record IDs to delete'),
-      },
-      async (args: { baseId: string; tableId: string; recordIds: string[] }, _extra: RequestHandlerExtra) => {
-        const result = await this.aitableService.deleteRecords(args.baseId, args.tableId, args.recordIds);
+      'Delete multiple records from a table. Reports records that could not be deleted under `failed`. Set dryRun to see the records that would be deleted. Large deletions may return a confirmToken instead of deleting; call again with it to go ahead',
+      DeleteRecordsArgsSchema.shape,
+      async (args: z.infer<typeof DeleteRecordsArgsSchema>) => {
+        const tableId = await this.aitableService.resolveDatasheetId(args.baseId, args.tableId);
+        if (this.isDryRun(args.dryRun)) {
+          return previewResult(await previewRecordDeletion(this.aitableService, args.baseId, tableId, args.recordIds));
+        }
+
+        // Large deletions go through a second call carrying a token issued for these exact records
+        const threshold = this.options.deleteConfirmationThreshold;
+        if (threshold !== undefined && args.recordIds.length > threshold) {
+          const key = JSON.stringify([args.baseId, tableId, [...new Set(args.recordIds)].sort()]);
+          if (!args.confirmToken) {
+            const preview = await previewRecordDeletion(this.aitableService, args.baseId, tableId, args.recordIds);
+            return previewResult({
+              ...preview,
+              confirmToken: this.confirmations.issue(key),
+              message: `Deleting ${args.recordIds.length} records needs confirmation. Review the changes, then call delete_records again with the same arguments and this confirmToken`,
+            });
+          }
+          if (!this.confirmations.consume(args.confirmToken, key)) {
+            throw new ValidationError('confirmToken is invalid, has expired or was issued for different records', {
+              remediation: 'Call delete_records without confirmToken to get a new one.',
+            });
+          }
+        }
+
+        const result = await this.aitableService.deleteRecords(args.baseId, tableId, args.recordIds);
         return {
           content: [{
             type: 'text',
             mimeType: 'application/json',
-            text: JSON.stringify({ result }),
+            text: JSON.stringify({ result: result.succeeded, failed: result.failed }),
           }],
+          isError: result.succeeded.length === 0 && result.failed.length > 0,
         };
       }
     );
 
     // Create table
-    this.tool(
+    this.addTool(
       'create_table',
       'Create a new table in a base',
       {
@@ -276,7 +805,10 @@ export class AITableMCPServer extends McpServer implements IAITableMCPServer {
           description?: string;
           options?: Record<string, any>;
         }>;
-      }, _extra: RequestHandlerExtra) => {
+      }) => {
+        if (this.isDryRun()) {
+          return previewResult(await previewTableCreation(this.aitableService, args.baseId, args));
+        }
         const table = await this.aitableService.createTable(args.baseId, args.name, args.fields, args.description);
         return {
           content: [{
@@ -288,21 +820,94 @@ export class AITableMCPServer extends McpServer implements IAITableMCPServer {
       }
     );
 
+    // Export schema
+    this.addTool(
+      'export_schema',
+      'Describe one or more tables as a portable schema document: fields with their types and options, views and folder paths. Pass the document to apply_schema to recreate the tables in another space',
+      ExportSchemaArgsSchema.shape,
+      async (args: z.infer<typeof ExportSchemaArgsSchema>) => {
+        const tableIds = await Promise.all(args.tableIds.map((tableId) => this.aitableService.resolveDatasheetId(args.baseId, tableId)));
+        const schema = await exportSchema(this.aitableService, args.baseId, tableIds);
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify({ schema }),
+          }],
+        };
+      },
+    );
+
+    // Apply schema
+    this.addTool(
+      'apply_schema',
+      'Recreate the tables of a schema document from export_schema in a base, with links between them pointed at the new tables and formula and lookup references rewritten. Tables whose name is taken are skipped. Reports whatever could not be reproduced, such as extra views. Set dryRun to see the plan without creating anything',
+      ApplySchemaArgsSchema.shape,
+      async (args: z.infer<typeof ApplySchemaArgsSchema>) => {
+        const report = await applySchema(this.aitableService, args.baseId, args.schema, this.isDryRun(args.dryRun));
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify(report),
+          }],
+        };
+      },
+    );
+
+    // Plan schema migration
+    this.addTool(
+      'plan_schema_migration',
+      'Compare the tables and fields a base should have with what it has, and list the changes that would bring it in line: new tables and fields, renames, and description and option changes, in the order apply_schema_migration applies them. Nothing is deleted, and differences that can\'t be migrated, such as field types, are listed as warnings',
+      PlanSchemaMigrationArgsSchema.shape,
+      async (args: z.infer<typeof PlanSchemaMigrationArgsSchema>) => {
+        const plan = await planSchemaMigration(this.aitableService, args.baseId, args.schema);
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify(plan),
+          }],
+        };
+      },
+    );
+
+    // Apply schema migration
+    this.addTool(
+      'apply_schema_migration',
+      'Bring a base in line with the tables and fields it should have, applying the plan from plan_schema_migration one step at a time. Stops at the first step that fails, reporting the steps applied before it. Set dryRun to get the plan without applying it',
+      ApplySchemaMigrationArgsSchema.shape,
+      async (args: z.infer<typeof ApplySchemaMigrationArgsSchema>) => {
+        const plan = await planSchemaMigration(this.aitableService, args.baseId, args.schema);
+        const report = this.isDryRun(args.dryRun)
+          ? { dryRun: true, ...plan }
+          : await applySchemaMigration(this.aitableService, args.baseId, plan);
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify(report),
+          }],
+          isError: 'failed' in report && report.failed !== undefined,
+        };
+      },
+    );
+
     // Update table
-    this.tool(
+    this.addTool(
       'update_table',
-      'Update a table in a base',
-      {
-        baseId: z.string().describe('ID of the AITable base'),
-        tableId: z.string().describe('ID of the table'),
-        name: z.string().optional().describe('New name for the table'),
-        description: z.string().optional().describe('New description for the table'),
-      },
-      async (args: { baseId: string; tableId: string; name?: string; description?: string }, _extra: RequestHandlerExtra) => {
-        const table = await this.aitableService.updateTable(args.baseId, args.tableId, {
+      'Update a table in a base. Set dryRun to see the before/after values without writing',
+      UpdateTableArgsSchema.shape,
+      async (args: z.infer<typeof UpdateTableArgsSchema>) => {
+        const tableId = await this.aitableService.resolveDatasheetId(args.baseId, args.tableId);
+        const updates = {
           name: args.name,
           description: args.description,
-        });
+        };
+        if (this.isDryRun(args.dryRun)) {
+          return previewResult(await previewTableUpdate(this.aitableService, args.baseId, tableId, updates));
+        }
+        const table = await this.aitableService.updateTable(args.baseId, tableId, updates);
         return {
           content: [{
             type: 'text',
@@ -314,31 +919,48 @@ export class AITableMCPServer extends McpServer implements IAITableMCPServer {
     );
 
     // Create field
-    this.tool(
+    this.addTool(
       'create_field',
-      'Create a new field in a table',
-      {
-        baseId: z.string().describe('ID of the AITable base'),
-        tableId: z.string().describe('ID of the table'),
-        name: z.string().describe('Name of the new field'),
-        type: z.string().describe('Type of the field'),
-        description: z.string().optional().describe('Description of the field'),
-        options: z.record(z.string(), z.any()).optional().describe('Additional options for the field'),
-      },
-      async (args: {
-        baseId: string;
-        tableId: string;
-        name: string;
-        type: string;
-        description?: string;
-        options?: Record<string, any>;
-      }, _extra: RequestHandlerExtra) => {
-        const field = await this.aitableService.createField(args.baseId, args.tableId, {
+      'Create a new field in a table. Set dryRun to check the field definition without creating it',
+      CreateFieldArgsSchema.shape,
+      async (args: z.infer<typeof CreateFieldArgsSchema>) => {
+        const tableId = await this.aitableService.resolveDatasheetId(args.baseId, args.tableId);
+        const definition = {
           name: args.name,
           type: args.type,
           description: args.description,
           options: args.options,
-        });
+        };
+        if (this.isDryRun(args.dryRun)) {
+          return previewResult(await previewFieldCreation(this.aitableService, args.baseId, tableId, definition));
+        }
+        const field = await this.aitableService.createField(args.baseId, tableId, definition);
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify({ field }),
+          }],
+        };
+      },
+    );
+
+    // Update field
+    this.addTool(
+      'update_field',
+      'Update a field\'s name or description',
+      UpdateFieldArgsSchema.shape,
+      async (args: z.infer<typeof UpdateFieldArgsSchema>) => {
+        const tableId = await this.aitableService.resolveDatasheetId(args.baseId, args.tableId);
+        const [fieldId] = await this.aitableService.resolveFieldIds(args.baseId, tableId, [args.fieldId]);
+        const updates = {
+          name: args.name,
+          description: args.description,
+        };
+        if (this.isDryRun()) {
+          return previewResult(await previewFieldUpdate(this.aitableService, args.baseId, tableId, fieldId, updates));
+        }
+        const field = await this.aitableService.updateField(args.baseId, tableId, fieldId, updates);
         return {
           content: [{
             type: 'text',
@@ -350,102 +972,361 @@ export class AITableMCPServer extends McpServer implements IAITableMCPServer {
     );
 
     // List all datasheets tool (including those in subfolders)
-    this.tool(
+    this.addTool(
       'list_all_datasheets',
       'List all datasheets in a space, including those in subfolders',
       {
         spaceId: z.string().describe('ID of the AITable space to search for datasheets'),
       },
-      async (args: { spaceId: string }, _extra: RequestHandlerExtra) => {
-        try {
-          const datasheets = await this.aitableService.getAllDatasheets(args.spaceId);
-          
-          return {
-            content: [{
-              type: 'text',
-              mimeType: 'application/json',
-              text: JSON.stringify({ datasheets }),
-            }],
-          };
-        } catch (error) {
-          return {
-            content: [{
-              type: 'text',
-              mimeType: 'application/json',
-              text: JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
-            }],
-            isError: true,
-          };
-        }
+      async (args: { spaceId: string }) => {
+        const datasheets = await this.aitableService.getAllDatasheets(args.spaceId);
+
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify({ datasheets }),
+          }],
+        };
       }
     );
+
+    // Snapshot table
+    this.addTool(
+      'snapshot_table',
+      'Save a timestamped copy of every record in a table to local disk, to compare against later with diff_table',
+      SnapshotTableArgsSchema.shape,
+      async (args: z.infer<typeof SnapshotTableArgsSchema>) => {
+        const tableId = await this.aitableService.resolveDatasheetId(args.baseId, args.tableId);
+        const page = await this.aitableService.listRecordsPage(args.baseId, tableId, { fetchAll: true });
+        const snapshot = await this.snapshots.save(args.baseId, tableId, page.records, {
+          label: args.label,
+          truncated: page.truncated,
+        });
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify({ snapshot }),
+          }],
+        };
+      },
+    );
+
+    // Diff table
+    this.addTool(
+      'diff_table',
+      'Compare a snapshot of a table with its current records or with a later snapshot, listing added, removed and modified records with old and new field values',
+      DiffTableArgsSchema.shape,
+      async (args: z.infer<typeof DiffTableArgsSchema>) => {
+        const tableId = await this.aitableService.resolveDatasheetId(args.baseId, args.tableId);
+        // Snapshots are checked against the access policy too, since reading them doesn't go through the API
+        const checkSnapshot = (snapshot: TableSnapshot) => {
+          if (snapshot.datasheetId !== tableId) {
+            throw new ValidationError(`aitable-mcp-server: Snapshot "${snapshot.id}" is of datasheet ${snapshot.datasheetId}, not ${tableId}`);
+          }
+          this.accessPolicy.assertAccess(snapshot.spaceId, snapshot.datasheetId);
+          return snapshot;
+        };
+
+        const from = args.snapshotId ? await this.snapshots.load(args.snapshotId) : await this.snapshots.latest(tableId);
+        if (!from) {
+          throw new NotFoundError(`aitable-mcp-server: There are no snapshots of datasheet ${tableId}. Take one with snapshot_table first`);
+        }
+        checkSnapshot(from);
+
+        const to = args.compareTo
+          ? checkSnapshot(await this.snapshots.load(args.compareTo))
+          : undefined;
+        const current = to ? undefined : await this.aitableService.listRecordsPage(args.baseId, tableId, { fetchAll: true });
+        const diff = diffRecords(from.records, to?.records ?? current?.records ?? []);
+
+        // Records past the fetch ceiling are missing from a truncated side, so they look added or removed
+        const fromTruncated = from.truncated === true;
+        const toTruncated = (to ? to.truncated : current?.truncated) === true;
+        const warnings = [
+          ...fromTruncated ? [`Snapshot "${from.id}" stopped at ${from.recordCount} records, so records past them are listed as added even if they existed before`] : [],
+          ...toTruncated ? [`${to ? `Snapshot "${to.id}"` : 'The current records'} stopped at ${to ? to.recordCount : current?.records.length} records, so records past them are listed as removed even if they still exist`] : [],
+        ];
+
+        const limit = args.maxChanges ?? DEFAULT_MAX_DIFF_CHANGES;
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify({
+              from: snapshotInfo(from),
+              to: to ? snapshotInfo(to) : 'current',
+              summary: {
+                added: diff.added.length,
+                removed: diff.removed.length,
+                modified: diff.modified.length,
+                unchanged: diff.unchanged,
+                fromTruncated: fromTruncated || undefined,
+                toTruncated: toTruncated || undefined,
+              },
+              warnings: warnings.length > 0 ? warnings : undefined,
+              added: diff.added.slice(0, limit),
+              removed: diff.removed.slice(0, limit),
+              modified: diff.modified.slice(0, limit),
+              truncated: Math.max(diff.added.length, diff.removed.length, diff.modified.length) > limit || undefined,
+            }),
+          }],
+        };
+      },
+    );
+
+    // Refresh schema cache
+    this.addTool(
+      'refresh_schema_cache',
+      'Discard cached folder trees, fields and views so the next call fetches them fresh. Use after changing tables outside this server',
+      RefreshSchemaCacheArgsSchema.shape,
+      async (args: z.infer<typeof RefreshSchemaCacheArgsSchema>) => {
+        this.aitableService.clearSchemaCache({ spaceId: args.baseId, datasheetId: args.tableId });
+        const cleared = args.baseId || args.tableId ? { baseId: args.baseId, tableId: args.tableId } : 'all';
+        return {
+          content: [{
+            type: 'text',
+            mimeType: 'application/json',
+            text: JSON.stringify({ cleared }),
+          }],
+        };
+      },
+    );
+  }
+
+  /**
+   * Resolves which records a listing selects: combines filterByFormula with a
+   * compiled structured filter, and resolves sort, projection and view
+   * references. Fields are resolved to IDs when records are keyed by ID.
+   */
+  private async resolveRecordSelection(
+    baseId: string,
+    tableId: string,
+    args: Pick<z.infer<typeof ListRecordsArgsSchema>, 'filterByFormula' | 'filter' | 'sort' | 'fields' | 'viewId' | 'fieldKey'>,
+  ): Promise<Pick<ListRecordsOptions, 'filterByFormula' | 'sort' | 'fields' | 'viewId'>> {
+    const formulas = [
+      ...(args.filterByFormula ? [args.filterByFormula] : []),
+      ...(args.filter ? [await this.aitableService.compileFilter(baseId, tableId, args.filter)] : []),
+    ];
+
+    const resolveFields = (refs: string[]) => (args.fieldKey === 'id'
+      ? this.aitableService.resolveFieldIds(baseId, tableId, refs)
+      : this.aitableService.resolveFieldNames(baseId, tableId, refs));
+    const sortFields = args.sort ? await resolveFields(args.sort.map((sort) => sort.field)) : [];
+
+    return {
+      filterByFormula: formulas.length > 0 ? and(formulas) : undefined,
+      sort: args.sort?.map((sort, index) => ({ field: sortFields[index], direction: sort.direction })),
+      fields: args.fields ? await resolveFields(args.fields) : undefined,
+      viewId: args.viewId ? await this.aitableService.resolveViewId(baseId, tableId, args.viewId) : undefined,
+    };
   }
 
   /**
    * Register all resources with the server
    */
   setupResources(): void {
-    // Base schema resource
+    const { aitableService } = this;
+    const spaces = async () => (await aitableService.listBases()).bases;
+    // Datasheets of the space a completion is for, named by their folder path
+    const datasheetsOf = async (spaceId?: string) => (
+      spaceId ? (await aitableService.getAllDatasheets(spaceId)).map((datasheet) => ({ id: datasheet.id, name: datasheet.path })) : []
+    );
+
+    // Space schema resource, listed for every space
     this.resource(
       'base',
-      new ResourceTemplate('base://{baseId}', { list: undefined }),
+      new ResourceTemplate('base://{baseId}', {
+        list: async () => ({
+          resources: (await spaces()).map((space) => ({ uri: `base://${space.id}`, name: space.name })),
+        }),
+        complete: {
+          baseId: (value) => completeIds(value, spaces),
+        },
+      }),
+      { mimeType: JSON_MIME_TYPE, description: 'Schema of every datasheet in a space' },
       async (uri, variables: Variables) => {
         const baseId = String(variables.baseId);
         const schema = await this.aitableService.getBaseSchema(baseId);
         return {
           contents: [{
             uri: uri.href,
+            mimeType: JSON_MIME_TYPE,
             text: JSON.stringify(schema),
           }],
         };
       }
     );
 
-    // Table records resource
+    // Datasheet records resource, listed for every datasheet of every space
     this.resource(
       'table',
-      new ResourceTemplate('table://{baseId}/{tableId}', { list: undefined }),
+      new ResourceTemplate('table://{baseId}/{tableId}', {
+        list: async () => {
+          // A space whose datasheets can't be read is left out rather than failing the whole listing
+          const listed = await Promise.all((await spaces()).map(async (space) => {
+            try {
+              return (await aitableService.getAllDatasheets(space.id)).map((datasheet) => ({
+                uri: `table://${space.id}/${datasheet.id}`,
+                name: `${space.name}: ${datasheet.path}`,
+              }));
+            } catch (error) {
+              logger.warn('Left a space out of the resource list, as its datasheets could not be read', { spaceId: space.id, error });
+              return [];
+            }
+          }));
+          return { resources: listed.flat() };
+        },
+        complete: {
+          baseId: (value) => completeIds(value, spaces),
+          tableId: (value, context) => completeIds(value, () => datasheetsOf(context?.arguments?.baseId)),
+        },
+      }),
+      { mimeType: JSON_MIME_TYPE, description: 'Every record of a datasheet' },
       async (uri, variables: Variables) => {
         const baseId = String(variables.baseId);
         const tableId = String(variables.tableId);
-        const records = await this.aitableService.listRecords(baseId, tableId);
+        const page = await this.aitableService.listRecordsPage(baseId, tableId, { fetchAll: true });
         return {
           contents: [{
             uri: uri.href,
-            text: JSON.stringify({ records }),
+            mimeType: JSON_MIME_TYPE,
+            text: JSON.stringify(page),
           }],
         };
       }
     );
+
+    // Datasheet schema resource: its fields and views without any records
+    this.resource(
+      'schema',
+      new ResourceTemplate('schema://{spaceId}/{datasheetId}', {
+        list: undefined,
+        complete: {
+          spaceId: (value) => completeIds(value, spaces),
+          datasheetId: (value, context) => completeIds(value, () => datasheetsOf(context?.arguments?.spaceId)),
+        },
+      }),
+      { mimeType: JSON_MIME_TYPE, description: 'Fields and views of a datasheet' },
+      async (uri, variables: Variables) => {
+        const spaceId = String(variables.spaceId);
+        const datasheetId = String(variables.datasheetId);
+        const [fields, views] = await Promise.all([
+          this.aitableService.getFields(spaceId, datasheetId),
+          this.aitableService.getViews(spaceId, datasheetId),
+        ]);
+        return {
+          contents: [{
+            uri: uri.href,
+            mimeType: JSON_MIME_TYPE,
+            text: JSON.stringify({
+              id: datasheetId, spaceId, fields, views,
+            }),
+          }],
+        };
+      },
+    );
+
+    // Single record resource
+    this.resource(
+      'record',
+      new ResourceTemplate('record://{spaceId}/{datasheetId}/{recordId}', {
+        list: undefined,
+        complete: {
+          spaceId: (value) => completeIds(value, spaces),
+          datasheetId: (value, context) => completeIds(value, () => datasheetsOf(context?.arguments?.spaceId)),
+          // Only the first page of records is offered, as records can't be looked up by ID prefix
+          recordId: (value, context) => completeIds(value, async () => {
+            const { spaceId, datasheetId } = context?.arguments ?? {};
+            return spaceId && datasheetId
+              ? (await aitableService.listRecordsPage(spaceId, datasheetId, { pageSize: 100 })).records
+              : [];
+          }),
+        },
+      }),
+      { mimeType: JSON_MIME_TYPE, description: 'A single record of a datasheet' },
+      async (uri, variables: Variables) => {
+        const record = await this.aitableService.getRecord(
+          String(variables.spaceId),
+          String(variables.datasheetId),
+          String(variables.recordId),
+        );
+        return {
+          contents: [{
+            uri: uri.href,
+            mimeType: JSON_MIME_TYPE,
+            text: JSON.stringify(record),
+          }],
+        };
+      },
+    );
+
+    // Folder resource: what is directly inside a folder, linked to the resources it can be read as
+    this.resource(
+      'folder',
+      new ResourceTemplate('folder://{spaceId}/{folderId}', {
+        list: undefined,
+        complete: {
+          spaceId: (value) => completeIds(value, spaces),
+          // Folders are only known through the datasheets in them, named by their folder path
+          folderId: (value, context) => completeIds(value, async () => {
+            const spaceId = context?.arguments?.spaceId;
+            const datasheets = spaceId ? await aitableService.getAllDatasheets(spaceId) : [];
+            const folders = new Map(datasheets
+              .filter((datasheet) => datasheet.parentId)
+              .map((datasheet) => [datasheet.parentId as string, datasheet.path.split(' > ').slice(0, -1).join(' > ')]));
+            return [...folders].map(([id, name]) => ({ id, name }));
+          }),
+        },
+      }),
+      { mimeType: JSON_MIME_TYPE, description: 'Folders and datasheets directly inside a folder' },
+      async (uri, variables: Variables) => {
+        const spaceId = String(variables.spaceId);
+        const folder = await this.aitableService.getNode(spaceId, String(variables.folderId));
+        if (folder.type !== 'Folder') {
+          throw new NotFoundError(`aitable-mcp-server: Node ${folder.id} in space ${spaceId} is a ${folder.type}, not a folder`);
+        }
+        return {
+          contents: [{
+            uri: uri.href,
+            mimeType: JSON_MIME_TYPE,
+            text: JSON.stringify({
+              id: folder.id,
+              name: folder.name,
+              spaceId,
+              children: (folder.children ?? []).map((child) => ({ ...child, uri: nodeUri(spaceId, child) })),
+            }),
+          }],
+        };
+      },
+    );
   }
 
   /**
    * Connect the server to a transport
    */
   async connect(transport: Transport): Promise<void> {
-    console.error('[CONNECT] Connecting AITableMCPServer to transport');
     await super.connect(transport);
-    console.error('[CONNECT] Connected AITableMCPServer to transport');
+    logger.debug('Connected to transport');
   }
 
   /**
    * Close the server connection
    */
   async close(): Promise<void> {
-    console.error('[CLOSE] Closing AITableMCPServer');
     await super.close();
-    console.error('[CLOSE] Closed AITableMCPServer');
+    logger.debug('Closed');
   }
 
-  public async executeToolDirectly(name: string, input: any): Promise<any> {
-    console.error(`[TOOL] Executing tool ${name} with input:`, input);
-    
+  public async executeToolDirectly(name: string, input: unknown): Promise<CallToolResult> {
+    logger.debug('Executing tool directly', { tool: name });
+
     try {
       const result = await this.executeToolByName(name, input);
-      console.error(`[TOOL] Tool ${name} executed successfully`);
       return result;
     } catch (error) {
-      console.error(`[ERROR] Failed to execute tool ${name}:`, error);
+      logger.error('Failed to execute tool directly', { tool: name, error });
       throw error;
     }
   }
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findDatasheet,
+  findField,
+  findView,
+  isDatasheetId,
+  resolveFieldSet,
+} from './nameResolver.js';
+import type { DatasheetInfo, Field } from './types.js';
+
+const datasheets: DatasheetInfo[] = [
+  { id: 'dstRoadmap', name: 'Q3 Roadmap', path: 'Projects > Q3 Roadmap', spaceId: 'spc1' },
+  { id: 'dstArchive', name: 'Q3 Roadmap', path: 'Archive > Q3 Roadmap', spaceId: 'spc1' },
+  { id: 'dstContacts', name: 'Contacts', path: 'Contacts', spaceId: 'spc1' },
+];
+
+const fields: Field[] = [
+  { id: 'fldName', name: 'Name', type: 'SingleText' },
+  { id: 'fldEmail', name: 'Email', type: 'Email' },
+  { id: 'fldStatus', name: 'status', type: 'SingleSelect' },
+  { id: 'fldStatus2', name: 'Status', type: 'SingleSelect' },
+];
+
+describe('isDatasheetId', () => {
+  it('recognizes datasheet IDs only', () => {
+    expect(isDatasheetId('dst0123abc')).toBe(true);
+    expect(isDatasheetId('Contacts')).toBe(false);
+    expect(isDatasheetId('Projects > Q3 Roadmap')).toBe(false);
+  });
+});
+
+describe('findDatasheet', () => {
+  it('matches a full folder path, ignoring spacing around separators', () => {
+    expect(findDatasheet(datasheets, 'Projects>Q3 Roadmap', 'spc1').id).toBe('dstRoadmap');
+  });
+
+  it('matches a unique name case-insensitively', () => {
+    expect(findDatasheet(datasheets, 'contacts', 'spc1').id).toBe('dstContacts');
+  });
+
+  it('lists every candidate, sorted, when a name is ambiguous', () => {
+    expect(() => findDatasheet(datasheets, 'Q3 Roadmap', 'spc1')).toThrow(
+      'Datasheet "Q3 Roadmap" is ambiguous in space spc1. Use one of: "Archive > Q3 Roadmap" (dstArchive), "Projects > Q3 Roadmap" (dstRoadmap)',
+    );
+  });
+
+  it('reports what is available when nothing matches', () => {
+    expect(() => findDatasheet(datasheets, 'Invoices', 'spc1')).toThrow('Datasheet "Invoices" not found in space spc1. Available: "Archive > Q3 Roadmap"');
+  });
+});
+
+describe('findField', () => {
+  it('prefers an exact name match over case-insensitive ones', () => {
+    expect(findField(fields, 'Status', 'dst1').id).toBe('fldStatus2');
+  });
+
+  it('accepts field IDs', () => {
+    expect(findField(fields, 'fldEmail', 'dst1').name).toBe('Email');
+  });
+
+  it('fails on names that only match case-insensitively more than once', () => {
+    expect(() => findField(fields, 'STATUS', 'dst1')).toThrow('ambiguous');
+  });
+});
+
+describe('findView', () => {
+  it('matches views by name or ID', () => {
+    const views = [{ id: 'viwGrid', name: 'Grid view', type: 'Grid' }];
+    expect(findView(views, 'grid view', 'dst1').id).toBe('viwGrid');
+    expect(findView(views, 'viwGrid', 'dst1').id).toBe('viwGrid');
+  });
+});
+
+describe('resolveFieldSet', () => {
+  it('rewrites field IDs and loose names to exact field names', () => {
+    expect(resolveFieldSet(fields, { fldName: 'Ada', email: 'ada@example.com' }, 'dst1')).toEqual({
+      Name: 'Ada',
+      Email: 'ada@example.com',
+    });
+  });
+
+  it('rejects a payload that sets the same field twice', () => {
+    expect(() => resolveFieldSet(fields, { fldName: 'Ada', Name: 'Grace' }, 'dst1')).toThrow('set more than once');
+  });
+});
@@ -0,0 +1,146 @@
+import type {
+  DatasheetInfo,
+  Field,
+  FieldSet,
+  View,
+} from './types.js';
+import { NotFoundError, ValidationError } from './errors.js';
+
+// AITable node IDs carry a type prefix, e.g. dstXXXX for datasheets
+const DATASHEET_ID_PATTERN = /^dst[0-9A-Za-z]+$/;
+const FIELD_ID_PATTERN = /^fld[0-9A-Za-z]+$/;
+const VIEW_ID_PATTERN = /^viw[0-9A-Za-z]+$/;
+
+// Cap on how many candidates are listed in a not-found error
+const MAX_LISTED_CANDIDATES = 20;
+
+/**
+ * Whether a reference is a raw datasheet ID rather than a name or path
+ */
+export function isDatasheetId(ref: string): boolean {
+  return DATASHEET_ID_PATTERN.test(ref);
+}
+
+/**
+ * Normalizes a folder path so "Projects>Q3 Roadmap" and "Projects > Q3 Roadmap" compare equal
+ */
+function normalizePath(path: string): string {
+  return path.split('>').map((segment) => segment.trim()).join(' > ');
+}
+
+/**
+ * Picks the single best match out of the candidates, trying exact matches
+ * before case-insensitive ones. Throws when nothing or more than one candidate matches.
+ */
+function pickUnique<T>(
+  candidates: T[],
+  matches: (candidate: T, caseInsensitive: boolean) => boolean,
+  describe: (candidate: T) => string,
+  what: string,
+  ref: string,
+  scope: string,
+): T {
+  // Exact matches win; case-insensitive ones are only tried when there are none
+  const matched = [false, true]
+    .map((caseInsensitive) => candidates.filter((candidate) => matches(candidate, caseInsensitive)))
+    .find((found) => found.length > 0) ?? [];
+  if (matched.length === 1) {
+    return matched[0];
+  }
+  if (matched.length > 1) {
+    const listed = matched.map(describe).sort().join(', ');
+    throw new ValidationError(`aitable-mcp-server: ${what} "${ref}" is ambiguous in ${scope}. Use one of: ${listed}`, {
+      remediation: 'Refer to it by ID, or by a name that matches exactly.',
+    });
+  }
+
+  const available = candidates.map(describe).sort();
+  const listed = available.slice(0, MAX_LISTED_CANDIDATES).join(', ');
+  const more = available.length > MAX_LISTED_CANDIDATES ? ` (and ${available.length - MAX_LISTED_CANDIDATES} more)` : '';
+  throw new NotFoundError(`aitable-mcp-server: ${what} "${ref}" not found in ${scope}. Available: ${listed || 'none'}${more}`);
+}
+
+/**
+ * Finds a datasheet by ID, name or folder path. A path may be given in full
+ * ("Projects > Q3 Roadmap") or as any trailing part of it.
+ */
+export function findDatasheet(datasheets: DatasheetInfo[], ref: string, spaceId: string): DatasheetInfo {
+  const byId = datasheets.find((ds) => ds.id === ref);
+  if (byId) {
+    return byId;
+  }
+
+  const wanted = normalizePath(ref);
+  return pickUnique(
+    datasheets,
+    (ds, caseInsensitive) => {
+      const path = caseInsensitive ? ds.path.toLowerCase() : ds.path;
+      const target = caseInsensitive ? wanted.toLowerCase() : wanted;
+      return path === target || path.endsWith(` > ${target}`);
+    },
+    (ds) => `"${ds.path}" (${ds.id})`,
+    'Datasheet',
+    ref,
+    `space ${spaceId}`,
+  );
+}
+
+/**
+ * Finds a field by ID or name
+ */
+export function findField(fields: Field[], ref: string, datasheetId: string): Field {
+  if (FIELD_ID_PATTERN.test(ref)) {
+    const byId = fields.find((field) => field.id === ref);
+    if (byId) {
+      return byId;
+    }
+  }
+
+  return pickUnique(
+    fields,
+    (field, caseInsensitive) => (caseInsensitive ? field.name.toLowerCase() === ref.toLowerCase() : field.name === ref),
+    (field) => `"${field.name}" (${field.id})`,
+    'Field',
+    ref,
+    `datasheet ${datasheetId}`,
+  );
+}
+
+/**
+ * Finds a view by ID or name
+ */
+export function findView(views: View[], ref: string, datasheetId: string): View {
+  if (VIEW_ID_PATTERN.test(ref)) {
+    const byId = views.find((view) => view.id === ref);
+    if (byId) {
+      return byId;
+    }
+  }
+
+  return pickUnique(
+    views,
+    (view, caseInsensitive) => (caseInsensitive ? view.name.toLowerCase() === ref.toLowerCase() : view.name === ref),
+    (view) => `"${view.name}" (${view.id})`,
+    'View',
+    ref,
+    `datasheet ${datasheetId}`,
+  );
+}
+
+/**
+ * Rewrites the keys of a fields payload, which may be field IDs or loosely
+ * matching names, to the exact field names the records API expects
+ */
+export function resolveFieldSet(fields: Field[], fieldSet: FieldSet, datasheetId: string): FieldSet {
+  const resolved: FieldSet = {};
+
+  Object.entries(fieldSet).forEach(([key, value]) => {
+    const field = findField(fields, key, datasheetId);
+    if (field.name in resolved) {
+      throw new ValidationError(`aitable-mcp-server: Field "${field.name}" (${field.id}) is set more than once in datasheet ${datasheetId}`);
+    }
+    resolved[field.name] = value;
+  });
+
+  return resolved;
+}
@@ -0,0 +1,100 @@
+import {
+  describe, it, expect, beforeEach, afterEach, vi,
+} from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  exportColumns, flattenFieldValue, formatRecords, writeExport,
+} from './recordExport.js';
+import type { Field } from './types.js';
+
+const fields: Field[] = [
+  { name: 'Name', type: 'SingleText' },
+  { name: 'Tags', type: 'MultiSelect' },
+  { name: 'Due', type: 'DateTime' },
+];
+
+describe('flattenFieldValue', () => {
+  it('flattens lists, attachments, members and dates to text', () => {
+    expect(flattenFieldValue(['a', 'b'])).toBe('a, b');
+    expect(flattenFieldValue(['recA', 'recB'])).toBe('recA, recB');
+    expect(flattenFieldValue([{ token: 't1', name: 'cv.pdf', url: 'https://files/cv.pdf' }])).toBe('https://files/cv.pdf');
+    expect(flattenFieldValue([{ id: 'mem1', name: 'Ada', type: 'Member' }])).toBe('Ada');
+    expect(flattenFieldValue({ text: 'https://example.com', title: 'Example' })).toBe('https://example.com');
+    expect(flattenFieldValue(1740787200000, fields[2])).toBe('2025-03-01T00:00:00.000Z');
+    expect(flattenFieldValue(42)).toBe('42');
+    expect(flattenFieldValue(null)).toBe('');
+    expect(flattenFieldValue({ nested: true })).toBe('{"nested":true}');
+  });
+});
+
+describe('exportColumns', () => {
+  it('uses requested fields, or schema order followed by fields only the records have', () => {
+    const records = [{ id: 'rec1', fields: { Extra: 1, Name: 'Ada' } }];
+    expect(exportColumns(fields, records)).toEqual(['Name', 'Tags', 'Due', 'Extra']);
+    expect(exportColumns(fields, records, ['Due', 'Name'])).toEqual(['Due', 'Name']);
+  });
+});
+
+describe('formatRecords', () => {
+  const records = [{ id: 'rec1', fields: { Name: 'Smith, "Ada"\nJr', Tags: ['x', 'y'] } }];
+
+  it('quotes CSV cells containing separators, quotes or line breaks', () => {
+    expect(formatRecords('csv', ['Name', 'Tags'], records, fields))
+      .toBe('recordId,Name,Tags\r\nrec1,"Smith, ""Ada""\nJr","x, y"\r\n');
+  });
+
+  it('prefixes CSV cells a spreadsheet would read as a formula', () => {
+    const formulas = [{ id: 'rec1', fields: { Name: '=HYPERLINK("x")', Tags: ['@SUM(A1)', '-2'] } }];
+    expect(formatRecords('csv', ['Name', 'Tags'], formulas, fields))
+      .toBe('recordId,Name,Tags\r\nrec1,"\'=HYPERLINK(""x"")","\'@SUM(A1), -2"\r\n');
+    const controls = [{ id: 'rec1', fields: { Name: '\t=1+1', Tags: '-1+1' } }];
+    expect(formatRecords('csv', ['Name', 'Tags'], controls, fields)).toBe('recordId,Name,Tags\r\nrec1,\'\t=1+1,\'-1+1\r\n');
+  });
+
+  it('leaves numbers with a sign as numbers', () => {
+    const numbers = [{ id: 'rec1', fields: { Name: -5, Tags: '+44' } }];
+    expect(formatRecords('csv', ['Name', 'Tags'], numbers, fields)).toBe('recordId,Name,Tags\r\nrec1,-5,+44\r\n');
+  });
+
+  it('writes one JSON object per record, keeping values as they are', () => {
+    expect(formatRecords('jsonl', ['Name', 'Tags', 'Due'], records, fields))
+      .toBe('{"recordId":"rec1","Name":"Smith, \\"Ada\\"\\nJr","Tags":["x","y"],"Due":null}\n');
+  });
+});
+
+describe('writeExport', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'aitable-exports-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes the export to a new file named after the datasheet', async () => {
+    const filePath = await writeExport(path.join(dir, 'nested'), 'dst1', {
+      format: 'csv', mimeType: 'text/csv', columns: [], recordCount: 0, content: 'recordId\r\n',
+    });
+    expect(path.basename(filePath)).toMatch(/^dst1_\d{8}T\d{9}Z\.csv$/);
+    expect(await readFile(filePath, 'utf8')).toBe('recordId\r\n');
+  });
+
+  it('gives two exports written within the same millisecond different files', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const exported = {
+        format: 'jsonl' as const, mimeType: 'application/x-ndjson', columns: [], recordCount: 0, content: '',
+      };
+      const first = await writeExport(dir, 'dst1', exported);
+      const second = await writeExport(dir, 'dst1', exported);
+      expect(second).not.toBe(first);
+      expect(path.basename(second)).toMatch(/^dst1_\d{8}T\d{9}Z_[a-z0-9]+\.jsonl$/);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
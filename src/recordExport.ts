@@ -0,0 +1,133 @@
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import path from 'path';
+import type {
+  AITableRecord, ExportFormat, Field, RecordExport,
+} from './types.js';
+import { fieldValueKind } from './fieldValues.js';
+
+// Where exports are written when no directory is configured
+export const DEFAULT_EXPORT_DIR = path.join(homedir(), '.aitable-mcp-server', 'exports');
+
+// Column holding each record's ID, ahead of the datasheet's fields
+export const RECORD_ID_COLUMN = 'recordId';
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  jsonl: 'application/x-ndjson',
+};
+
+/**
+ * Column order for an export: the requested fields if any, otherwise the
+ * datasheet's fields in schema order, followed by any other fields the
+ * records turned out to have
+ */
+export function exportColumns(fields: Field[], records: AITableRecord[], requested?: string[]): string[] {
+  if (requested && requested.length > 0) {
+    return requested;
+  }
+  const columns = fields.map((field) => field.name);
+  const known = new Set(columns);
+  records.forEach((record) => {
+    Object.keys(record.fields).forEach((name) => {
+      if (!known.has(name)) {
+        known.add(name);
+        columns.push(name);
+      }
+    });
+  });
+  return columns;
+}
+
+/**
+ * Flattens a field value to a single line of text: dates as ISO timestamps,
+ * attachments as their URL, members and linked records by name, and lists
+ * joined with commas
+ */
+export function flattenFieldValue(value: unknown, field?: Field): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => flattenFieldValue(item, field)).filter((text) => text !== '').join(', ');
+  }
+  if (typeof value === 'number' && field && fieldValueKind(field) === 'dateTime') {
+    return new Date(value).toISOString();
+  }
+  if (typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    const label = object.url ?? object.name ?? object.text ?? object.title ?? object.recordId ?? object.id;
+    return typeof label === 'string' || typeof label === 'number' ? String(label) : JSON.stringify(value);
+  }
+  return String(value).replace(/\r\n?/g, '\n');
+}
+
+// Leading characters that make a spreadsheet read a cell as a formula
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+// A plain number, which a leading sign doesn't make a formula
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+/**
+ * Quotes a CSV cell if it contains a separator, quote or line break, and
+ * prefixes one that a spreadsheet would read as a formula with a quote.
+ * Numbers, negative ones included, are left as they are
+ */
+function csvCell(text: string): string {
+  const cell = FORMULA_TRIGGER.test(text) && !NUMBER_PATTERN.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Formats records as CSV, with a header row, or as JSON Lines, one object per
+ * record keyed by column. JSON Lines keeps values as they came from the API.
+ */
+export function formatRecords(
+  format: ExportFormat,
+  columns: string[],
+  records: AITableRecord[],
+  fields: Field[],
+): string {
+  if (format === 'jsonl') {
+    return records
+      .map((record) => JSON.stringify(Object.fromEntries([
+        [RECORD_ID_COLUMN, record.id],
+        ...columns.map((column) => [column, record.fields[column] ?? null]),
+      ])))
+      .map((line) => `${line}\n`)
+      .join('');
+  }
+
+  const fieldsByName = new Map(fields.map((field) => [field.name, field]));
+  const rows = [
+    [RECORD_ID_COLUMN, ...columns],
+    ...records.map((record) => [
+      record.id,
+      ...columns.map((column) => flattenFieldValue(record.fields[column], fieldsByName.get(column))),
+    ]),
+  ];
+  return rows.map((row) => `${row.map(csvCell).join(',')}\r\n`).join('');
+}
+
+/**
+ * Writes an export to a new file in a directory, named after the datasheet
+ * and the time, and returns its path
+ */
+export async function writeExport(dir: string, datasheetId: string, exported: RecordExport): Promise<string> {
+  const stamp = new Date().toISOString().replace(/[-:.]/g, '');
+  const name = `${datasheetId}_${stamp}`;
+  await fs.mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, `${name}.${exported.format}`);
+  try {
+    await fs.writeFile(filePath, exported.content, { mode: 0o600, flag: 'wx' });
+    return filePath;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error;
+    }
+  }
+  // Two exports of a table within the same millisecond get a suffix
+  const suffixed = path.join(dir, `${name}_${Math.random().toString(36).slice(2, 8)}.${exported.format}`);
+  await fs.writeFile(suffixed, exported.content, { mode: 0o600, flag: 'wx' });
+  return suffixed;
+}
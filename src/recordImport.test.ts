@@ -0,0 +1,161 @@
+import {
+  describe, it, expect, vi, beforeEach, afterEach,
+} from 'vitest';
+import {
+  mkdtemp, rm, symlink, writeFile,
+} from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  importRecords, mapColumns, parseCsv, parseImportFile, prepareImportRow, resolveImportPath,
+} from './recordImport.js';
+import type { Field, IAITableService } from './types.js';
+
+const fields: Field[] = [
+  { id: 'fld1', name: 'Name', type: 'SingleText' },
+  { id: 'fld2', name: 'Email', type: 'Email' },
+  { id: 'fld3', name: 'Score', type: 'Number' },
+  { id: 'fld4', name: 'Tags', type: 'MultiSelect', options: { options: [{ name: 'vip' }, { name: 'new' }, { name: 'a, b' }] } },
+  { id: 'fld5', name: 'Total', type: 'Formula' },
+];
+
+describe('parseCsv', () => {
+  it('handles quoted separators, line breaks and doubled quotes', () => {
+    expect(parseCsv('\uFEFFName,Note\r\n"Smith, Ada","said ""hi""\nthen left"\r\n\r\nGrace,\n'))
+      .toEqual([['Name', 'Note'], ['Smith, Ada', 'said "hi"\nthen left'], ['Grace', '']]);
+  });
+
+  it('rejects a quoted cell that is never closed', () => {
+    expect(() => parseCsv('Name\n"Ada')).toThrow('never closed');
+  });
+});
+
+describe('parseImportFile', () => {
+  it('reads JSON arrays, API-shaped records and JSON Lines', () => {
+    expect(parseImportFile('[{"Name":"Ada"},{"Email":"g@x.io"}]', 'json'))
+      .toEqual({ format: 'json', columns: ['Name', 'Email'], rows: [{ Name: 'Ada' }, { Email: 'g@x.io' }] });
+    expect(parseImportFile('{"records":[{"id":"rec1","fields":{"Name":"Ada"}}]}', 'json').rows).toEqual([{ Name: 'Ada' }]);
+    expect(parseImportFile('{"Name":"Ada"}\n\n{"Name":"Grace"}\n', 'jsonl').rows).toEqual([{ Name: 'Ada' }, { Name: 'Grace' }]);
+    expect(() => parseImportFile('{"Name":"Ada"}\nnope', 'jsonl')).toThrow('Line 2 is not valid JSON');
+  });
+});
+
+describe('mapColumns', () => {
+  it('matches columns by name or mapping and reports the rest', () => {
+    const { fieldsByColumn, unmapped } = mapColumns(['recordId', 'name', 'E-mail', 'Notes'], fields, { 'E-mail': 'fld2', Notes: null }, 'dst1');
+    expect([...fieldsByColumn].map(([column, field]) => [column, field.name])).toEqual([['name', 'Name'], ['E-mail', 'Email']]);
+    expect(unmapped).toEqual(['recordId']);
+  });
+
+  it('rejects mappings for missing columns and two columns on one field', () => {
+    expect(() => mapColumns(['Name'], fields, { Mail: 'Email' }, 'dst1')).toThrow('"Mail"');
+    expect(() => mapColumns(['Name', 'Full name'], fields, { 'Full name': 'Name' }, 'dst1')).toThrow('"Name" from "Name" and "Full name"');
+  });
+});
+
+describe('prepareImportRow', () => {
+  const { fieldsByColumn } = mapColumns(['Name', 'Score', 'Tags', 'Total'], fields, {}, 'dst1');
+
+  it('parses CSV text to suit each field, leaving out empty cells', () => {
+    expect(prepareImportRow({
+      Name: 'Ada', Score: '1,200.50', Tags: 'vip, new', Total: '',
+    }, fieldsByColumn, 'off', true))
+      .toEqual({ fields: { Name: 'Ada', Score: 1200.5, Tags: ['vip', 'new'] } });
+    expect(prepareImportRow({ Tags: 'a, b' }, fieldsByColumn, 'off', true)).toEqual({ fields: { Tags: ['a, b'] } });
+  });
+
+  it('reports values that cannot be written, and rows with nothing to write', () => {
+    expect(prepareImportRow({ Score: 'lots', Total: '3' }, fieldsByColumn, 'off', true)).toEqual({
+      failed: expect.stringMatching(/Score.*expects a number.*; Field "Total".*computed/),
+    });
+    expect(prepareImportRow({ Score: '1,200' }, fieldsByColumn, 'off', true)).toEqual({
+      failed: expect.stringContaining('could mean thousands or a decimal'),
+    });
+    expect(prepareImportRow({ Name: '', Tags: '' }, fieldsByColumn, 'off', true)).toEqual({ skipped: expect.any(String) });
+  });
+});
+
+describe('importRecords', () => {
+  const file = parseImportFile('Name,Score\nAda,1\nGrace,lots\n,\nLinus,3\n', 'csv');
+
+  it('creates the valid rows and reports each row', async () => {
+    const service = {
+      getFields: vi.fn(async () => fields),
+      createRecords: vi.fn(async () => ({
+        succeeded: [{ id: 'recAda', fields: {} }],
+        failed: [{ index: 1, error: 'Server error' }],
+      })),
+    } as unknown as IAITableService;
+
+    const report = await importRecords(service, 'spc1', 'dst1', file, { coerce: 'off', dryRun: false });
+
+    expect(service.createRecords).toHaveBeenCalledWith('spc1', 'dst1', [{ fields: { Name: 'Ada', Score: 1 } }, { fields: { Name: 'Linus', Score: 3 } }]);
+    expect(report.rows).toEqual([
+      { row: 1, status: 'created', id: 'recAda' },
+      { row: 2, status: 'failed', reason: expect.stringContaining('Score') },
+      { row: 3, status: 'skipped', reason: expect.any(String) },
+      { row: 4, status: 'failed', reason: 'Server error' },
+    ]);
+    expect(report.summary).toEqual({
+      created: 1, updated: 0, skipped: 1, failed: 2, valid: 0,
+    });
+  });
+
+  it('upserts on merge fields and maps results back to rows', async () => {
+    const service = {
+      getFields: vi.fn(async () => fields),
+      upsertRecords: vi.fn(async () => ({
+        created: [{ id: 'recLinus', fields: {} }],
+        updated: [{ id: 'recAda', fields: {} }],
+        failed: [],
+        positions: { created: [1], updated: [0] },
+      })),
+    } as unknown as IAITableService;
+
+    const report = await importRecords(service, 'spc1', 'dst1', file, { mergeOnFields: ['name'], coerce: 'off', dryRun: false });
+
+    expect(service.upsertRecords).toHaveBeenCalledWith('spc1', 'dst1', expect.any(Array), ['Name']);
+    expect(report.rows.filter((row) => row.id)).toEqual([
+      { row: 1, status: 'updated', id: 'recAda' },
+      { row: 4, status: 'created', id: 'recLinus' },
+    ]);
+  });
+
+  it('only validates on a dry run', async () => {
+    const service = { getFields: vi.fn(async () => fields), createRecords: vi.fn() } as unknown as IAITableService;
+
+    const report = await importRecords(service, 'spc1', 'dst1', file, { coerce: 'off', dryRun: true });
+
+    expect(service.createRecords).not.toHaveBeenCalled();
+    expect(report).toMatchObject({ dryRun: true, summary: { valid: 2, failed: 1, skipped: 1 } });
+  });
+
+  it('needs a column for every merge field', async () => {
+    const service = { getFields: vi.fn(async () => fields) } as unknown as IAITableService;
+    await expect(importRecords(service, 'spc1', 'dst1', file, { mergeOnFields: ['Email'], coerce: 'off', dryRun: false }))
+      .rejects.toThrow('No column maps to merge field(s): Email');
+  });
+});
+
+describe('resolveImportPath', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'aitable-imports-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps files inside the import directory', async () => {
+    await writeFile(path.join(dir, 'people.csv'), 'Name\n');
+    await symlink('/etc/hostname', path.join(dir, 'escape.csv'));
+
+    expect(await resolveImportPath('people.csv', dir)).toMatch(/people\.csv$/);
+    await expect(resolveImportPath('../secret.csv', dir)).rejects.toThrow('outside the import directory');
+    await expect(resolveImportPath('/etc/passwd', dir)).rejects.toThrow('outside the import directory');
+    await expect(resolveImportPath('escape.csv', dir)).rejects.toThrow('outside the import directory');
+    expect(await resolveImportPath('/etc/passwd')).toBe('/etc/passwd');
+  });
+});
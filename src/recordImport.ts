@@ -0,0 +1,369 @@
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import path from 'path';
+import type {
+  CoercionMode,
+  Field,
+  FieldSet,
+  IAITableService,
+  ImportFormat,
+  ImportReport,
+  ImportRowResult,
+} from './types.js';
+import { checkFieldValue, fieldValueKind, selectOptionNames } from './fieldValues.js';
+import { coerceFieldValue } from './coercion.js';
+import { findField } from './nameResolver.js';
+import { PermissionError, ValidationError } from './errors.js';
+
+// Where imports are read from over HTTP when no directory is configured
+export const DEFAULT_IMPORT_DIR = path.join(homedir(), '.aitable-mcp-server', 'imports');
+
+// Limits on what is read into memory in one import
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 10000;
+
+/**
+ * The rows of an import file, each keyed by column name
+ */
+export interface ImportFile {
+  format: ImportFormat;
+  /** Column names in order of first appearance */
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+/**
+ * Splits CSV text into rows of cells, following RFC 4180: quoted cells may
+ * hold separators, line breaks and doubled quotes. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let index = 0;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  while (index < input.length) {
+    const char = input[index];
+    if (quoted && char === '"' && input[index + 1] === '"') {
+      cell += '"';
+      index += 2;
+    } else if (char === '"' && (quoted || cell === '')) {
+      quoted = !quoted;
+      index += 1;
+    } else if (!quoted && char === ',') {
+      row.push(cell);
+      cell = '';
+      index += 1;
+    } else if (!quoted && (char === '\n' || char === '\r')) {
+      endRow();
+      index += char === '\r' && input[index + 1] === '\n' ? 2 : 1;
+    } else {
+      cell += char;
+      index += 1;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError('aitable-mcp-server: CSV has a quoted cell that is never closed');
+  }
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+/**
+ * Reads the rows of a JSON array, a `{ "records": [...] }` object or JSON
+ * Lines. Records in the API's `{ "id", "fields" }` shape contribute their fields.
+ */
+function parseJsonRows(text: string, format: 'json' | 'jsonl'): Record<string, unknown>[] {
+  let items: unknown[];
+  if (format === 'jsonl') {
+    items = text.split(/\r?\n/)
+      .map((line, lineIndex) => ({ line, lineIndex }))
+      .filter(({ line }) => line.trim() !== '')
+      .map(({ line, lineIndex }) => {
+        try {
+          return JSON.parse(line);
+        } catch (error) {
+          throw new ValidationError(`aitable-mcp-server: Line ${lineIndex + 1} is not valid JSON: ${(error as Error).message}`);
+        }
+      });
+  } else {
+    const parsed = JSON.parse(text.replace(/^\uFEFF/, ''));
+    items = Array.isArray(parsed) ? parsed : (parsed as { records?: unknown })?.records as unknown[];
+    if (!Array.isArray(items)) {
+      throw new ValidationError('aitable-mcp-server: A JSON import must be an array of objects, or an object with a "records" array');
+    }
+  }
+
+  return items.map((item, itemIndex) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      throw new ValidationError(`aitable-mcp-server: Row ${itemIndex + 1} is not an object`);
+    }
+    const { fields } = item as { fields?: unknown };
+    return typeof fields === 'object' && fields !== null && !Array.isArray(fields)
+      ? fields as Record<string, unknown>
+      : item as Record<string, unknown>;
+  });
+}
+
+/**
+ * Parses the contents of an import file into rows keyed by column name
+ */
+export function parseImportFile(text: string, format: ImportFormat): ImportFile {
+  if (format === 'csv') {
+    const [header = [], ...lines] = parseCsv(text);
+    const columns = header.map((column) => column.trim());
+    const duplicate = columns.find((column, index) => columns.indexOf(column) !== index);
+    if (duplicate !== undefined) {
+      throw new ValidationError(`aitable-mcp-server: CSV header has column "${duplicate}" more than once`);
+    }
+    return {
+      format,
+      columns,
+      rows: lines.map((cells) => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']))),
+    };
+  }
+
+  const rows = parseJsonRows(text, format);
+  return { format, columns: [...new Set(rows.flatMap((row) => Object.keys(row)))], rows };
+}
+
+/**
+ * Resolves the path of a file to import. With an import directory, relative
+ * paths are taken from it and files outside it are refused.
+ */
+export async function resolveImportPath(filePath: string, importDir?: string): Promise<string> {
+  if (importDir === undefined) {
+    return path.resolve(filePath);
+  }
+  // Compare real paths so symbolic links can't lead out of the directory
+  const root = await fs.realpath(importDir).catch(() => path.resolve(importDir));
+  const resolved = await fs.realpath(path.resolve(root, filePath)).catch(() => path.resolve(root, filePath));
+  const relative = path.relative(root, resolved);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new PermissionError(`aitable-mcp-server: "${filePath}" is outside the import directory ${importDir}`, {
+      remediation: 'Move the file into the import directory, or start the server with a different --import-dir.',
+    });
+  }
+  return resolved;
+}
+
+/**
+ * Reads and parses an import file, taking the format from its extension
+ * unless one is given
+ */
+export async function readImportFile(filePath: string, format?: ImportFormat): Promise<ImportFile> {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  const resolvedFormat = format ?? (['csv', 'json', 'jsonl'].includes(extension) ? extension as ImportFormat : undefined);
+  if (!resolvedFormat) {
+    throw new ValidationError(`aitable-mcp-server: Can't tell the format of "${filePath}" from its extension. Pass format as csv, json or jsonl`);
+  }
+
+  const { size } = await fs.stat(filePath);
+  if (size > MAX_IMPORT_BYTES) {
+    throw new ValidationError(`aitable-mcp-server: "${filePath}" is larger than ${MAX_IMPORT_BYTES / 1024 / 1024} MB. Split it into smaller files`);
+  }
+
+  const file = parseImportFile(await fs.readFile(filePath, 'utf8'), resolvedFormat);
+  if (file.rows.length > MAX_IMPORT_ROWS) {
+    throw new ValidationError(`aitable-mcp-server: "${filePath}" has ${file.rows.length} rows, more than the ${MAX_IMPORT_ROWS} that can be imported at once`);
+  }
+  return file;
+}
+
+/**
+ * Matches columns to fields: through the mapping where it names the column,
+ * otherwise by field name, ignoring case. Returns the matched fields by column
+ * and the columns that matched none.
+ */
+export function mapColumns(
+  columns: string[],
+  fields: Field[],
+  mapping: Record<string, string | null>,
+  datasheetId: string,
+): { fieldsByColumn: Map<string, Field>; unmapped: string[] } {
+  const missing = Object.keys(mapping).filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new ValidationError(`aitable-mcp-server: The mapping names columns the file doesn't have: ${missing.map((column) => `"${column}"`).join(', ')}`);
+  }
+
+  const fieldsByColumn = new Map<string, Field>();
+  const unmapped: string[] = [];
+  columns.forEach((column) => {
+    if (column in mapping) {
+      const target = mapping[column];
+      if (target !== null) {
+        fieldsByColumn.set(column, findField(fields, target, datasheetId));
+      }
+      return;
+    }
+    const field = fields.find((candidate) => candidate.name === column)
+      ?? fields.find((candidate) => candidate.name.toLowerCase() === column.toLowerCase());
+    if (field) {
+      fieldsByColumn.set(column, field);
+    } else {
+      unmapped.push(column);
+    }
+  });
+
+  const columnsByField = new Map<string, string[]>();
+  fieldsByColumn.forEach((field, column) => {
+    columnsByField.set(field.name, [...(columnsByField.get(field.name) ?? []), column]);
+  });
+  const clashes = [...columnsByField].filter(([, mapped]) => mapped.length > 1);
+  if (clashes.length > 0) {
+    const details = clashes.map(([name, mapped]) => `"${name}" from ${mapped.map((column) => `"${column}"`).join(' and ')}`).join('; ');
+    throw new ValidationError(`aitable-mcp-server: More than one column maps to the same field: ${details}`);
+  }
+
+  return { fieldsByColumn, unmapped };
+}
+
+/**
+ * Splits a CSV cell for a list field on commas, the way export_records joins
+ * them, unless the whole cell is one select option
+ */
+function splitListCell(field: Field, text: string): unknown {
+  const kind = fieldValueKind(field);
+  if (kind !== 'multiSelect' && kind !== 'link') {
+    return text;
+  }
+  if (kind === 'multiSelect' && selectOptionNames(field)?.includes(text)) {
+    return [text];
+  }
+  return text.split(',').map((item) => item.trim()).filter((item) => item !== '');
+}
+
+/**
+ * Turns one row into a fields payload keyed by field name. Empty cells are
+ * left out. CSV cells are text, so they are always parsed at least as
+ * strictly as strict coercion does.
+ */
+export function prepareImportRow(
+  row: Record<string, unknown>,
+  fieldsByColumn: Map<string, Field>,
+  mode: CoercionMode,
+  fromText: boolean,
+): { fields: FieldSet } | { skipped: string } | { failed: string } {
+  const fields: FieldSet = {};
+  const problems: string[] = [];
+  const rowMode = fromText && mode === 'off' ? 'strict' : mode;
+
+  fieldsByColumn.forEach((field, column) => {
+    const raw = row[column];
+    if (raw === undefined || raw === '') {
+      return;
+    }
+    const value = fromText && typeof raw === 'string' ? splitListCell(field, raw) : raw;
+    const coerced = coerceFieldValue(field, value, rowMode);
+    const problem = coerced.problem ?? checkFieldValue(field, coerced.value);
+    if (problem) {
+      problems.push(problem);
+    } else {
+      fields[field.name] = coerced.value;
+    }
+  });
+
+  if (problems.length > 0) {
+    return { failed: problems.join('; ') };
+  }
+  if (Object.keys(fields).length === 0) {
+    return { skipped: 'No values for any mapped field' };
+  }
+  return { fields };
+}
+
+/**
+ * Validates every row of an import file against the datasheet's fields, then
+ * creates the valid rows, or upserts them on the merge fields, in API-sized
+ * batches. A dry run stops after validating.
+ */
+export async function importRecords(
+  service: IAITableService,
+  spaceId: string,
+  datasheetId: string,
+  file: ImportFile,
+  options: {
+    mapping?: Record<string, string | null>;
+    mergeOnFields?: string[];
+    coerce: CoercionMode;
+    dryRun: boolean;
+  },
+): Promise<ImportReport> {
+  const fields = await service.getFields(spaceId, datasheetId);
+  const { fieldsByColumn, unmapped } = mapColumns(file.columns, fields, options.mapping ?? {}, datasheetId);
+
+  const mergeFieldNames = options.mergeOnFields?.map((ref) => findField(fields, ref, datasheetId).name) ?? [];
+  const mappedFieldNames = new Set([...fieldsByColumn.values()].map((field) => field.name));
+  const unmappedMergeFields = mergeFieldNames.filter((name) => !mappedFieldNames.has(name));
+  if (unmappedMergeFields.length > 0) {
+    throw new ValidationError(`aitable-mcp-server: No column maps to merge field(s): ${unmappedMergeFields.join(', ')}`);
+  }
+
+  const results: ImportRowResult[] = [];
+  const valid: { row: number; fields: FieldSet }[] = [];
+  file.rows.forEach((row, index) => {
+    const prepared = prepareImportRow(row, fieldsByColumn, options.coerce, file.format === 'csv');
+    if ('failed' in prepared) {
+      results.push({ row: index + 1, status: 'failed', reason: prepared.failed });
+    } else if ('skipped' in prepared) {
+      results.push({ row: index + 1, status: 'skipped', reason: prepared.skipped });
+    } else {
+      valid.push({ row: index + 1, fields: prepared.fields });
+    }
+  });
+
+  if (options.dryRun) {
+    valid.forEach(({ row }) => results.push({ row, status: 'valid' }));
+  } else if (valid.length > 0 && mergeFieldNames.length > 0) {
+    const upserted = await service.upsertRecords(spaceId, datasheetId, valid.map((row) => ({ fields: row.fields })), mergeFieldNames);
+    upserted.positions.created.forEach((position, i) => {
+      results.push({ row: valid[position].row, status: 'created', id: upserted.created[i].id });
+    });
+    upserted.positions.updated.forEach((position, i) => {
+      results.push({ row: valid[position].row, status: 'updated', id: upserted.updated[i].id });
+    });
+    upserted.failed.forEach((failure) => {
+      results.push({ row: valid[failure.index].row, status: 'failed', reason: failure.error });
+    });
+  } else if (valid.length > 0) {
+    const created = await service.createRecords(spaceId, datasheetId, valid.map((row) => ({ fields: row.fields })));
+    const failedIndexes = new Set(created.failed.map((failure) => failure.index));
+    valid.filter((_, index) => !failedIndexes.has(index)).forEach(({ row }, i) => {
+      results.push({ row, status: 'created', id: created.succeeded[i].id });
+    });
+    created.failed.forEach((failure) => {
+      results.push({ row: valid[failure.index].row, status: 'failed', reason: failure.error });
+    });
+  }
+
+  results.sort((a, b) => a.row - b.row);
+  const summary = {
+    created: 0, updated: 0, skipped: 0, failed: 0, valid: 0,
+  };
+  results.forEach((result) => {
+    summary[result.status] += 1;
+  });
+
+  return {
+    ...(options.dryRun ? { dryRun: true as const } : {}),
+    format: file.format,
+    rowCount: file.rows.length,
+    summary,
+    unmappedColumns: unmapped,
+    rows: results,
+  };
+}
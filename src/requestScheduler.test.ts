@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RequestScheduler,
+  backoffDelay,
+  parseRetryAfter,
+  sleep,
+} from './requestScheduler.js';
+
+describe('RequestScheduler', () => {
+  it('never runs more tasks at once than the concurrency limit', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 2, requestsPerSecond: 0 });
+    let running = 0;
+    let peak = 0;
+
+    await Promise.all(Array.from({ length: 6 }, () => scheduler.schedule(async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(5);
+      running--;
+    })));
+
+    expect(peak).toBe(2);
+  });
+
+  it('spaces out task starts to the requests-per-second budget', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 10, requestsPerSecond: 50 });
+    const starts: number[] = [];
+
+    await Promise.all(Array.from({ length: 4 }, () => scheduler.schedule(async () => {
+      starts.push(Date.now());
+    })));
+
+    // 50 per second is one every 20ms, so the 4th starts at least ~60ms after the 1st
+    expect(starts[3] - starts[0]).toBeGreaterThanOrEqual(55);
+  });
+
+  it('frees the slot when a task fails', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1, requestsPerSecond: 0 });
+
+    await expect(scheduler.schedule(async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+    expect(await scheduler.schedule(async () => 'ok')).toBe('ok');
+  });
+});
+
+describe('backoffDelay', () => {
+  it('grows exponentially within the jitter range', () => {
+    expect(backoffDelay(0, 100, () => 0)).toBe(50);
+    expect(backoffDelay(0, 100, () => 1)).toBe(100);
+    expect(backoffDelay(3, 100, () => 1)).toBe(800);
+  });
+
+  it('is capped', () => {
+    expect(backoffDelay(20, 100, () => 1)).toBe(30000);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('Thu, 01 Jan 1970 00:00:05 GMT', 1000)).toBe(4000);
+  });
+
+  it('ignores missing or malformed values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
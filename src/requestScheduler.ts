@@ -0,0 +1,118 @@
+/**
+ * Upper bound on any single backoff delay, however many attempts have failed
+ */
+const MAX_BACKOFF_MS = 30 * 1000;
+
+export interface RequestSchedulerOptions {
+  /** Maximum number of requests in flight at once */
+  concurrency: number;
+  /** Maximum number of requests started per second */
+  requestsPerSecond: number;
+  /** Clock to use, overridable for tests */
+  now?: () => number;
+}
+
+/**
+ * Limits how many requests run at once and how quickly they start, so bursts
+ * from an agent stay within AITable's per-second API limit. Requests start in
+ * the order they were scheduled.
+ */
+export class RequestScheduler {
+  private readonly concurrency: number;
+
+  private readonly intervalMs: number;
+
+  private readonly now: () => number;
+
+  private active = 0;
+
+  private readonly waiting: (() => void)[] = [];
+
+  private nextStartAt = 0;
+
+  constructor(options: RequestSchedulerOptions) {
+    this.concurrency = Math.max(1, options.concurrency);
+    this.intervalMs = options.requestsPerSecond > 0 ? 1000 / options.requestsPerSecond : 0;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Runs a task once a concurrency slot and a rate budget are available
+   */
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquireSlot();
+    try {
+      // Reserve the next start time synchronously so concurrent callers are spaced out
+      const startAt = Math.max(this.now(), this.nextStartAt);
+      this.nextStartAt = startAt + this.intervalMs;
+      await sleep(startAt - this.now());
+
+      return await task();
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active += 1;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.waiting.push(resolve);
+    });
+  }
+
+  private releaseSlot(): void {
+    // Hand the slot straight to the next waiting task, if any
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active -= 1;
+    }
+  }
+}
+
+/**
+ * Waits for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  if (ms <= 0) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+/**
+ * Exponential backoff with jitter: somewhere between half and all of
+ * baseMs * 2^attempt, capped at MAX_BACKOFF_MS
+ */
+export function backoffDelay(attempt: number, baseMs: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, baseMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/**
+ * Parses a Retry-After header, given either as seconds or as an HTTP date,
+ * into a delay in milliseconds
+ */
+export function parseRetryAfter(header: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.min(MAX_BACKOFF_MS, Math.max(0, seconds * 1000));
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.min(MAX_BACKOFF_MS, Math.max(0, date - now));
+  }
+
+  return undefined;
+}
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applySchema, exportSchema } from './schemaClone.js';
+import type {
+  Field, IAITableService, SchemaDocument, View,
+} from './types.js';
+
+const document: SchemaDocument = {
+  version: 1,
+  tables: [
+    {
+      id: 'dstProjects',
+      name: 'Projects',
+      path: 'Work > Projects',
+      primaryFieldId: 'fldTitle',
+      fields: [
+        { id: 'fldTitle', name: 'Title', type: 'SingleText' },
+        { id: 'fldStatus', name: 'Status', type: 'SingleSelect', options: { options: [{ name: 'Open', color: 'blue_0' }] } },
+        {
+          id: 'fldTasks', name: 'Tasks', type: 'TwoWayLink', options: { foreignDatasheetId: 'dstTasks', brotherFieldId: 'fldProject' },
+        },
+        { id: 'fldClients', name: 'Clients', type: 'OneWayLink', options: { foreignDatasheetId: 'dstClients' } },
+        { id: 'fldCount', name: 'Task count', type: 'Formula', options: { expression: 'COUNTA({fldTasks})' } },
+      ],
+      views: [{ id: 'viw1', name: 'Grid', type: 'Grid' }, { id: 'viw2', name: 'Board', type: 'Kanban' }],
+    },
+    {
+      id: 'dstTasks',
+      name: 'Tasks',
+      primaryFieldId: 'fldTask',
+      fields: [
+        { id: 'fldTask', name: 'Task', type: 'SingleText' },
+        {
+          id: 'fldProject', name: 'Project', type: 'TwoWayLink', options: { foreignDatasheetId: 'dstProjects', brotherFieldId: 'fldTasks' },
+        },
+      ],
+    },
+  ],
+};
+
+/**
+ * A service whose created tables and fields get new IDs, and which adds the
+ * other side of a two-way link the way the API does
+ */
+function cloningService(existing: { id: string; name: string; path: string; parentId?: string }[] = []) {
+  const created = new Map<string, Field[]>();
+  let next = 0;
+  const newId = (prefix: string) => {
+    next += 1;
+    return `${prefix}New${next}`;
+  };
+  return {
+    getAllDatasheets: vi.fn(async () => existing),
+    createTable: vi.fn(async (_spaceId: string, name: string, fields: Field[]) => {
+      const id = newId('dst');
+      const withIds = fields.map((field) => ({ ...field, id: newId('fld') }));
+      created.set(id, withIds);
+      return {
+        id, name, primaryFieldId: withIds[0].id, fields: withIds,
+      };
+    }),
+    createField: vi.fn(async (_spaceId: string, tableId: string, field: Field) => {
+      const added = { ...field, id: newId('fld') };
+      created.get(tableId)!.push(added);
+      const target = field.options?.foreignDatasheetId;
+      if (field.type === 'TwoWayLink' && created.has(target)) {
+        created.get(target)!.push({
+          id: newId('fld'), name: 'Auto link', type: 'TwoWayLink', options: { foreignDatasheetId: tableId, brotherFieldId: added.id },
+        });
+      }
+      return added;
+    }),
+    getFields: vi.fn(async (_spaceId: string, tableId: string) => created.get(tableId) ?? []),
+    updateField: vi.fn(async () => ({})),
+    clearSchemaCache: vi.fn(),
+  };
+}
+
+describe('exportSchema', () => {
+  it('describes fields with portable options, views and folder path', async () => {
+    const service = {
+      getAllDatasheets: vi.fn(async () => [{ id: 'dst1', name: 'Projects', path: 'Work > Projects' }]),
+      getFields: vi.fn(async (): Promise<Field[]> => [
+        { id: 'fld1', name: 'Title', type: 'SingleText' },
+        {
+          id: 'fld2', name: 'Status', type: 'SingleSelect', options: { options: [{ id: 'opt1', name: 'Open', color: { name: 'blue_0', value: '#00f' } }] },
+        },
+      ]),
+      getViews: vi.fn(async (): Promise<View[]> => [{ id: 'viw1', name: 'Grid', type: 'Grid' }]),
+    };
+
+    const schema = await exportSchema(service as unknown as IAITableService, 'spc1', ['dst1']);
+
+    expect(schema).toMatchObject({
+      version: 1,
+      sourceSpaceId: 'spc1',
+      tables: [{
+        id: 'dst1',
+        name: 'Projects',
+        path: 'Work > Projects',
+        primaryFieldId: 'fld1',
+        fields: [
+          { id: 'fld1', name: 'Title', type: 'SingleText' },
+          { id: 'fld2', name: 'Status', options: { options: [{ name: 'Open', color: 'blue_0' }] } },
+        ],
+        views: [{ id: 'viw1', name: 'Grid', type: 'Grid' }],
+      }],
+    });
+    await expect(exportSchema(service as unknown as IAITableService, 'spc1', ['dst9'])).rejects.toThrow('Datasheet dst9 not found');
+  });
+});
+
+describe('applySchema', () => {
+  it('recreates linked tables in a folder, remapping references', async () => {
+    const service = cloningService([{
+      id: 'dstOther', name: 'Other', path: 'Work > Other', parentId: 'fodWork',
+    }]);
+
+    const report = await applySchema(service as unknown as IAITableService, 'spc2', document, false);
+
+    expect(service.createTable).toHaveBeenCalledWith('spc2', 'Projects', [{
+      name: 'Title', type: 'SingleText', description: undefined, options: undefined,
+    }], undefined, 'fodWork');
+    expect(service.createTable).toHaveBeenCalledWith('spc2', 'Tasks', expect.any(Array), undefined, undefined);
+    const [projects, tasks] = service.createTable.mock.results.map((result) => result.value);
+    const { id: projectsId } = await projects;
+    const { id: tasksId } = await tasks;
+
+    // One side of the two-way link is created; the other is renamed rather than created again
+    const createdNames = service.createField.mock.calls.map(([, , field]) => field.name);
+    expect(createdNames).toEqual(['Status', 'Tasks', 'Task count']);
+    expect(service.createField.mock.calls[1][2].options).toEqual({ foreignDatasheetId: tasksId });
+    expect(service.updateField).toHaveBeenCalledWith('spc2', tasksId, expect.any(String), { name: 'Project', description: undefined });
+
+    const linkId = (await service.createField.mock.results[1].value).id;
+    expect(service.createField.mock.calls[2][2].options).toEqual({ expression: `COUNTA({${linkId}})` });
+
+    expect(report.tables).toEqual([
+      {
+        sourceId: 'dstProjects', id: projectsId, name: 'Projects', fields: ['Title', 'Status', 'Tasks', 'Task count'],
+      },
+      {
+        sourceId: 'dstTasks', id: tasksId, name: 'Tasks', fields: ['Task', 'Project'],
+      },
+    ]);
+    expect(report.notReproduced).toEqual([
+      { table: 'Projects', field: 'Clients', reason: expect.stringContaining('dstClients, which is not among the tables being created') },
+      { table: 'Projects', view: 'Board', reason: expect.stringContaining("can't be created") },
+    ]);
+  });
+
+  it('reports a link counterpart it could not rename and carries on', async () => {
+    const service = cloningService();
+    service.updateField.mockRejectedValueOnce(new Error('aitable-mcp-server: Permission denied'));
+
+    const report = await applySchema(service as unknown as IAITableService, 'spc2', document, false);
+
+    expect(report.tables[1].fields).toEqual(['Task', 'Auto link']);
+    expect(report.tables[0].fields).toContain('Task count');
+    expect(report.notReproduced).toContainEqual({
+      table: 'Tasks', field: 'Project', reason: expect.stringContaining('left named "Auto link": aitable-mcp-server: Permission denied'),
+    });
+  });
+
+  it('reports a link counterpart it could not read back', async () => {
+    const service = cloningService();
+    service.getFields.mockRejectedValueOnce(new Error('aitable-mcp-server: Request timed out'));
+
+    const report = await applySchema(service as unknown as IAITableService, 'spc2', document, false);
+
+    expect(service.updateField).not.toHaveBeenCalled();
+    expect(report.tables.map((table) => table.name)).toEqual(['Projects', 'Tasks']);
+    expect(report.notReproduced).toContainEqual({
+      table: 'Tasks', field: 'Project', reason: expect.stringContaining('could not be read after adding it'),
+    });
+  });
+
+  it('skips tables whose name is taken, and creates nothing on a dry run', async () => {
+    const service = cloningService([{ id: 'dstOld', name: 'Tasks', path: 'Tasks' }]);
+
+    const report = await applySchema(service as unknown as IAITableService, 'spc2', document, true);
+
+    expect(service.createTable).not.toHaveBeenCalled();
+    expect(service.createField).not.toHaveBeenCalled();
+    expect(report.dryRun).toBe(true);
+    expect(report.tables.map((table) => table.name)).toEqual(['Projects']);
+    expect(report.notReproduced).toEqual(expect.arrayContaining([
+      { table: 'Tasks', reason: expect.stringContaining('"Tasks" already exists') },
+      { table: 'Projects', reason: expect.stringContaining('Folder "Work" doesn\'t exist') },
+      { table: 'Projects', field: 'Tasks', reason: expect.stringContaining('dstTasks, which is not among the tables being created') },
+      { table: 'Projects', field: 'Task count', reason: expect.stringContaining('fldTasks') },
+    ]));
+  });
+});
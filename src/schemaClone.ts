@@ -0,0 +1,317 @@
+import type {
+  ApplySchemaReport,
+  Field,
+  IAITableService,
+  SchemaDocument,
+  SchemaTable,
+} from './types.js';
+import { fieldValueKind } from './fieldValues.js';
+import { NotFoundError } from './errors.js';
+
+type SchemaField = SchemaTable['fields'][number];
+
+// Field and datasheet IDs, which options refer to and which change when cloned
+const NODE_ID_PATTERN = /\b(?:fld|dst)[0-9A-Za-z]+\b/g;
+
+// Option keys that tie a link field to its counterpart or to a view, neither of which can be carried over
+const LINK_COUNTERPART_KEYS = ['brotherFieldId', 'inverseLinkFieldId'];
+const LINK_VIEW_KEYS = ['limitToView', 'limitToViewId'];
+
+/**
+ * Strips what is specific to one datasheet from field options: select option
+ * IDs, and colors read back as `{ name, value }` where a name is written
+ */
+export function portableOptions(options: Record<string, unknown> | undefined): Record<string, unknown> | undefined {
+  if (!options) {
+    return undefined;
+  }
+  const choicesKey = Array.isArray(options.options) ? 'options' : 'choices';
+  const choices = options[choicesKey];
+  if (!Array.isArray(choices)) {
+    return options;
+  }
+  return {
+    ...options,
+    [choicesKey]: choices.map((choice) => {
+      if (typeof choice !== 'object' || choice === null) {
+        return choice;
+      }
+      const { id, color, ...rest } = choice as { id?: unknown; color?: unknown };
+      const colorName = typeof color === 'object' && color !== null ? (color as { name?: unknown }).name : color;
+      return colorName === undefined ? rest : { ...rest, color: colorName };
+    }),
+  };
+}
+
+function linkTarget(field: SchemaField): string | undefined {
+  const options = field.options as Record<string, unknown> | undefined;
+  const target = options?.foreignDatasheetId ?? options?.linkedTableId;
+  return typeof target === 'string' ? target : undefined;
+}
+
+function linkCounterpart(field: Pick<Field, 'options'>): string | undefined {
+  const options = field.options as Record<string, unknown> | undefined;
+  const counterpart = LINK_COUNTERPART_KEYS.map((key) => options?.[key]).find((id) => typeof id === 'string');
+  return counterpart as string | undefined;
+}
+
+/**
+ * Field and datasheet IDs a field's options refer to
+ */
+function referencedIds(field: SchemaField): string[] {
+  return [...new Set(JSON.stringify(field.options ?? {}).match(NODE_ID_PATTERN) ?? [])];
+}
+
+/**
+ * Rewrites the IDs in a field's options to those of the cloned tables and fields
+ */
+function remapOptions(options: Record<string, unknown>, ids: Map<string, string>): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(options).replace(NODE_ID_PATTERN, (id) => ids.get(id) ?? id));
+}
+
+function withoutKeys(options: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(options).filter(([key]) => !keys.includes(key)));
+}
+
+/**
+ * Describes datasheets as a portable document: their fields with types and
+ * options, views and folder paths, primary field first
+ */
+export async function exportSchema(service: IAITableService, spaceId: string, datasheetIds: string[]): Promise<SchemaDocument> {
+  const datasheets = await service.getAllDatasheets(spaceId);
+  const tables = await Promise.all(datasheetIds.map(async (datasheetId) => {
+    const datasheet = datasheets.find((candidate) => candidate.id === datasheetId);
+    if (!datasheet) {
+      throw new NotFoundError(`aitable-mcp-server: Datasheet ${datasheetId} not found in space ${spaceId}`);
+    }
+    // getFields puts the primary field first
+    const [fields, views] = await Promise.all([
+      service.getFields(spaceId, datasheetId),
+      service.getViews(spaceId, datasheetId),
+    ]);
+    return {
+      id: datasheetId,
+      name: datasheet.name,
+      path: datasheet.path,
+      primaryFieldId: fields[0]?.id,
+      fields: fields.map((field) => ({
+        id: field.id ?? field.name,
+        name: field.name,
+        type: field.type,
+        description: field.description || undefined,
+        options: portableOptions(field.options),
+      })),
+      views,
+    };
+  }));
+
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    sourceSpaceId: spaceId,
+    tables,
+  };
+}
+
+/**
+ * Runs a step for each item in turn, waiting for each to finish
+ */
+async function inSequence<T>(items: T[], step: (item: T) => Promise<unknown>): Promise<void> {
+  await items.reduce<Promise<unknown>>((previous, item) => previous.then(() => step(item)), Promise.resolve());
+}
+
+/**
+ * Recreates the tables of a schema document in a space. Each table is created
+ * with its primary field, then the other fields are added one at a time:
+ * plain fields first, then links, pointed at the cloned tables, then computed
+ * fields such as formulas and lookups, with the IDs they refer to rewritten.
+ * Whatever can't be recreated is reported rather than stopping the rest.
+ */
+export async function applySchema(
+  service: IAITableService,
+  spaceId: string,
+  document: SchemaDocument,
+  dryRun: boolean,
+): Promise<ApplySchemaReport> {
+  type TableEntry = ApplySchemaReport['tables'][number];
+  type Clone = { table: SchemaTable; entry: TableEntry };
+
+  const existing = await service.getAllDatasheets(spaceId);
+  const report: ApplySchemaReport = { tables: [], notReproduced: [] };
+  // Source IDs of tables and fields, mapped to the IDs of their clones. A dry run maps each to itself
+  const ids = new Map<string, string>();
+  // Fields dealt with without being created, e.g. the far side of a two-way link
+  const settled = new Set<string>();
+  const cloned: Clone[] = [];
+  const reasonOf = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+  const folderIds = new Map<string, string>();
+  existing.forEach((datasheet) => {
+    if (datasheet.parentId) {
+      folderIds.set(datasheet.path.split(' > ').slice(0, -1).join(' > '), datasheet.parentId);
+    }
+  });
+  const existingPaths = new Set(existing.map((datasheet) => datasheet.path));
+
+  const cloneTable = async (table: SchemaTable) => {
+    const folderPath = table.path?.split(' > ').slice(0, -1).join(' > ') ?? '';
+    const folderId = folderPath ? folderIds.get(folderPath) : undefined;
+    const targetPath = folderId ? table.path! : table.name;
+    if (existingPaths.has(targetPath)) {
+      report.notReproduced.push({ table: table.name, reason: `A table named "${targetPath}" already exists in space ${spaceId}` });
+      return;
+    }
+    if (folderPath && !folderId) {
+      report.notReproduced.push({ table: table.name, reason: `Folder "${folderPath}" doesn't exist in space ${spaceId}, so the table was created at the root` });
+    }
+
+    const primary = table.fields.find((field) => field.id === table.primaryFieldId) ?? table.fields[0];
+    const primaryIsPlain = fieldValueKind(primary) !== 'computed' && fieldValueKind(primary) !== 'link';
+    if (!primaryIsPlain) {
+      report.notReproduced.push({ table: table.name, field: primary.name, reason: `Primary field was created as text rather than ${primary.type}` });
+    }
+
+    const entry: TableEntry = { sourceId: table.id, name: table.name, fields: [primary.name] };
+    if (dryRun) {
+      ids.set(table.id, table.id);
+      ids.set(primary.id, primary.id);
+    } else {
+      try {
+        const primaryField = primaryIsPlain
+          ? {
+            name: primary.name, type: primary.type, description: primary.description, options: portableOptions(primary.options),
+          }
+          : { name: primary.name, type: 'SingleText' };
+        const created = await service.createTable(spaceId, table.name, [primaryField], table.description, folderId);
+        entry.id = created.id;
+        ids.set(table.id, created.id);
+        ids.set(primary.id, created.fields[0]?.id ?? created.primaryFieldId);
+      } catch (error) {
+        report.notReproduced.push({ table: table.name, reason: reasonOf(error) });
+        return;
+      }
+    }
+    report.tables.push(entry);
+    cloned.push({ table, entry });
+  };
+
+  const addField = async ({ table, entry }: Clone, field: SchemaField, options?: Record<string, unknown>): Promise<Field | undefined> => {
+    if (dryRun) {
+      ids.set(field.id, field.id);
+      entry.fields.push(field.name);
+      return field;
+    }
+    try {
+      const created = await service.createField(spaceId, entry.id!, {
+        name: field.name,
+        type: field.type,
+        description: field.description,
+        options,
+      });
+      ids.set(field.id, created.id ?? created.name);
+      entry.fields.push(field.name);
+      return created;
+    } catch (error) {
+      report.notReproduced.push({ table: table.name, field: field.name, reason: reasonOf(error) });
+      return undefined;
+    }
+  };
+
+  // After one side of a two-way link is added, the API has added the other: find it and give it its original name
+  const settleCounterpart = async (link: Field, target: Clone, counterpart: SchemaField) => {
+    settled.add(counterpart.id);
+    if (dryRun) {
+      ids.set(counterpart.id, counterpart.id);
+      target.entry.fields.push(counterpart.name);
+      return;
+    }
+    service.clearSchemaCache({ datasheetId: target.entry.id });
+    let added: Field | undefined;
+    try {
+      added = (await service.getFields(spaceId, target.entry.id!)).find((field) => linkCounterpart(field) === link.id);
+    } catch (error) {
+      report.notReproduced.push({ table: target.table.name, field: counterpart.name, reason: `The other side of the link could not be read after adding it: ${reasonOf(error)}` });
+      return;
+    }
+    if (!added?.id) {
+      report.notReproduced.push({ table: target.table.name, field: counterpart.name, reason: 'The other side of the link was not found after adding it' });
+      return;
+    }
+    ids.set(counterpart.id, added.id);
+    if (added.name !== counterpart.name) {
+      try {
+        await service.updateField(spaceId, target.entry.id!, added.id, { name: counterpart.name, description: counterpart.description });
+      } catch (error) {
+        report.notReproduced.push({ table: target.table.name, field: counterpart.name, reason: `The other side of the link was left named "${added.name}": ${reasonOf(error)}` });
+        target.entry.fields.push(added.name);
+        return;
+      }
+    }
+    target.entry.fields.push(counterpart.name);
+  };
+
+  const addLink = async (clone: Clone, field: SchemaField) => {
+    const target = linkTarget(field);
+    if (settled.has(field.id)) {
+      return;
+    }
+    if (!target || !ids.has(target)) {
+      report.notReproduced.push({ table: clone.table.name, field: field.name, reason: `Links to datasheet ${target ?? '(unknown)'}, which is not among the tables being created` });
+      return;
+    }
+
+    const options = field.options as Record<string, unknown>;
+    if (LINK_VIEW_KEYS.some((key) => options[key] !== undefined)) {
+      report.notReproduced.push({ table: clone.table.name, field: field.name, reason: 'The link was limited to a view, which was dropped' });
+    }
+    const created = await addField(clone, field, remapOptions(withoutKeys(options, [...LINK_COUNTERPART_KEYS, ...LINK_VIEW_KEYS]), ids));
+
+    const targetClone = cloned.find(({ table }) => table.id === target);
+    const counterpart = targetClone?.table.fields.find((candidate) => candidate.id === linkCounterpart(field));
+    if (created && targetClone && counterpart) {
+      await settleCounterpart(created, targetClone, counterpart);
+    }
+  };
+
+  const fieldsOfKind = (matches: (field: SchemaField) => boolean) => cloned.flatMap((clone) => clone.table.fields
+    .filter((field) => !ids.has(field.id) && matches(field))
+    .map((field) => ({ clone, field })));
+  const isLink = (field: SchemaField) => fieldValueKind(field) === 'link';
+  const isComputed = (field: SchemaField) => fieldValueKind(field) === 'computed';
+
+  await inSequence(document.tables, cloneTable);
+
+  // Plain fields, which refer to nothing else
+  await inSequence(
+    fieldsOfKind((field) => !isLink(field) && !isComputed(field)),
+    ({ clone, field }) => addField(clone, field, portableOptions(field.options)),
+  );
+
+  // Links, pointed at the cloned tables
+  await inSequence(fieldsOfKind(isLink), ({ clone, field }) => addLink(clone, field));
+
+  // Computed fields, once every field they refer to exists. Repeats while any
+  // are added, since they may refer to each other
+  const addComputed = async (pending: ReturnType<typeof fieldsOfKind>): Promise<typeof pending> => {
+    const ready = pending.filter(({ field }) => referencedIds(field).every((id) => ids.has(id)));
+    if (ready.length === 0) {
+      return pending;
+    }
+    await inSequence(ready, ({ clone, field }) => addField(clone, field, field.options ? remapOptions(field.options, ids) : undefined));
+    return addComputed(pending.filter((item) => !ready.includes(item)));
+  };
+  const unresolved = await addComputed(fieldsOfKind(isComputed));
+  unresolved.forEach(({ clone, field }) => {
+    const missing = referencedIds(field).filter((id) => !ids.has(id));
+    report.notReproduced.push({ table: clone.table.name, field: field.name, reason: `Refers to ${missing.join(', ')}, which could not be recreated` });
+  });
+
+  // Views can't be created through the API; a new table starts with one grid view
+  cloned.forEach(({ table }) => {
+    (table.views ?? []).slice(1).forEach((view) => {
+      report.notReproduced.push({ table: table.name, view: view.name, reason: `${view.type} views can't be created through the API` });
+    });
+  });
+
+  return dryRun ? { dryRun: true, ...report } : report;
+}
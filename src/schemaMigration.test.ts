@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applySchemaMigration, planSchemaMigration } from './schemaMigration.js';
+import type { IAITableService, SchemaMigrationPlan, Table } from './types.js';
+
+const tables: Table[] = [{
+  id: 'dst1',
+  name: 'Projects',
+  description: 'All projects',
+  primaryFieldId: 'fld1',
+  fields: [
+    { id: 'fld1', name: 'Title', type: 'SingleText' },
+    { id: 'fld2', name: 'State', type: 'SingleSelect', options: { options: [{ id: 'opt1', name: 'Open', color: { name: 'blue_0', value: '#00f' } }] } },
+    { id: 'fld3', name: 'Budget', type: 'Number', options: { precision: 0 } },
+    { id: 'fld4', name: 'Notes', type: 'Text' },
+  ],
+  views: [],
+}];
+
+function serviceWith(existing: Table[] = tables) {
+  return {
+    getBaseSchema: vi.fn(async () => ({ tables: existing })),
+    createTable: vi.fn(async () => ({})),
+    updateTable: vi.fn(async () => ({})),
+    createField: vi.fn(async () => ({})),
+    updateField: vi.fn(async () => ({})),
+  };
+}
+
+describe('planSchemaMigration', () => {
+  it('plans renames, description and option changes, and new fields and tables, in order', async () => {
+    const service = serviceWith();
+
+    const plan = await planSchemaMigration(service as unknown as IAITableService, 'spc1', {
+      tables: [
+        { name: 'Clients', fields: [{ name: 'Name', type: 'SingleText' }] },
+        {
+          id: 'dst1',
+          name: 'Work',
+          description: 'All projects',
+          fields: [
+            { name: 'Title', type: 'SingleText', description: 'Short title' },
+            { id: 'fld2', name: 'Status', type: 'SingleSelect', options: { options: [{ name: 'Open', color: 'blue_0' }] } },
+            { name: 'Budget', type: 'Currency', options: { precision: 2 } },
+            { name: 'Owner', type: 'Member' },
+          ],
+        },
+      ],
+    });
+
+    expect(plan.steps).toEqual([
+      {
+        action: 'updateTable', table: 'Projects', tableId: 'dst1', changes: { name: 'Work' },
+      },
+      {
+        action: 'createTable', table: 'Clients', description: undefined, fields: [{ name: 'Name', type: 'SingleText' }],
+      },
+      {
+        action: 'updateField',
+        table: 'Projects',
+        tableId: 'dst1',
+        field: 'Title',
+        fieldId: 'fld1',
+        changes: { description: 'Short title' },
+        before: { description: '' },
+      },
+      {
+        action: 'updateField', table: 'Projects', tableId: 'dst1', field: 'State', fieldId: 'fld2', changes: { name: 'Status' }, before: { name: 'State' },
+      },
+      {
+        action: 'updateField',
+        table: 'Projects',
+        tableId: 'dst1',
+        field: 'Budget',
+        fieldId: 'fld3',
+        changes: { options: { precision: 2 } },
+        before: { options: { precision: 0 } },
+      },
+      {
+        action: 'createField', table: 'Projects', tableId: 'dst1', field: { name: 'Owner', type: 'Member' },
+      },
+    ]);
+    expect(plan.warnings).toEqual([
+      expect.stringContaining('"Budget" in table "Projects" is Number but the schema has Currency'),
+      expect.stringContaining('"Notes" in table "Projects" is not in the schema'),
+    ]);
+  });
+
+  it('sends only the option keys that changed, keeping the IDs of existing choices', async () => {
+    const service = serviceWith([{
+      ...tables[0],
+      fields: [
+        tables[0].fields[1],
+        { id: 'fld3', name: 'Budget', type: 'Currency', options: { precision: 0, symbol: '$' } },
+      ],
+    }]);
+
+    const plan = await planSchemaMigration(service as unknown as IAITableService, 'spc1', {
+      tables: [{
+        name: 'Projects',
+        fields: [
+          { name: 'State', type: 'SingleSelect', options: { options: [{ name: 'Open', color: 'blue_0' }, { name: 'Closed' }] } },
+          { name: 'Budget', type: 'Currency', options: { precision: 2, symbol: '$' } },
+        ],
+      }],
+    });
+
+    expect(plan.steps.map((step) => step.action === 'updateField' && step.changes)).toEqual([
+      { options: { options: [{ id: 'opt1', name: 'Open', color: 'blue_0' }, { name: 'Closed' }] } },
+      { options: { precision: 2 } },
+    ]);
+  });
+
+  it('rejects two tables or fields matching the same one', async () => {
+    await expect(planSchemaMigration(serviceWith() as unknown as IAITableService, 'spc1', {
+      tables: [{
+        name: 'Projects',
+        fields: [{ name: 'Title', type: 'SingleText' }, { id: 'fld1', name: 'Heading', type: 'SingleText' }],
+      }],
+    })).rejects.toThrow('Field "Title" and "Heading" in the schema both match field "Title"');
+  });
+});
+
+describe('applySchemaMigration', () => {
+  it('applies steps in order and stops at the first failure', async () => {
+    const service = serviceWith();
+    service.createField.mockRejectedValueOnce(new Error('Name taken'));
+    const plan: SchemaMigrationPlan = {
+      steps: [
+        {
+          action: 'updateTable', table: 'Projects', tableId: 'dst1', changes: { name: 'Work' },
+        },
+        {
+          action: 'createField', table: 'Projects', tableId: 'dst1', field: { name: 'Owner', type: 'Member' },
+        },
+        {
+          action: 'updateField', table: 'Projects', tableId: 'dst1', field: 'State', fieldId: 'fld2', changes: { name: 'Status' }, before: { name: 'State' },
+        },
+      ],
+      warnings: ['a warning'],
+    };
+
+    const report = await applySchemaMigration(service as unknown as IAITableService, 'spc1', plan);
+
+    expect(service.updateTable).toHaveBeenCalledWith('spc1', 'dst1', { name: 'Work' });
+    expect(service.createField).toHaveBeenCalledWith('spc1', 'dst1', { name: 'Owner', type: 'Member' });
+    expect(service.updateField).not.toHaveBeenCalled();
+    expect(report).toEqual({
+      applied: [plan.steps[0]],
+      failed: { step: plan.steps[1], error: 'Name taken' },
+      skipped: [plan.steps[2]],
+      warnings: ['a warning'],
+    });
+  });
+});
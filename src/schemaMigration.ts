@@ -0,0 +1,212 @@
+import type {
+  DesiredSchema,
+  Field,
+  FieldChanges,
+  IAITableService,
+  SchemaMigrationPlan,
+  SchemaMigrationReport,
+  SchemaMigrationStep,
+  Table,
+} from './types.js';
+import { portableOptions } from './schemaClone.js';
+import { ValidationError } from './errors.js';
+
+type DesiredTable = DesiredSchema['tables'][number];
+
+/**
+ * JSON with object keys sorted, so values compare equal whatever order their keys are in
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) => (nested && typeof nested === 'object' && !Array.isArray(nested)
+    ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+    : nested));
+}
+
+/**
+ * Matches each desired item to an existing one, by ID where it has one and
+ * otherwise by name. Two desired items can't match the same existing one.
+ */
+function matchByIdOrName<T extends { id?: string; name: string }, U extends { id?: string; name: string }>(
+  desired: T[],
+  existing: U[],
+  label: string,
+): Map<T, U | undefined> {
+  const matches = new Map<T, U | undefined>();
+  const claimed = new Map<U, T>();
+  desired.forEach((item) => {
+    const match = existing.find((candidate) => item.id !== undefined && candidate.id === item.id)
+      ?? existing.find((candidate) => candidate.name === item.name);
+    const rival = match && claimed.get(match);
+    if (match && rival) {
+      throw new ValidationError(`aitable-mcp-server: ${label} "${rival.name}" and "${item.name}" in the schema both match ${label.toLowerCase()} "${match.name}"`);
+    }
+    if (match) {
+      claimed.set(match, item);
+    }
+    matches.set(item, match);
+  });
+  return matches;
+}
+
+/**
+ * Select choices as the schema gives them, each carrying the ID of the
+ * existing choice it matches by ID or name, so cells using it keep their value
+ */
+function withChoiceIds(desired: unknown[], existing: unknown[]): unknown[] {
+  const known = existing.filter((choice): choice is Record<string, unknown> => typeof choice === 'object' && choice !== null);
+  return desired.map((choice) => {
+    if (typeof choice !== 'object' || choice === null) {
+      return choice;
+    }
+    const wanted = choice as Record<string, unknown>;
+    const match = known.find((candidate) => (wanted.id !== undefined ? candidate.id === wanted.id : candidate.name === wanted.name));
+    return match?.id === undefined ? wanted : { id: match.id, ...wanted };
+  });
+}
+
+/**
+ * The changes to an existing field's name, description and options, with
+ * their values before the change. Options only count as changed where the
+ * schema gives a key a different value, and only those keys are sent
+ */
+function fieldChanges(existing: Field, desired: Field): { changes: FieldChanges; before: FieldChanges } | undefined {
+  const changes: FieldChanges = {};
+  const before: FieldChanges = {};
+  if (desired.name !== existing.name) {
+    changes.name = desired.name;
+    before.name = existing.name;
+  }
+  if (desired.description !== undefined && desired.description !== (existing.description ?? '')) {
+    changes.description = desired.description;
+    before.description = existing.description ?? '';
+  }
+  const desiredOptions = portableOptions(desired.options) ?? {};
+  const existingOptions = portableOptions(existing.options) ?? {};
+  const changedKeys = Object.keys(desiredOptions)
+    .filter((key) => canonicalJson(desiredOptions[key]) !== canonicalJson(existingOptions[key]));
+  if (changedKeys.length > 0) {
+    changes.options = Object.fromEntries(changedKeys.map((key) => {
+      const value = desired.options![key];
+      const current = existing.options?.[key];
+      return [key, Array.isArray(value) && Array.isArray(current) ? withChoiceIds(value, current) : value];
+    }));
+    before.options = Object.fromEntries(changedKeys.map((key) => [key, existingOptions[key]]));
+  }
+  return Object.keys(changes).length > 0 ? { changes, before } : undefined;
+}
+
+function withoutId({ id, ...field }: Field): Field {
+  return field;
+}
+
+/**
+ * Compares a desired schema with a base and plans the changes that bring the
+ * base in line: tables renamed or described, tables created, fields renamed,
+ * described or given new options, then fields created. Renames come first so
+ * a new table or field can take a name one gave up. Nothing is ever deleted,
+ * and field types can't be changed, so those differences are only warned of.
+ */
+export async function planSchemaMigration(service: IAITableService, baseId: string, desired: DesiredSchema): Promise<SchemaMigrationPlan> {
+  const { tables } = await service.getBaseSchema(baseId);
+  const tableMatches = matchByIdOrName(desired.tables, tables, 'Table');
+  const tableUpdates: SchemaMigrationStep[] = [];
+  const tableCreations: SchemaMigrationStep[] = [];
+  const fieldUpdates: SchemaMigrationStep[] = [];
+  const fieldCreations: SchemaMigrationStep[] = [];
+  const warnings: string[] = [];
+
+  const planTable = (desiredTable: DesiredTable, table: Table) => {
+    const changes: { name?: string; description?: string } = {};
+    if (desiredTable.name !== table.name) {
+      changes.name = desiredTable.name;
+    }
+    if (desiredTable.description !== undefined && desiredTable.description !== (table.description ?? '')) {
+      changes.description = desiredTable.description;
+    }
+    if (Object.keys(changes).length > 0) {
+      tableUpdates.push({
+        action: 'updateTable', table: table.name, tableId: table.id, changes,
+      });
+    }
+
+    const fieldMatches = matchByIdOrName(desiredTable.fields, table.fields, 'Field');
+    fieldMatches.forEach((field, desiredField) => {
+      if (!field) {
+        fieldCreations.push({
+          action: 'createField', table: table.name, tableId: table.id, field: withoutId(desiredField),
+        });
+        return;
+      }
+      if (desiredField.type !== field.type) {
+        warnings.push(`Field "${field.name}" in table "${table.name}" is ${field.type} but the schema has ${desiredField.type}; field types can't be changed`);
+      }
+      const update = fieldChanges(field, desiredField);
+      if (update) {
+        fieldUpdates.push({
+          action: 'updateField', table: table.name, tableId: table.id, field: field.name, fieldId: field.id ?? field.name, ...update,
+        });
+      }
+    });
+
+    const matched = new Set(fieldMatches.values());
+    table.fields
+      .filter((field) => !matched.has(field))
+      .forEach((field) => {
+        warnings.push(`Field "${field.name}" in table "${table.name}" is not in the schema and is left as it is`);
+      });
+  };
+
+  tableMatches.forEach((table, desiredTable) => {
+    if (table) {
+      planTable(desiredTable, table);
+      return;
+    }
+    tableCreations.push({
+      action: 'createTable', table: desiredTable.name, description: desiredTable.description, fields: desiredTable.fields.map(withoutId),
+    });
+  });
+
+  return {
+    steps: [...tableUpdates, ...tableCreations, ...fieldUpdates, ...fieldCreations],
+    warnings,
+  };
+}
+
+function applyStep(service: IAITableService, baseId: string, step: SchemaMigrationStep): Promise<unknown> {
+  switch (step.action) {
+    case 'createTable':
+      return service.createTable(baseId, step.table, step.fields, step.description);
+    case 'updateTable':
+      return service.updateTable(baseId, step.tableId, step.changes);
+    case 'createField':
+      return service.createField(baseId, step.tableId, step.field);
+    default:
+      return service.updateField(baseId, step.tableId, step.fieldId, step.changes);
+  }
+}
+
+/**
+ * Applies the steps of a plan in order, stopping at the first that fails
+ */
+export async function applySchemaMigration(service: IAITableService, baseId: string, plan: SchemaMigrationPlan): Promise<SchemaMigrationReport> {
+  const report: SchemaMigrationReport = { applied: [], skipped: [], warnings: plan.warnings };
+
+  const applyFrom = async (index: number): Promise<void> => {
+    const step = plan.steps[index];
+    if (!step) {
+      return;
+    }
+    try {
+      await applyStep(service, baseId, step);
+    } catch (error) {
+      report.failed = { step, error: error instanceof Error ? error.message : String(error) };
+      report.skipped = plan.steps.slice(index + 1);
+      return;
+    }
+    report.applied.push(step);
+    await applyFrom(index + 1);
+  };
+
+  await applyFrom(0);
+  return report;
+}
@@ -0,0 +1,88 @@
+import {
+  describe, it, expect, beforeEach, afterEach, vi,
+} from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { diffRecords, SnapshotStore } from './snapshots.js';
+
+describe('SnapshotStore', () => {
+  let dir: string;
+  let store: SnapshotStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'aitable-snapshots-'));
+    store = new SnapshotStore(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('saves snapshots and finds the latest one for a datasheet', async () => {
+    const first = await store.save('spc1', 'dst1', [{ id: 'rec1', fields: { Name: 'Ada' } }], { label: 'before' });
+    const second = await store.save('spc1', 'dst1', []);
+    await store.save('spc1', 'dst2', []);
+
+    expect(first).toMatchObject({
+      spaceId: 'spc1', datasheetId: 'dst1', label: 'before', recordCount: 1,
+    });
+    expect(first.id).toMatch(/^dst1_\d{8}T\d{9}Z/);
+    expect(await store.list('dst1')).toEqual([first.id, second.id]);
+    expect((await store.latest('dst1'))?.id).toBe(second.id);
+    expect((await store.load(first.id)).records).toEqual([{ id: 'rec1', fields: { Name: 'Ada' } }]);
+    expect(await store.latest('dst3')).toBeUndefined();
+  });
+
+  it('keeps both snapshots taken at once within the same millisecond', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const saved = await Promise.all([
+        store.save('spc1', 'dst1', [{ id: 'rec1', fields: {} }]),
+        store.save('spc1', 'dst1', [{ id: 'rec2', fields: {} }]),
+      ]);
+
+      expect(new Set(saved.map((snapshot) => snapshot.id)).size).toBe(2);
+      const loaded = await Promise.all(saved.map((snapshot) => store.load(snapshot.id)));
+      expect(loaded.map((snapshot) => snapshot.records[0].id).sort()).toEqual(['rec1', 'rec2']);
+      expect(loaded.map((snapshot) => snapshot.id)).toEqual(saved.map((snapshot) => snapshot.id));
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('refuses IDs that are not snapshot IDs', async () => {
+    await expect(store.load('../../etc/passwd')).rejects.toThrow('Invalid snapshot ID');
+    await expect(store.load('dst1_20250101T000000000Z')).rejects.toThrow('not found');
+  });
+});
+
+describe('diffRecords', () => {
+  it('reports added, removed and modified records with per-field values', () => {
+    const diff = diffRecords(
+      [
+        { id: 'rec1', fields: { Name: 'Ada', Stage: 'Lead' } },
+        { id: 'rec2', fields: { Name: 'Grace' } },
+        { id: 'rec3', fields: { Name: 'Edsger', Tags: ['a'] } },
+      ],
+      [
+        { id: 'rec1', fields: { Name: 'Ada', Stage: 'Customer', Owner: 'Bob' } },
+        { id: 'rec3', fields: { Name: 'Edsger', Tags: ['a'] } },
+        { id: 'rec4', fields: { Name: 'Barbara' } },
+      ],
+    );
+
+    expect(diff).toEqual({
+      added: [{ id: 'rec4', fields: { Name: 'Barbara' } }],
+      removed: [{ id: 'rec2', fields: { Name: 'Grace' } }],
+      modified: [{
+        id: 'rec1',
+        changes: [
+          { field: 'Stage', before: 'Lead', after: 'Customer' },
+          { field: 'Owner', before: null, after: 'Bob' },
+        ],
+      }],
+      unchanged: 1,
+    });
+  });
+});
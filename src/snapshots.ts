@@ -0,0 +1,156 @@
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import path from 'path';
+import type {
+  AITableRecord, RecordDiff, TableSnapshot, TableSnapshotInfo,
+} from './types.js';
+import { NotFoundError, ValidationError } from './errors.js';
+
+// Where snapshots are kept when no directory is configured
+export const DEFAULT_SNAPSHOT_DIR = path.join(homedir(), '.aitable-mcp-server', 'snapshots');
+
+// Snapshot IDs become file names, so only these characters are allowed
+const SNAPSHOT_ID_PATTERN = /^[A-Za-z0-9]+_\d{8}T\d{9}Z(_[a-z0-9]+)?$/;
+
+/**
+ * Strips the records from a snapshot, leaving what's needed to list it
+ */
+export function snapshotInfo(snapshot: TableSnapshot): TableSnapshotInfo {
+  const { records, ...info } = snapshot;
+  return info;
+}
+
+/**
+ * Stores snapshots of datasheet records as JSON files in a directory, one
+ * file per snapshot
+ */
+export class SnapshotStore {
+  constructor(private readonly dir: string = DEFAULT_SNAPSHOT_DIR) {}
+
+  /**
+   * Saves the records of a datasheet as a new snapshot
+   */
+  async save(
+    spaceId: string,
+    datasheetId: string,
+    records: AITableRecord[],
+    details: { label?: string; truncated?: boolean } = {},
+  ): Promise<TableSnapshotInfo> {
+    const createdAt = new Date();
+    const stamp = createdAt.toISOString().replace(/[-:.]/g, '');
+    const snapshot: TableSnapshot = {
+      id: `${datasheetId}_${stamp}`,
+      spaceId,
+      datasheetId,
+      createdAt: createdAt.toISOString(),
+      label: details.label,
+      recordCount: records.length,
+      truncated: details.truncated || undefined,
+      records,
+    };
+
+    await fs.mkdir(this.dir, { recursive: true });
+    try {
+      await this.write(snapshot);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      // Two snapshots of a table within the same millisecond get a suffix
+      snapshot.id = `${snapshot.id}_${Math.random().toString(36).slice(2, 8)}`;
+      await this.write(snapshot);
+    }
+    return snapshotInfo(snapshot);
+  }
+
+  async load(id: string): Promise<TableSnapshot> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), 'utf8')) as TableSnapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new NotFoundError(`aitable-mcp-server: Snapshot "${id}" not found`, {
+          remediation: 'Check the snapshot ID, or take a snapshot with snapshot_table.',
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The most recent snapshot of a datasheet, or undefined if there is none
+   */
+  async latest(datasheetId: string): Promise<TableSnapshot | undefined> {
+    const ids = await this.list(datasheetId);
+    return ids.length > 0 ? this.load(ids[ids.length - 1]) : undefined;
+  }
+
+  /**
+   * IDs of a datasheet's snapshots, oldest first
+   */
+  async list(datasheetId: string): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return files
+      .filter((file) => file.startsWith(`${datasheetId}_`) && file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length))
+      .filter((id) => SNAPSHOT_ID_PATTERN.test(id))
+      .sort();
+  }
+
+  /**
+   * Writes a snapshot to a new file, failing with EEXIST rather than
+   * overwriting one of the same ID
+   */
+  private write(snapshot: TableSnapshot): Promise<void> {
+    return fs.writeFile(this.filePath(snapshot.id), JSON.stringify(snapshot), { mode: 0o600, flag: 'wx' });
+  }
+
+  private filePath(id: string): string {
+    if (!SNAPSHOT_ID_PATTERN.test(id)) {
+      throw new ValidationError(`aitable-mcp-server: Invalid snapshot ID "${id}"`);
+    }
+    return path.join(this.dir, `${id}.json`);
+  }
+}
+
+/**
+ * Compares two sets of records by ID, reporting records that were added,
+ * removed or modified, with the old and new value of every changed field
+ */
+export function diffRecords(before: AITableRecord[], after: AITableRecord[]): RecordDiff {
+  const beforeById = new Map(before.map((record) => [record.id, record]));
+  const afterIds = new Set(after.map((record) => record.id));
+  const diff: RecordDiff = {
+    added: [], removed: [], modified: [], unchanged: 0,
+  };
+
+  after.forEach((record) => {
+    const previous = beforeById.get(record.id);
+    if (!previous) {
+      diff.added.push(record);
+      return;
+    }
+
+    const fieldNames = [...new Set([...Object.keys(previous.fields), ...Object.keys(record.fields)])];
+    const changes = fieldNames
+      .filter((name) => JSON.stringify(previous.fields[name] ?? null) !== JSON.stringify(record.fields[name] ?? null))
+      .map((name) => ({ field: name, before: previous.fields[name] ?? null, after: record.fields[name] ?? null }));
+
+    if (changes.length > 0) {
+      diff.modified.push({ id: record.id, changes });
+    } else {
+      diff.unchanged += 1;
+    }
+  });
+
+  diff.removed = before.filter((record) => !afterIds.has(record.id));
+  return diff;
+}
@@ -30,19 +30,19 @@ export const FieldSchema = z.object({
   options: FieldOptionsSchema.optional(),
 }).passthrough();
 
+export const ViewSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+});
+
 export const TableSchema = z.object({
   id: z.string(),
   name: z.string(),
   description: z.string().optional(),
   primaryFieldId: z.string(),
   fields: z.array(FieldSchema),
-  views: z.array(
-    z.object({
-      id: z.string(),
-      name: z.string(),
-      type: z.string(),
-    }),
-  ),
+  views: z.array(ViewSchema),
 });
 
 export const BaseSchemaResponseSchema = z.object({
@@ -50,19 +50,79 @@ export const BaseSchemaResponseSchema = z.object({
   bases: z.array(BaseSchema).optional(),
 });
 
+// A structured filter, compiled to a formula against the table's fields
+export const FilterOperatorSchema = z.enum([
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'isEmpty', 'isNotEmpty', 'in', 'before', 'after', 'on', 'between',
+]);
+
+const FilterScalarSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const FilterConditionSchema = z.object({
+  field: z.string().describe('Name or ID of the field to test'),
+  op: FilterOperatorSchema.describe('eq, neq, gt, gte, lt and lte compare; contains finds text; isEmpty and isNotEmpty take no value; '
+    + 'in takes a list of values; before, after and on compare dates; between takes [from, to] dates or numbers, inclusive'),
+  value: z.union([FilterScalarSchema, z.array(FilterScalarSchema)]).optional().describe('Value to compare against. Dates may be ISO strings or timestamps in milliseconds'),
+});
+
+export const FilterExpressionSchema: z.ZodType<FilterExpression> = z.lazy(() => z.union([
+  z.object({ and: z.array(FilterExpressionSchema).min(1) }),
+  z.object({ or: z.array(FilterExpressionSchema).min(1) }),
+  z.object({ not: FilterExpressionSchema }),
+  FilterConditionSchema,
+]));
+
 // Tool argument schemas
+const RecordFilterArgSchema = FilterExpressionSchema.optional().describe('Structured filter, an alternative to filterByFormula, e.g. '
+  + '{"and": [{"field": "Status", "op": "eq", "value": "Done"}, {"field": "Due", "op": "after", "value": "2025-01-01"}]}. '
+  + 'Combined with filterByFormula if both are given. The compiled formula is returned as filterByFormula');
+
+const RecordSortArgSchema = z.array(z.object({
+  field: z.string().describe('Name or ID of the field to sort by'),
+  direction: z.enum(['asc', 'desc']).optional().describe('Sort direction. Defaults to asc'),
+})).optional().describe('Fields to sort by, in order of precedence');
+
+// Most records the API returns in a page
+const MAX_PAGE_SIZE = 1000;
+
+const ViewArgSchema = z.string().optional().describe('ID or name of a view. Returns only the records the view shows, in its order');
+
 export const ListRecordsArgsSchema = z.object({
   baseId: z.string().describe('ID of the AITable base'),
-  tableId: z.string().describe('ID of the table to query'),
-  maxRecords: z.number().optional().describe('Maximum number of records to return. Defaults to 100.'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table to query'),
+  maxRecords: z.number().int().positive().optional().describe('Maximum number of records to return across all pages'),
+  filterByFormula: z.string().optional().describe('Formula to filter records'),
+  filter: RecordFilterArgSchema,
+  pageSize: z.number().int().positive().max(MAX_PAGE_SIZE)
+    .optional()
+    .describe('Number of records per page, at most 1000. Defaults to 100.'),
+  pageToken: z.string().optional().describe('Continuation token returned by a previous call, used to fetch the next page'),
+  fetchAll: z.boolean().optional().describe('Fetch every page (up to a hard ceiling of 10,000 records) instead of a single page. Stops at maxRecords and returns a pageToken to carry on from'),
+  sort: RecordSortArgSchema,
+  fields: z.array(z.string()).optional().describe('Names or IDs of the fields to return. Returns every field if not given'),
+  viewId: ViewArgSchema,
+  cellFormat: z.enum(['json', 'string']).optional().describe('"json" (default) returns raw values, "string" the text shown in the UI'),
+  fieldKey: z.enum(['name', 'id']).optional().describe('Key record fields by field name (default) or field ID'),
+});
+
+export const ExportRecordsArgsSchema = z.object({
+  baseId: z.string().describe('ID of the AITable base'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table to export'),
+  format: z.enum(['csv', 'jsonl']).optional().describe('"csv" (default) flattens values to text; "jsonl" writes one JSON object per record'),
+  output: z.enum(['file', 'inline']).optional().describe('"file" (default) writes to the export directory and returns the path; "inline" returns the export as a resource'),
   filterByFormula: z.string().optional().describe('Formula to filter records'),
+  filter: RecordFilterArgSchema,
+  sort: RecordSortArgSchema,
+  fields: z.array(z.string()).optional().describe('Names or IDs of the fields to export, in column order. Exports every field in schema order if not given'),
+  viewId: ViewArgSchema,
+  maxRecords: z.number().int().positive().optional()
+    .describe('Maximum number of records to export. Capped at 10,000'),
 });
 
 export const SearchRecordsArgsSchema = z.object({
   baseId: z.string().describe('ID of the AITable base'),
-  tableId: z.string().describe('ID of the table to query'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table to query'),
   searchTerm: z.string().describe('Text to search for in records'),
-  fieldIds: z.array(z.string()).optional().describe('Specific field IDs to search in. If not provided, searches all text-based fields.'),
+  fieldIds: z.array(z.string()).optional().describe('Specific field IDs or names to search in. If not provided, searches all text-based fields.'),
   maxRecords: z.number().optional().describe('Maximum number of records to return. Defaults to 100.'),
 });
 
@@ -84,55 +144,140 @@ export const GetDatasheetRecordsByNameArgsSchema = z.object({
 
 export const DescribeTableArgsSchema = z.object({
   baseId: z.string().describe('ID of the AITable base'),
-  tableId: z.string().describe('ID of the table to describe'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table to describe'),
   detailLevel: z.enum(['tableIdentifiersOnly', 'identifiersOnly', 'full']).optional().describe('The amount of detail to get about the table'),
 });
 
 export const GetRecordArgsSchema = z.object({
   baseId: z.string().describe('ID of the AITable base'),
-  tableId: z.string().describe('ID of the table'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table'),
   recordId: z.string().describe('ID of the record to retrieve'),
 });
 
+// Field values as the records API accepts them on write, by kind of field
+export const MemberValueSchema = z.union([
+  z.string(),
+  z.object({
+    id: z.string(),
+    type: z.number().optional(),
+    name: z.string().optional(),
+  }).passthrough(),
+]);
+
+export const AttachmentValueSchema = z.object({
+  token: z.string(),
+  name: z.string().optional(),
+  mimeType: z.string().optional(),
+  size: z.number().optional(),
+}).passthrough();
+
+export const UrlValueSchema = z.union([
+  z.string(),
+  z.object({
+    text: z.string(),
+    title: z.string().optional(),
+  }).passthrough(),
+]);
+
+export const FieldValueSchemas = {
+  text: z.string(),
+  number: z.number().finite(),
+  dateTime: z.number().int(),
+  singleSelect: z.string(),
+  multiSelect: z.array(z.string()),
+  checkbox: z.boolean(),
+  rating: z.number().int().nonnegative(),
+  link: z.array(z.string()),
+  member: z.array(MemberValueSchema),
+  attachment: z.array(AttachmentValueSchema),
+  url: UrlValueSchema,
+};
+
+// Field values accepted when writing records. Checked against the field's type before writing
+const RecordFieldsSchema = z.record(
+  z.string(),
+  z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.null(),
+    z.record(z.any()),
+    z.array(z.union([z.string(), z.number(), z.boolean(), z.null(), z.record(z.any())])),
+  ]),
+);
+
+const RECORD_FIELDS_DESCRIPTION = 'keyed by field name or ID. Values must suit the field type: strings for text, select option names, numbers, '
+  + 'timestamps in milliseconds for dates, booleans for checkboxes, arrays of record IDs for links, arrays of {token} for attachments '
+  + 'and arrays of unit IDs for members. null clears a field.';
+
+const CoerceArgSchema = z.enum(['off', 'lenient', 'strict']).optional().describe(
+  'Correct loosely written values before writing: "lenient" parses dates and numbers and matches select options loosely, '
+  + '"strict" parses dates and numbers but fails on inexact option names. Every change is reported under `coercions`',
+);
+
 export const CreateRecordArgsSchema = z.object({
   baseId: z.string().describe('ID of the AITable base'),
-  tableId: z.string().describe('ID of the table'),
-  fields: z.record(
-    z.string(),
-    z.union([
-      z.string(),
-      z.number(),
-      z.boolean(),
-      z.null(),
-      z.array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
-    ])
-  ).describe('Fields and values for the new record. Values should be primitives (string, number, boolean, null) or arrays of primitives.'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table'),
+  fields: RecordFieldsSchema.describe(`Fields and values for the new record, ${RECORD_FIELDS_DESCRIPTION}`),
+  coerce: CoerceArgSchema,
+});
+
+export const CreateRecordsArgsSchema = z.object({
+  baseId: z.string().describe('ID of the AITable base'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table'),
+  records: z.array(
+    z.object({
+      fields: RecordFieldsSchema.describe(`Fields and values for the new record, ${RECORD_FIELDS_DESCRIPTION}`),
+    }),
+  ).describe('Records to create. Any number may be given; they are written in batches of 10'),
+  coerce: CoerceArgSchema,
 });
 
 export const UpdateRecordsArgsSchema = z.object({
   baseId: z.string().describe('ID of the AITable base'),
-  tableId: z.string().describe('ID of the table'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table'),
   records: z.array(
     z.object({
       id: z.string().describe('ID of the record to update'),
-      fields: z.record(
-        z.string(),
-        z.union([
-          z.string(),
-          z.number(),
-          z.boolean(),
-          z.null(),
-          z.array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
-        ])
-      ).describe('Fields and values to update. Values should be primitives (string, number, boolean, null) or arrays of primitives.'),
+      fields: RecordFieldsSchema.describe(`Fields and values to update, ${RECORD_FIELDS_DESCRIPTION}`),
+    }),
+  ).describe('Records to update. Any number may be given; they are written in batches of 10'),
+  coerce: CoerceArgSchema,
+  dryRun: z.boolean().optional().describe('Preview the change as a before/after diff without writing anything'),
+});
+
+export const UpsertRecordsArgsSchema = z.object({
+  baseId: z.string().describe('ID of the AITable base'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table'),
+  records: z.array(
+    z.object({
+      fields: RecordFieldsSchema.describe('Fields and values for the record, keyed by field name or ID. Must include a value for every merge field'),
     }),
-  ).describe('Records to update'),
+  ).describe('Records to create or update'),
+  mergeOnFields: z.array(z.string()).min(1).describe('Names or IDs of the fields whose values identify an existing record, e.g. ["Email"]'),
+  coerce: CoerceArgSchema,
+});
+
+export const ImportRecordsArgsSchema = z.object({
+  baseId: z.string().describe('ID of the AITable base'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table to import into'),
+  filePath: z.string().describe('Path of a local CSV, JSON or JSON Lines file. Relative paths are resolved against the import directory if one is configured'),
+  format: z.enum(['csv', 'json', 'jsonl']).optional().describe('File format. Defaults to the file extension'),
+  mapping: z.record(z.string(), z.string().nullable()).optional().describe(
+    'Column name to field name or ID, for columns whose name differs from their field, e.g. {"E-mail": "Email"}. '
+    + 'Map a column to null to leave it out. Other columns are matched to fields by name',
+  ),
+  mergeOnFields: z.array(z.string()).min(1).optional().describe('Upsert on these fields instead of creating every row, as in upsert_records'),
+  coerce: CoerceArgSchema,
+  dryRun: z.boolean().optional().describe('Only validate the rows and report which would fail, without writing anything'),
 });
 
 export const DeleteRecordsArgsSchema = z.object({
   baseId: z.string().describe('ID of the AITable base'),
-  tableId: z.string().describe('ID of the table'),
-  recordIds: z.array(z.string()).describe('IDs of records to delete'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table'),
+  recordIds: z.array(z.string()).describe('IDs of records to delete. Any number may be given; they are deleted in batches of 10'),
+  dryRun: z.boolean().optional().describe('Preview the change as a before/after diff without writing anything'),
+  confirmToken: z.string().optional().describe('Token returned by a previous call that asked for confirmation of a large deletion'),
 });
 
 export const CreateTableArgsSchema = z.object({
@@ -142,38 +287,118 @@ export const CreateTableArgsSchema = z.object({
   fields: z.array(FieldSchema).describe('Field definitions for the table'),
 });
 
+// A portable description of datasheets, written by export_schema and read by apply_schema
+export const SchemaDocumentSchema = z.object({
+  version: z.literal(1),
+  exportedAt: z.string().optional(),
+  sourceSpaceId: z.string().optional(),
+  tables: z.array(z.object({
+    id: z.string().describe('ID of the datasheet in the source space, used to remap links between the tables'),
+    name: z.string(),
+    path: z.string().optional().describe('Folder path including the table name, e.g. "Projects > Q3 Roadmap"'),
+    description: z.string().optional(),
+    primaryFieldId: z.string().optional().describe('Defaults to the first field'),
+    fields: z.array(FieldSchema.extend({ id: z.string() })).min(1),
+    views: z.array(ViewSchema.partial({ id: true })).optional(),
+  })).min(1),
+});
+
+export const ExportSchemaArgsSchema = z.object({
+  baseId: z.string().describe('ID of the AITable base'),
+  tableIds: z.array(z.string()).min(1).describe('IDs, names or folder paths of the tables to export. Export linked tables together so their links can be recreated'),
+});
+
+export const ApplySchemaArgsSchema = z.object({
+  baseId: z.string().describe('ID of the AITable base to create the tables in'),
+  schema: SchemaDocumentSchema.describe('Document returned by export_schema'),
+  dryRun: z.boolean().optional().describe('Report what would be created and what could not be reproduced, without creating anything'),
+});
+
+// The tables and fields a base should have. Tables and fields without an ID are matched by name
+export const DesiredSchemaSchema = z.object({
+  tables: z.array(z.object({
+    id: z.string().optional().describe('ID of the datasheet. Give it to rename the table, otherwise it is matched by name'),
+    name: z.string(),
+    description: z.string().optional(),
+    fields: z.array(FieldSchema).min(1).describe('Fields the table should have. Give a field\'s ID to rename it, otherwise it is matched by name'),
+  })).min(1),
+});
+
+export const PlanSchemaMigrationArgsSchema = z.object({
+  baseId: z.string().describe('ID of the AITable base'),
+  schema: DesiredSchemaSchema.describe('The tables and fields the base should have, e.g. a document from export_schema with changes made to it. Tables left out are not changed'),
+});
+
+export const ApplySchemaMigrationArgsSchema = PlanSchemaMigrationArgsSchema.extend({
+  dryRun: z.boolean().optional().describe('Return the plan without applying it'),
+});
+
 export const UpdateTableArgsSchema = z.object({
   baseId: z.string().describe('ID of the AITable base'),
-  tableId: z.string().describe('ID of the table'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table'),
   name: z.string().optional().describe('New name for the table'),
   description: z.string().optional().describe('New description for the table'),
+  dryRun: z.boolean().optional().describe('Preview the change as a before/after diff without writing anything'),
 });
 
 export const CreateFieldArgsSchema = z.object({
   baseId: z.string().describe('ID of the AITable base'),
-  tableId: z.string().describe('ID of the table'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table'),
   name: z.string().describe('Name of the new field'),
   type: z.string().describe('Type of the field'),
   description: z.string().optional().describe('Description of the field'),
   options: FieldOptionsSchema.optional().describe('Field-specific options'),
+  dryRun: z.boolean().optional().describe('Preview the change as a before/after diff without writing anything'),
 });
 
 export const UpdateFieldArgsSchema = z.object({
   baseId: z.string().describe('ID of the AITable base'),
-  tableId: z.string().describe('ID of the table'),
-  fieldId: z.string().describe('ID of the field'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table'),
+  fieldId: z.string().describe('ID or name of the field'),
   name: z.string().optional().describe('New name for the field'),
   description: z.string().optional().describe('New description for the field'),
 });
 
+export const SnapshotTableArgsSchema = z.object({
+  baseId: z.string().describe('ID of the AITable base'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table'),
+  label: z.string().optional().describe('Note to store with the snapshot, e.g. "before import"'),
+});
+
+export const DiffTableArgsSchema = z.object({
+  baseId: z.string().describe('ID of the AITable base'),
+  tableId: z.string().describe('ID, name or folder path (e.g. "Projects > Q3 Roadmap") of the table'),
+  snapshotId: z.string().optional().describe('Snapshot to compare from. Defaults to the latest snapshot of the table'),
+  compareTo: z.string().optional().describe('Later snapshot to compare against. Defaults to the current records'),
+  maxChanges: z.number().int().positive().optional()
+    .describe('Most added, removed and modified records to list each. Defaults to 100; counts are always complete'),
+});
+
+export const RefreshSchemaCacheArgsSchema = z.object({
+  baseId: z.string().optional().describe('ID of the AITable space whose folder tree should be refreshed. Omit both arguments to clear the whole cache'),
+  tableId: z.string().optional().describe('ID of the table whose fields and views should be refreshed'),
+});
+
 // Type definitions
 export type ListBasesResponse = z.infer<typeof ListBasesResponseSchema>;
 export type BaseSchemaResponse = z.infer<typeof BaseSchemaResponseSchema>;
 export type Base = z.infer<typeof BaseSchema>;
 export type Table = z.infer<typeof TableSchema>;
 export type Field = z.infer<typeof FieldSchema>;
+export type View = z.infer<typeof ViewSchema>;
+
+export type FieldSet = Record<string, unknown>;
+
+export type FilterOperator = z.infer<typeof FilterOperatorSchema>;
+export type FilterCondition = z.infer<typeof FilterConditionSchema>;
+export type FilterExpression =
+  | { and: FilterExpression[] }
+  | { or: FilterExpression[] }
+  | { not: FilterExpression }
+  | FilterCondition;
 
-export type FieldSet = Record<string, any>;
+export type FieldValueKind = keyof typeof FieldValueSchemas;
+export type FieldValue = { [K in FieldValueKind]: z.infer<(typeof FieldValueSchemas)[K]> }[FieldValueKind] | null;
 export type AITableRecord = { id: string; fields: FieldSet };
 
 /**
@@ -188,11 +413,359 @@ export interface DatasheetInfo {
   path: string;
   /** ID of the space containing this datasheet */
   spaceId: string;
+  /** ID of the folder containing this datasheet, absent at the root of the space */
+  parentId?: string;
+}
+
+/**
+ * A node in the folder tree of a space: a folder, datasheet, form and so on
+ */
+export interface SpaceNode {
+  id: string;
+  name: string;
+  /** Kind of node, e.g. "Folder" or "Datasheet" */
+  type: string;
+  /** Nodes directly inside a folder */
+  children?: { id: string; name: string; type: string }[];
 }
 
 export interface ListRecordsOptions {
   maxRecords?: number;
   filterByFormula?: string;
+  /** Fields to sort by, in order of precedence */
+  sort?: RecordSort[];
+  /** Only return these fields */
+  fields?: string[];
+  /** Return the view's records, in its order and with its filters */
+  viewId?: string;
+  /** Return values as JSON (the default) or as the text shown in the UI */
+  cellFormat?: 'json' | 'string';
+  /** Key record fields by name (the default) or by ID */
+  fieldKey?: 'name' | 'id';
+  /** Number of records per page */
+  pageSize?: number;
+  /** Continuation token from a previous page (an `offset` or the next `pageNum`, depending on the API) */
+  pageToken?: string;
+  /** 1-based page number for the fusion API. Takes precedence over `pageToken` */
+  pageNum?: number;
+  /** Walk every page until exhausted or the fetch-all ceiling is reached */
+  fetchAll?: boolean;
+}
+
+export interface RecordSort {
+  field: string;
+  direction?: 'asc' | 'desc';
+}
+
+export type ExportFormat = 'csv' | 'jsonl';
+
+export interface ExportRecordsOptions extends Pick<ListRecordsOptions, 'maxRecords' | 'filterByFormula' | 'sort' | 'fields' | 'viewId'> {
+  /** Defaults to csv */
+  format?: ExportFormat;
+}
+
+/**
+ * A datasheet's records formatted for use outside AITable
+ */
+export interface RecordExport {
+  format: ExportFormat;
+  mimeType: string;
+  /** Field names in column order, after the record ID column */
+  columns: string[];
+  recordCount: number;
+  /** Set when the datasheet had more records than could be exported */
+  truncated?: boolean;
+  content: string;
+}
+
+export type SchemaDocument = z.infer<typeof SchemaDocumentSchema>;
+export type SchemaTable = SchemaDocument['tables'][number];
+
+/**
+ * Outcome of recreating a schema document in a space
+ */
+export interface ApplySchemaReport {
+  dryRun?: true;
+  /** Tables that were created, with the fields added to each */
+  tables: { sourceId: string; id?: string; name: string; fields: string[] }[];
+  /** Tables, fields, views and folders that could not be recreated as they were */
+  notReproduced: { table: string; field?: string; view?: string; reason: string }[];
+}
+
+export type DesiredSchema = z.infer<typeof DesiredSchemaSchema>;
+
+export type FieldChanges = { name?: string; description?: string; options?: Record<string, unknown> };
+
+/**
+ * One change in a schema migration. `table` and `field` name what is changed,
+ * as it is named before the change
+ */
+export type SchemaMigrationStep =
+  | { action: 'createTable'; table: string; description?: string; fields: Field[] }
+  | { action: 'updateTable'; table: string; tableId: string; changes: { name?: string; description?: string } }
+  | { action: 'createField'; table: string; tableId: string; field: Field }
+  | {
+    action: 'updateField';
+    table: string;
+    tableId: string;
+    field: string;
+    fieldId: string;
+    changes: FieldChanges;
+    /** Values of the changed properties before the change */
+    before: FieldChanges;
+  };
+
+/**
+ * Changes that bring a base in line with a desired schema, in the order they are applied
+ */
+export interface SchemaMigrationPlan {
+  steps: SchemaMigrationStep[];
+  /** Differences the migration leaves alone, such as field types and fields missing from the schema */
+  warnings: string[];
+}
+
+/**
+ * Outcome of applying a schema migration, which stops at the first step that fails
+ */
+export interface SchemaMigrationReport {
+  applied: SchemaMigrationStep[];
+  failed?: { step: SchemaMigrationStep; error: string };
+  /** Steps after the one that failed, which were not attempted */
+  skipped: SchemaMigrationStep[];
+  warnings: string[];
+}
+
+export type ImportFormat = 'csv' | 'json' | 'jsonl';
+
+/**
+ * What happened to one row of an imported file
+ */
+export interface ImportRowResult {
+  /** 1-based position of the row among the file's data rows */
+  row: number;
+  /** `valid` is only reported by a dry run */
+  status: 'created' | 'updated' | 'skipped' | 'failed' | 'valid';
+  /** ID of the record that was created or updated */
+  id?: string;
+  reason?: string;
+}
+
+/**
+ * Outcome of importing a file, row by row
+ */
+export interface ImportReport {
+  dryRun?: true;
+  format: ImportFormat;
+  rowCount: number;
+  summary: Record<ImportRowResult['status'], number>;
+  /** Columns that matched no field and were left out */
+  unmappedColumns: string[];
+  rows: ImportRowResult[];
+}
+
+/**
+ * Outcome of a write that was split into API-sized batches. A failed batch
+ * doesn't stop the remaining batches from being written.
+ */
+export interface BatchWriteResult<T> {
+  /** Records written successfully */
+  succeeded: T[];
+  /** Records that could not be written, by position in the request */
+  failed: { index: number; id?: string; error: string }[];
+}
+
+/**
+ * How an upsert would go, worked out from the existing records before anything
+ * is written
+ */
+export interface UpsertPlan {
+  /** Records that match no existing record, by position in the request */
+  create: { index: number; fields: FieldSet }[];
+  /** Records that match an existing record, with that record's current fields */
+  update: { index: number; id: string; fields: FieldSet; current: FieldSet }[];
+  /** Records that can't be written, by position in the request */
+  failed: { index: number; error: string }[];
+}
+
+/**
+ * Outcome of an upsert: which records were created, which existing ones were
+ * updated, and which could not be written
+ */
+export interface UpsertResult {
+  created: AITableRecord[];
+  updated: AITableRecord[];
+  /** Records that could not be written, by position in the request */
+  failed: { index: number; id?: string; error: string }[];
+  /** Positions in the request of the created and updated records, in the same order */
+  positions: { created: number[]; updated: number[] };
+}
+
+/**
+ * A single change a write would make. `before` is null for something that
+ * would be created and `after` is null for something that would be deleted
+ */
+export interface DryRunChange {
+  id?: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+/**
+ * What a write would change, computed from the current state without writing
+ */
+export interface DryRunPreview {
+  dryRun: true;
+  /** Name of the tool that was previewed */
+  action: string;
+  baseId: string;
+  tableId?: string;
+  changes: DryRunChange[];
+  /** Problems the write would run into, e.g. records that do not exist */
+  warnings: string[];
+  /** Token to pass back to go ahead with a write that needs confirmation */
+  confirmToken?: string;
+  message?: string;
+  /** Values that were coerced to suit their fields */
+  coercions?: Coercion[];
+}
+
+/**
+ * Restrictions on what the server may do. Allow lists, when given, are
+ * exhaustive; deny lists always win
+ */
+export interface AccessPolicyOptions {
+  /** Hide write tools and refuse every write */
+  readOnly?: boolean;
+  allowedTools?: string[];
+  deniedTools?: string[];
+  allowedSpaces?: string[];
+  deniedSpaces?: string[];
+  allowedDatasheets?: string[];
+  deniedDatasheets?: string[];
+}
+
+/**
+ * Configuration for AITableMCPServer
+ */
+export interface AITableMCPServerOptions {
+  /** Preview every write instead of performing it */
+  dryRun?: boolean;
+  /** Deleting more records than this in one call needs a confirmation token */
+  deleteConfirmationThreshold?: number;
+  /** Which tools are registered */
+  access?: AccessPolicyOptions;
+  /** How record values are coerced before writing, unless a call asks otherwise */
+  coerce?: CoercionMode;
+  /** Directory snapshot_table saves to and diff_table reads from */
+  snapshotDir?: string;
+  /** Directory export_records writes files to */
+  exportDir?: string;
+  /** When set, import_records only reads files inside this directory */
+  importDir?: string;
+}
+
+/**
+ * A datasheet's records at one point in time, as stored on disk
+ */
+export interface TableSnapshot {
+  /** Datasheet ID and timestamp, e.g. dstXXXX_20250301T120000000Z */
+  id: string;
+  spaceId: string;
+  datasheetId: string;
+  createdAt: string;
+  label?: string;
+  recordCount: number;
+  /** Set when the datasheet had more records than could be fetched */
+  truncated?: boolean;
+  records: AITableRecord[];
+}
+
+export type TableSnapshotInfo = Omit<TableSnapshot, 'records'>;
+
+/**
+ * Differences between two sets of a datasheet's records
+ */
+export interface RecordDiff {
+  added: AITableRecord[];
+  removed: AITableRecord[];
+  modified: { id: string; changes: { field: string; before: unknown; after: unknown }[] }[];
+  /** How many records are the same in both */
+  unchanged: number;
+}
+
+/**
+ * How loosely written record values are corrected before writing: `off` sends
+ * them as given, `lenient` parses dates and numbers and matches select options
+ * loosely, and `strict` parses dates and numbers but refuses to guess options
+ */
+export type CoercionMode = 'off' | 'lenient' | 'strict';
+
+/**
+ * A value that was changed to suit its field before writing
+ */
+export interface Coercion {
+  /** Position of the record in the request, for multi-record writes */
+  record?: number;
+  field: string;
+  from: unknown;
+  to: unknown;
+  reason: string;
+}
+
+/**
+ * Configuration for AITableService beyond the API key and base URL
+ */
+/**
+ * Which API the server speaks: the Airtable-compatible one under `/v0`, or the AITable fusion API
+ */
+export type ApiDialectName = 'airtable' | 'fusion';
+
+export interface AITableServiceOptions {
+  /** Which API to speak, or `auto` to find out with a request on first use. Defaults to `auto` */
+  apiDialect?: ApiDialectName | 'auto';
+  /** How long node trees, field lists and view lists are cached, in milliseconds. 0 disables caching */
+  cacheTtlMs?: number;
+  /** Maximum number of API requests started per second */
+  requestsPerSecond?: number;
+  /** Maximum number of API requests in flight at once */
+  maxConcurrentRequests?: number;
+  /** How many times a rate-limited, failed or timed-out request is retried */
+  maxRetries?: number;
+  /** Base delay for exponential backoff between retries, in milliseconds */
+  retryBaseDelayMs?: number;
+  /** How long a single request may take before it is aborted, in milliseconds */
+  requestTimeoutMs?: number;
+  /** Which spaces and datasheets can be reached, and whether writes are allowed */
+  access?: AccessPolicyOptions;
+  /** Receives an entry for every write. Defaults to a JSON line on stderr */
+  audit?: (entry: AuditEntry) => void;
+}
+
+/**
+ * A record of one write, attributed to the API key that made it
+ */
+export interface AuditEntry {
+  time: string;
+  /** Fingerprint of the API key, never the key itself */
+  credential: string;
+  action: string;
+  spaceId: string;
+  datasheetId?: string;
+  /** IDs of the records, datasheet or field that were written */
+  ids: string[];
+  /** How many records in the request could not be written */
+  failed?: number;
+}
+
+/**
+ * A single page of records, with a token for fetching the next one
+ */
+export interface ListRecordsPage {
+  records: AITableRecord[];
+  /** Continuation token for the next page. Absent when there are no more records */
+  pageToken?: string;
+  /** Set when fetching all pages stopped at the record ceiling before reaching the end */
+  truncated?: boolean;
 }
 
 // Service interfaces
@@ -200,16 +773,33 @@ export interface IAITableService {
   listBases(): Promise<ListBasesResponse>;
   getBaseSchema(baseId: string): Promise<BaseSchemaResponse>;
   getAllDatasheets(spaceId: string): Promise<DatasheetInfo[]>;
+  getNode(spaceId: string, nodeId: string): Promise<SpaceNode>;
   getDatasheetRecordsByName(spaceId: string, datasheetName: string, options?: ListRecordsOptions): Promise<AITableRecord[]>;
+  getFields(baseId: string, tableId: string): Promise<Field[]>;
+  getViews(baseId: string, tableId: string): Promise<View[]>;
+  resolveDatasheetId(spaceId: string, datasheetRef: string): Promise<string>;
+  resolveFieldIds(spaceId: string, datasheetId: string, fieldRefs: string[]): Promise<string[]>;
+  resolveFieldNames(spaceId: string, datasheetId: string, fieldRefs: string[]): Promise<string[]>;
+  resolveViewId(spaceId: string, datasheetId: string, viewRef: string): Promise<string>;
+  resolveFieldSet(spaceId: string, datasheetId: string, fields: FieldSet): Promise<FieldSet>;
+  compileFilter(spaceId: string, datasheetId: string, filter: FilterExpression): Promise<string>;
+  prepareFieldSet(spaceId: string, datasheetId: string, fields: FieldSet, coerce?: CoercionMode): Promise<{ fields: FieldSet; coercions: Coercion[] }>;
+  clearSchemaCache(scope?: { spaceId?: string; datasheetId?: string }): void;
   listRecords(baseId: string, tableId: string, options?: ListRecordsOptions): Promise<AITableRecord[]>;
+  listRecordsPage(baseId: string, tableId: string, options?: ListRecordsOptions): Promise<ListRecordsPage>;
+  exportRecords(baseId: string, tableId: string, options?: ExportRecordsOptions): Promise<RecordExport>;
   getRecord(baseId: string, tableId: string, recordId: string): Promise<AITableRecord>;
+  getRecords(baseId: string, tableId: string, recordIds: string[]): Promise<AITableRecord[]>;
   createRecord(baseId: string, tableId: string, fields: FieldSet): Promise<AITableRecord>;
-  updateRecords(baseId: string, tableId: string, records: { id: string; fields: FieldSet }[]): Promise<AITableRecord[]>;
-  deleteRecords(baseId: string, tableId: string, recordIds: string[]): Promise<{ id: string }[]>;
-  createTable(baseId: string, name: string, fields: Field[], description?: string): Promise<Table>;
+  createRecords(baseId: string, tableId: string, records: { fields: FieldSet }[]): Promise<BatchWriteResult<AITableRecord>>;
+  updateRecords(baseId: string, tableId: string, records: { id: string; fields: FieldSet }[]): Promise<BatchWriteResult<AITableRecord>>;
+  deleteRecords(baseId: string, tableId: string, recordIds: string[]): Promise<BatchWriteResult<{ id: string }>>;
+  planUpsert(baseId: string, tableId: string, records: { fields: FieldSet }[], mergeOnFields: string[]): Promise<UpsertPlan>;
+  upsertRecords(baseId: string, tableId: string, records: { fields: FieldSet }[], mergeOnFields: string[]): Promise<UpsertResult>;
+  createTable(baseId: string, name: string, fields: Field[], description?: string, folderId?: string): Promise<Table>;
   updateTable(baseId: string, tableId: string, updates: { name?: string; description?: string }): Promise<Table>;
   createField(baseId: string, tableId: string, field: Omit<Field, 'id'>): Promise<Field>;
-  updateField(baseId: string, tableId: string, fieldId: string, updates: { name?: string; description?: string }): Promise<Field>;
+  updateField(baseId: string, tableId: string, fieldId: string, updates: FieldChanges): Promise<Field>;
   searchRecords(baseId: string, tableId: string, searchTerm: string, fieldIds?: string[], maxRecords?: number): Promise<AITableRecord[]>;
 }
 